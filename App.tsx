@@ -1,76 +1,279 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { ARCanvas } from './components/ARCanvas';
-import { AppState } from './types';
-import { Loader2, Camera, AlertCircle, Upload, X, SwitchCamera } from 'lucide-react';
+import { ARCanvas, TrackedHand } from './components/ARCanvas';
+import { AppState, DetectionResult, Handedness } from './types';
+import { HAND_IDS, readHandednessLabel } from './utils/handIdentity';
+import { HandPoseTracker } from './utils/handPoseTracker';
+import { createViewMapping } from './utils/viewMapping';
+import { GestureEvent } from './utils/gestureRecognizer';
+import { DEFAULT_SMOOTHING, SmoothingConfig } from './utils/poseFilter';
+import { Delegate } from './services/mediapipeLoader';
+import { HandDetector } from './services/handDetector';
+import { loadSelection, saveSelection, ModelSelection, loadBuiltinCalibration, saveBuiltinCalibration, loadBuiltinSmoothing, saveBuiltinSmoothing } from './services/modelLibrary';
+import { useModelLibrary, LibraryModel } from './hooks/useModelLibrary';
+import { ModelGallery } from './components/ModelGallery';
+import { validateModelFile } from './services/modelValidation';
+import { capturePhoto, ClipRecorder, isClipRecordingSupported, CaptureBridge, CaptureSource } from './services/capture';
+import { CapturePreview, CaptureResult } from './components/CapturePreview';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { CameraPanel } from './components/CameraPanel';
+import { ScenePanel } from './components/ScenePanel';
+import { TelemetryHud } from './components/TelemetryHud';
+import { downloadTelemetryReport, SAMPLE_INTERVAL_MS, TelemetryCollector, TelemetrySnapshot } from './services/telemetry';
+import { ActiveCamera, CameraDevice, CameraPreferences, describeTrack, FacingMode, listCameras, loadCameraPreferences, saveCameraPreferences, videoConstraintAttempts } from './services/cameraDevices';
+import { DEFAULT_CALIBRATION, PlacementCalibration } from './utils/calibration';
+import { AnimationPicker } from './components/AnimationPicker';
+import { HandAnimationEvent, HandAnimationTrigger } from './utils/animationClips';
+import { HandRecorder, ReplaySource, downloadRecording, parseRecording } from './services/handRecording';
+import { buildShareLink, clearSceneFromUrl, describeSharedScene, downloadSceneConfig, fetchSceneModel, LightingRig, loadSceneLook, parseSceneConfig, readSceneFromUrl, saveSceneLook, SceneConfig, SceneEffects, SCENE_CONFIG_VERSION } from './services/sceneConfig';
+import { ESTIMATE_INTERVAL_MS, LightEstimate, LightingEstimator } from './services/lightingEstimator';
+import { downgradePostEffects, POST_EFFECT_PRESETS, PostEffectsPreset } from './services/postEffects';
+import { downloadRabbitGlb, downloadRabbitSpec, loadRabbitPresets, loadRabbitSpec, parseRabbitSpec, RabbitPreset, readLabelImage, saveRabbitPresets, saveRabbitSpec } from './services/rabbitDesigns';
+import { RabbitSpec } from './utils/rabbitSpec';
+import { RabbitEditor } from './components/RabbitEditor';
+import { Loader2, Camera, AlertCircle, Upload, X, SwitchCamera, Circle, Square, Film, LayoutGrid, Aperture, Video, SlidersHorizontal, Webcam, Share2, Palette } from 'lucide-react';
+
+// Per-hand state App keeps on top of HandPoseTracker's, mutated from the rAF loop
+interface HandSlot {
+  // User scale on top of the solved hand scale, adjusted by pinch-and-drag
+  gestureScale: number;
+  pinchStartScale: number;
+}
+
+const createHandSlot = (): HandSlot => ({
+  gestureScale: 1,
+  pinchStartScale: 1,
+});
+
+interface HandTrackerEvents {
+  solved: (hand: Handedness, result: DetectionResult, index: number) => void;
+  found: (hand: Handedness) => void;
+  lost: (hand: Handedness) => void;
+}
+
+// Dragging the pinch up by a full screen height grows the model by e^PINCH_SCALE_RATE
+const PINCH_SCALE_RATE = 2.5;
+const MIN_GESTURE_SCALE = 0.25;
+const MAX_GESTURE_SCALE = 4;
+
+type UploadTarget = 'Both' | Handedness;
+
+// Readable problem report for a model that failed validation or rendering
+interface ModelError {
+  name: string;
+  messages: string[];
+}
 
 const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const sceneInputRef = useRef<HTMLInputElement>(null);
+  const rabbitInputRef = useRef<HTMLInputElement>(null);
+  const labelImageInputRef = useRef<HTMLInputElement>(null);
   
   const [appState, setAppState] = useState<AppState>(AppState.LOADING_MODEL);
   const [errorMsg, setErrorMsg] = useState<string>('');
   
-  // Optimization: Use Ref instead of State for high-frequency updates (60fps)
-  const handPositionRef = useRef<THREE.Vector3>(new THREE.Vector3(0, 0, 0));
-  // Ref for dynamic scaling based on hand distance
-  const handScaleRef = useRef<THREE.Vector3>(new THREE.Vector3(1, 1, 1));
-  // Ref for dynamic rotation based on hand orientation
-  const handRotationRef = useRef<THREE.Quaternion>(new THREE.Quaternion());
-  
-  const [isHandDetected, setIsHandDetected] = useState(false);
-  // CRITICAL: Ref to track detection state inside the closure-heavy rAF loop
-  const isHandDetectedRef = useRef(false);
+  // Optimization: Use Refs instead of State for high-frequency updates (60fps)
+  // The tracker holds each hand's pose refs and found/lost hysteresis; its events
+  // go through a ref reassigned every render so they never see stale state.
+  const trackerEventsRef = useRef<HandTrackerEvents>({ solved: () => {}, found: () => {}, lost: () => {} });
+  const gestureHandlerRef = useRef<(event: GestureEvent) => void>(() => {});
+  const trackerRef = useRef<HandPoseTracker | null>(null);
+  trackerRef.current ??= new HandPoseTracker({
+    getCalibration: id => handCalibrationsRef.current[id],
+    onHandSolved: (id, result, index) => trackerEventsRef.current.solved(id, result, index),
+    onHandFound: id => trackerEventsRef.current.found(id),
+    onHandLost: id => trackerEventsRef.current.lost(id),
+    onGesture: event => gestureHandlerRef.current(event),
+  });
+  const tracker = trackerRef.current;
+  const handsRef = useRef<Record<Handedness, HandSlot>>({ Left: createHandSlot(), Right: createHandSlot() });
+
+  const [handVisibility, setHandVisibility] = useState<Record<Handedness, boolean>>({ Left: false, Right: false });
+  const isHandDetected = handVisibility.Left || handVisibility.Right;
 
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
+  // Hands whose model is hidden by a closed fist
+  const [gestureHidden, setGestureHidden] = useState<Record<Handedness, boolean>>({ Left: false, Right: false });
+
+  // Detection runs in a worker when supported; the main-thread landmarker is the fallback
+  const detectorRef = useRef<HandDetector | null>(null);
+  // Handles detection results; reassigned every render so it never sees stale state
+  const detectionResultRef = useRef<(result: DetectionResult, timestamp: number, latency: number) => void>(() => {});
   const animationFrameRef = useRef<number>(0);
-  
-  // Hysteresis Refs
-  const lastDetectionTimeRef = useRef<number>(0);
+  // Delegate MediaPipe actually runs on (GPU may fall back to CPU)
+  const [delegate, setDelegate] = useState<Delegate | null>(null);
 
   // Custom Model State
-  const [customModelUrl, setCustomModelUrl] = useState<string | null>(null);
-  const [customModelName, setCustomModelName] = useState<string | null>(null);
+  // Uploaded models persist in IndexedDB; the selection (per hand, null = built-in
+  // rabbit) persists in localStorage and is restored on reload.
+  const library = useModelLibrary();
+  const [selection, setSelection] = useState<ModelSelection>(loadSelection);
+  const [uploadTarget, setUploadTarget] = useState<UploadTarget>('Both');
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [modelError, setModelError] = useState<ModelError | null>(null);
+
+  // Placement Calibration and Smoothing
+  // Saved per library model; the built-in rabbit's live in localStorage.
+  // While calibrating, the unsaved draft previews live on every hand showing that model.
+  const [builtinCalibration, setBuiltinCalibration] = useState<PlacementCalibration | undefined>(loadBuiltinCalibration);
+  const [builtinSmoothing, setBuiltinSmoothing] = useState<SmoothingConfig | undefined>(loadBuiltinSmoothing);
+  const [calibrationDraft, setCalibrationDraft] = useState<{
+    key: string;
+    calibration: PlacementCalibration;
+    smoothing: SmoothingConfig;
+  } | null>(null);
+
+  // Model Animation State
+  // Clip names reported by each loaded model, keyed by model URL
+  const [clipsByUrl, setClipsByUrl] = useState<Record<string, string[]>>({});
+  // Looping clip picked per model id (absent = automatic idle)
+  const [animationByModel, setAnimationByModel] = useState<Record<string, string | null>>({});
+  // Latest found/lost event per hand, consumed by UserModel to play one-shot clips
+  const [handEvents, setHandEvents] = useState<Record<Handedness, HandAnimationEvent | null>>({ Left: null, Right: null });
+  const handEventIdRef = useRef(0);
+
+  const libraryModelsRef = useRef<LibraryModel[]>([]);
+  libraryModelsRef.current = library.models;
+  const findModel = (id: string | null) => library.models.find(m => m.id === id) ?? null;
+  const handModels: Record<Handedness, LibraryModel | null> = {
+    Left: findModel(selection.Left),
+    Right: findModel(selection.Right),
+  };
+
+  const calibrationKey = (model: LibraryModel | null) => model?.id ?? 'builtin';
+  const calibrationFor = (model: LibraryModel | null): PlacementCalibration => {
+    if (calibrationDraft && calibrationDraft.key === calibrationKey(model)) return calibrationDraft.calibration;
+    return (model ? model.calibration : builtinCalibration) ?? DEFAULT_CALIBRATION;
+  };
+  const smoothingFor = (model: LibraryModel | null): SmoothingConfig => {
+    if (calibrationDraft && calibrationDraft.key === calibrationKey(model)) return calibrationDraft.smoothing;
+    return (model ? model.smoothing : builtinSmoothing) ?? DEFAULT_SMOOTHING;
+  };
+  const handCalibrations: Record<Handedness, PlacementCalibration> = {
+    Left: calibrationFor(handModels.Left),
+    Right: calibrationFor(handModels.Right),
+  };
+  // The anchor ratio is consumed by the pose solver inside the rAF loop
+  const handCalibrationsRef = useRef(handCalibrations);
+  handCalibrationsRef.current = handCalibrations;
 
   // Camera State
-  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
-  const facingModeRef = useRef<'user' | 'environment'>('user'); // For access in loop
+  // Preferences (device, resolution, fps) persist in localStorage. `facingMode` is
+  // what the running stream reports, not what was requested, and drives mirroring.
+  const [cameraPrefs, setCameraPrefs] = useState<CameraPreferences>(loadCameraPreferences);
+  const cameraPrefsRef = useRef(cameraPrefs);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [activeCamera, setActiveCamera] = useState<ActiveCamera | null>(null);
+  const [isCameraPanelOpen, setIsCameraPanelOpen] = useState(false);
+  const [facingMode, setFacingMode] = useState<FacingMode>(cameraPrefs.facingMode);
+  const facingModeRef = useRef<FacingMode>(cameraPrefs.facingMode); // For access in loop
+
+  // Scene: lighting and effects (the rest of a scene lives in the model, calibration
+  // and camera state). Shared scenes arrive as a JSON file or in the URL.
+  const [lighting, setLighting] = useState<LightingRig>(() => loadSceneLook().lighting);
+  const [effects, setEffects] = useState<SceneEffects>(() => loadSceneLook().effects);
+  const [postEffects, setPostEffects] = useState<PostEffectsPreset>(() => loadSceneLook().postEffects);
+  // Cheaper preset this device fell back to; cleared when a preset is picked again
+  const [downgradedPostEffects, setDowngradedPostEffects] = useState<PostEffectsPreset | null>(null);
+  const activePostEffects = downgradedPostEffects ?? postEffects;
+  // Latest estimate from the camera feed, read by the scene lights every frame
+  const lightEstimatorRef = useRef<LightingEstimator | null>(null);
+  const lightEstimateRef = useRef<LightEstimate | null>(null);
+  const [isScenePanelOpen, setIsScenePanelOpen] = useState(false);
+  const [sceneStatus, setSceneStatus] = useState<string | null>(null);
+  const urlSceneAppliedRef = useRef(false);
+
+  // Built-in rabbit design, edited live and persisted on every change
+  const [rabbitSpec, setRabbitSpec] = useState<RabbitSpec>(loadRabbitSpec);
+  const [rabbitPresets, setRabbitPresets] = useState<RabbitPreset[]>(loadRabbitPresets);
+  const [isRabbitEditorOpen, setIsRabbitEditorOpen] = useState(false);
+  const [rabbitStatus, setRabbitStatus] = useState<string | null>(null);
+
+  // Session Recording / Replay
+  const recorderRef = useRef<HandRecorder>(new HandRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const replayRef = useRef<ReplaySource | null>(null);
+  // Play index of the last replayed frame that was processed (see ReplaySource.playIndexAt)
+  const replayIndexRef = useRef<number | null>(null);
+  const [replayName, setReplayName] = useState<string | null>(null);
+
+  // Photo / Clip Capture
+  const captureRef = useRef<CaptureBridge | null>(null);
+  const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const [isRecordingClip, setIsRecordingClip] = useState(false);
+  const [capture, setCapture] = useState<CaptureResult | null>(null);
 
   // Debug Stats
   const [debugInfo, setDebugInfo] = useState<string>('Init...');
+  const [debugOccluders, setDebugOccluders] = useState(false);
+
+  // Telemetry: the collector samples continuously so session reports cover the
+  // whole run; the HUD only re-renders with snapshots while it is open.
+  const telemetryRef = useRef<TelemetryCollector>(new TelemetryCollector());
+  const [isHudOpen, setIsHudOpen] = useState(false);
+  const [telemetrySnapshot, setTelemetrySnapshot] = useState<TelemetrySnapshot | null>(null);
+
+  useEffect(() => {
+    // Wait for the library so a saved selection isn't dropped before its model loads
+    if (!library.isLoaded) return;
+    const known = (id: string | null) => (id && library.models.some(m => m.id === id) ? id : null);
+    const cleaned = { Left: known(selection.Left), Right: known(selection.Right) };
+    if (cleaned.Left !== selection.Left || cleaned.Right !== selection.Right) {
+      setSelection(cleaned);
+      return;
+    }
+    saveSelection(selection);
+  }, [selection, library.isLoaded, library.models]);
 
   // 1. Initialize Mediapipe
   useEffect(() => {
+    // Wasm and model are served from our own base path (see scripts/copy-mediapipe-assets.mjs)
+    const detector = new HandDetector({
+      onResult: (result, timestamp, latency) => detectionResultRef.current(result, timestamp, latency),
+      // The worker crashed or hung mid-session
+      onFallback: fallbackDelegate => {
+        if (fallbackDelegate) {
+          setDelegate(fallbackDelegate);
+          setDebugInfo(`AI running on main thread (${fallbackDelegate})`);
+        } else {
+          setErrorMsg('Failed to load AI models. Please refresh.');
+          setDebugInfo("AI Load Failed");
+        }
+      },
+    });
+    // StrictMode (and fast unmounts) run the cleanup while init() is still pending
+    let cancelled = false;
+
     const initMediapipe = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm"
-        );
-        
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1,
-          minHandDetectionConfidence: 0.5,
-          minHandPresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        });
+        const delegate = await detector.init();
+        if (cancelled) return;
+        detectorRef.current = detector;
+        setDelegate(delegate);
 
+        // A replay started while the model was loading keeps running without the camera
+        if (replayRef.current) return;
         setAppState(AppState.REQUESTING_PERMISSION);
-        setDebugInfo("AI Loaded. Requesting Cam...");
+        setDebugInfo(`AI Loaded (${delegate}${detector.usesWorker ? ', worker' : ''}). Requesting Cam...`);
       } catch (err) {
+        if (cancelled) return;
         console.error(err);
-        setAppState(AppState.ERROR);
         setErrorMsg('Failed to load AI models. Please refresh.');
         setDebugInfo("AI Load Failed");
+        if (replayRef.current) return;
+        setAppState(AppState.ERROR);
       }
     };
 
     initMediapipe();
+
+    return () => {
+      cancelled = true;
+      detector.dispose();
+      detectorRef.current = null;
+    };
   }, []);
 
   // 2. Initialize Camera when Model is Ready
@@ -81,46 +284,121 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [appState]);
 
+  // Keep the device list current as cameras are plugged in or removed
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    const refresh = () => {
+      listCameras().then(setCameras).catch(err => console.warn("Could not list cameras:", err));
+    };
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  // Close a telemetry sample every interval; push it to the HUD only while it is open
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const telemetry = telemetryRef.current;
+      telemetry.setDroppedFrames(detectorRef.current?.droppedFrames ?? 0);
+      telemetry.sample(performance.now());
+      if (isHudOpen) setTelemetrySnapshot(telemetry.snapshot());
+    }, SAMPLE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isHudOpen]);
+
+  // Sample the room's lighting while the camera runs; without an estimate the rig applies as designed
+  useEffect(() => {
+    lightEstimateRef.current = null;
+    if (!effects.lightEstimation || appState !== AppState.RUNNING || replayName) return;
+    lightEstimatorRef.current ??= new LightingEstimator();
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video) return;
+      lightEstimateRef.current = lightEstimatorRef.current!.sample(
+        video,
+        video.clientWidth,
+        video.clientHeight,
+        facingModeRef.current === 'user'
+      ) ?? lightEstimateRef.current;
+    }, ESTIMATE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [effects.lightEstimation, appState, replayName]);
+
+  // A scene in the link waits for the library, so a model it already holds is reused.
+  // It comes from someone else, so nothing is downloaded or saved until the user agrees.
+  useEffect(() => {
+    if (!library.isLoaded || urlSceneAppliedRef.current) return;
+    urlSceneAppliedRef.current = true;
+    const readConfirmedScene = () => {
+      const scene = readSceneFromUrl();
+      return scene && window.confirm(describeSharedScene(scene)) ? scene : null;
+    };
+    loadScene(readConfirmedScene, 'Shared Link').finally(clearSceneFromUrl);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [library.isLoaded]);
+
+  const handleExportReport = () => {
+    const report = telemetryRef.current.report({
+      delegate,
+      worker: detectorRef.current?.usesWorker ?? false,
+      camera: activeCamera?.label ?? null,
+      resolution: activeCamera ? `${activeCamera.width}x${activeCamera.height}` : null,
+      facingMode,
+      replay: replayName,
+    });
+    downloadTelemetryReport(report);
+  };
+
+  const stopCamera = () => {
+    if (videoRef.current && videoRef.current.srcObject) {
+      const stream = videoRef.current.srcObject as MediaStream;
+      stream.getTracks().forEach(track => track.stop());
+      videoRef.current.onplaying = null;
+      videoRef.current.srcObject = null; // Clear source
+    }
+  };
+
   const startCamera = async () => {
     try {
       // Stop existing tracks if any
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-        videoRef.current.srcObject = null; // Clear source
-      }
+      stopCamera();
 
-      let stream: MediaStream;
+      // Preferred camera first, falling back to any camera
+      const attempts = videoConstraintAttempts(cameraPrefsRef.current);
 
-      try {
-        // Try requesting specific facing mode first
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            facingMode: facingModeRef.current, // Use ref to be sure
-            width: { ideal: 1280 },
-            height: { ideal: 720 }
-          }
-        });
-      } catch (err) {
-        console.warn("Specific camera request failed, retrying with fallback...", err);
-        setDebugInfo("Specific Cam Failed. Retrying...");
-        
-        // Fallback: Request ANY video device
-        // This fixes "Requested device not found" on devices that don't strictly support 'user'/'environment'
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: true
-        });
+      let stream: MediaStream | null = null;
+      let attempt = 0;
+      let lastError: unknown = null;
+      for (; attempt < attempts.length && !stream; attempt++) {
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({ video: attempts[attempt] });
+        } catch (err) {
+          console.warn("Camera request failed, retrying with fallback...", err);
+          setDebugInfo("Specific Cam Failed. Retrying...");
+          lastError = err;
+        }
       }
+      if (!stream) throw lastError;
+
+      // Mirror based on the camera we actually got
+      const active = describeTrack(stream.getVideoTracks()[0]);
+      setActiveCamera(active);
+      facingModeRef.current = active.facingMode;
+      setFacingMode(active.facingMode);
+      // Labels only become available once permission is granted
+      listCameras().then(setCameras).catch(err => console.warn("Could not list cameras:", err));
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
-        setDebugInfo(`Cam Active. Waiting...`);
+        setDebugInfo(attempt > 1 ? `Fallback Cam Active. Waiting...` : `Cam Active. Waiting...`);
         
         // Only attach event listener if not already attached or just ensure logic handles re-trigger
         videoRef.current.onplaying = () => {
            console.log("Video playing, starting detection");
            setAppState(AppState.RUNNING);
            setDebugInfo(`Running`);
+           // Never run two loops at once (e.g. after switching cameras)
+           cancelAnimationFrame(animationFrameRef.current);
            predictWebcam();
         };
 
@@ -135,11 +413,12 @@ const App: React.FC = () => {
     }
   };
 
-  const toggleCamera = () => {
-    const newMode = facingMode === 'user' ? 'environment' : 'user';
-    setFacingMode(newMode);
-    facingModeRef.current = newMode; // Update ref immediately for the loop
-    
+  // Saves the preferences and restarts the stream with them
+  const applyCameraPreferences = (preferences: CameraPreferences) => {
+    setCameraPrefs(preferences);
+    cameraPrefsRef.current = preferences;
+    saveCameraPreferences(preferences);
+
     setAppState(AppState.LOADING_MODEL); // Briefly show loading state
     setDebugInfo("Switching Camera...");
     
@@ -149,200 +428,609 @@ const App: React.FC = () => {
     }, 100);
   };
 
+  // Flips between front and rear by facing mode, dropping any specific device choice
+  const toggleCamera = () => {
+    const newMode = facingMode === 'user' ? 'environment' : 'user';
+    applyCameraPreferences({ ...cameraPrefs, deviceId: null, facingMode: newMode });
+  };
+
+  const emitHandEvent = (hand: Handedness, type: HandAnimationTrigger) => {
+    telemetryRef.current.recordHandEvent(hand, type);
+    const event = { type, id: ++handEventIdRef.current };
+    setHandEvents(prev => ({ ...prev, [hand]: event }));
+  };
+
   // 3. Prediction Loop
-  const predictWebcam = () => {
-    const video = videoRef.current;
-    const landmarker = handLandmarkerRef.current;
+  // Applies one detection result. `now` is the capture time of the frame it came
+  // from, which for worker results is earlier than the time they arrive.
+  const processDetection = (result: DetectionResult, now: number) => {
+    const facing = replayRef.current ? replayRef.current.facingMode : facingModeRef.current;
+    // Determine X coordinate based on mirroring
+    const mirrored = facing === 'user';
+    // Frame size of the source the landmarks came from (recordings keep their own),
+    // shown in the <video> element's box
+    const source = replayRef.current ? replayRef.current.recording : videoRef.current;
+    tracker.process(result, now, createViewMapping(source, videoRef.current, mirrored));
+  };
 
-    if (!video || !landmarker) return;
+  trackerEventsRef.current = {
+    solved: (id, result, index) => {
+      const label = readHandednessLabel(result, index);
+      telemetryRef.current.recordHand(id, label?.score ?? null, !label || label.id === id);
+      const position = tracker.hands[id].positionRef.current;
+      telemetryRef.current.recordPose(id, position.x, position.y, position.z);
+      tracker.hands[id].scaleRef.current.multiplyScalar(handsRef.current[id].gestureScale);
+    },
+    found: id => {
+      setHandVisibility(prev => ({ ...prev, [id]: true }));
+      emitHandEvent(id, 'found');
+      setDebugInfo(`${id} Hand Found!`);
+    },
+    lost: id => {
+      setHandVisibility(prev => ({ ...prev, [id]: false }));
+      emitHandEvent(id, 'lost');
+      setDebugInfo(`${id} Hand Lost`);
+    },
+  };
 
-    // Ensure video dimensions are valid before detecting
-    if (video.videoWidth === 0 || video.videoHeight === 0) {
-      animationFrameRef.current = requestAnimationFrame(predictWebcam);
-      return;
+  detectionResultRef.current = (result, timestamp, latency) => {
+    // Late results from the camera must not leak into a replay
+    if (replayRef.current) return;
+    try {
+      telemetryRef.current.recordDetection(latency);
+      recorderRef.current.addFrame(result, timestamp);
+      processDetection(result, timestamp);
+    } catch (e) {
+      console.warn("Detection error:", e);
     }
+  };
 
-    const startTimeMs = performance.now();
-    
-    // Safety check for valid timeline
-    if (video.currentTime > 0) {
-      try {
-        const result = landmarker.detectForVideo(video, startTimeMs);
-
-        if (result.landmarks && result.landmarks.length > 0) {
-          lastDetectionTimeRef.current = performance.now();
-          
-          // Use Ref to check state because closure variable 'isHandDetected' might be stale
-          if (!isHandDetectedRef.current) {
-            isHandDetectedRef.current = true;
-            setIsHandDetected(true);
-            setDebugInfo(`Hand Found!`);
-          }
-          
-          const landmarks = result.landmarks[0];
-          
-          // Use the wrist (0) and middle finger MCP (9) for generic hand size
-          const wrist = landmarks[0];
-          const middleFingerMCP = landmarks[9];
-          const indexFingerMCP = landmarks[5];
-          const pinkyFingerMCP = landmarks[17];
-          
-          // --- POSITION CALCULATION ---
-          // Adjusted to 30% Wrist / 70% Middle Finger Knuckle.
-          // This moves the anchor significantly towards the fingers ("Top of Screen").
-          // Previously 50/50 was too close to wrist (felt like "on the arm").
-          const ratio = 0; // 70% towards fingers
-          const palmX = wrist.x * (1 - ratio) + middleFingerMCP.x * ratio;
-          const palmY = wrist.y * (1 - ratio) + middleFingerMCP.y * ratio;
-
-          // Determine X coordinate based on mirroring
-          const isMirrored = facingModeRef.current === 'user';
-          
-          let xCoord3D = 0;
-          if (isMirrored) {
-             // Invert X because video is mirrored
-             xCoord3D = (1 - palmX) * 2 - 1;
-          } else {
-             // Normal X
-             xCoord3D = (palmX * 2) - 1;
-          }
-
-          // Convert normalized coordinates to Three.js world coordinates
-          const vector = new THREE.Vector3(
-            xCoord3D,
-            -(palmY * 2 - 1) + 1,     // Y: Invert for WebGL coords
-            -10             
-          );
-
-          // Adjust scaling to match camera FOV roughly at Z=0
-          const distance = 5; // Camera Z
-          const fov = 50;
-          const vFov = (fov * Math.PI) / 180;
-          const height = 2 * Math.tan(vFov / 2) * distance;
-          const aspect = window.innerWidth / window.innerHeight;
-          const width = height * aspect;
-
-          vector.x *= width / 2;
-          vector.y *= height / 2;
-          
-          handPositionRef.current.copy(vector);
-
-          // --- SCALE CALCULATION ---
-          // Calculate Euclidean distance between wrist and middle finger knuckle
-          const dx = wrist.x - middleFingerMCP.x;
-          const dy = wrist.y - middleFingerMCP.y;
-          const handSize = Math.sqrt(dx * dx + dy * dy);
-
-          // Base multiplier tuned for "Rabbit on Palm" look
-          const scaleMultiplier = 12; 
-          const targetScale = handSize * scaleMultiplier;
-
-          handScaleRef.current.set(targetScale, targetScale, targetScale);
-
-          // --- ROTATION CALCULATION ---
-          
-          const getVector = (point: any) => {
-             const xVal = isMirrored ? (1 - point.x) : point.x;
-             const zVal = -point.z; // Z is depth away from camera
-
-             return new THREE.Vector3(
-                xVal * aspect, 
-                -point.y, 
-                zVal * aspect 
-             );
-          }
-
-          const vWrist = getVector(wrist);
-          const vMiddle = getVector(middleFingerMCP);
-          const vIndex = getVector(indexFingerMCP);
-          const vPinky = getVector(pinkyFingerMCP);
-
-          // 1. Calculate Primary Hand Orientation Vectors
-          // Finger Direction: Wrist -> Middle (Points towards user in most poses)
-          const vecToUser = new THREE.Vector3().subVectors(vWrist, vMiddle);
-
-          // Palm Across: Index -> Pinky (Right)
-          const palmAcross = new THREE.Vector3().subVectors(vPinky, vIndex).normalize();
-          
-          // Palm Normal (Out of hand) - Used as fallback
-          const fingerDir = new THREE.Vector3().subVectors(vMiddle, vWrist).normalize(); // Points away from user
-          let palmNormal = new THREE.Vector3().crossVectors(palmAcross, fingerDir).normalize();
-          if (palmNormal.z < 0) palmNormal.negate(); // Ensure normal points towards camera
-
-          // 2. Determine "Forward" direction for the Model (Facing User)
-          // We project the 'vecToUser' onto the horizontal plane (y=0) to keep model upright.
-          const flatForward = new THREE.Vector3(vecToUser.x, 0, vecToUser.z);
-          
-          // Fallback: If hand is vertical (Stop Sign), vecToUser is vertical (y-axis dominant),
-          // so the projection is a zero vector. In this case, use Palm Normal as forward.
-          if (flatForward.lengthSq() < 0.01) {
-             flatForward.set(palmNormal.x, 0, palmNormal.z);
-          }
-          
-          flatForward.normalize();
-
-          // 3. Construct Basis Vectors (Billboard Style)
-          // UP (+Y): Always World Up (0, 1, 0)
-          const targetY = new THREE.Vector3(0, 1, 0); 
-          
-          // FRONT (+Z): The projected forward vector (Facing User)
-          const targetZ = flatForward;
-          
-          // RIGHT (+X): Cross(Y, Z)
-          const targetX = new THREE.Vector3().crossVectors(targetY, targetZ).normalize();
-          
-          // Re-orthogonalize Z
-          targetZ.crossVectors(targetX, targetY).normalize();
-
-          // Create Rotation Matrix
-          const rotationMatrix = new THREE.Matrix4().makeBasis(targetX, targetY, targetZ);
-          const targetQuaternion = new THREE.Quaternion().setFromRotationMatrix(rotationMatrix);
-          
-          handRotationRef.current.copy(targetQuaternion);
+  const predictWebcam = () => {
+    const now = performance.now();
 
-        } else {
-          // Hand lost logic
-          if (isHandDetectedRef.current) {
-             const timeSinceLastDetect = performance.now() - lastDetectionTimeRef.current;
-             if (timeSinceLastDetect > 50) { 
-                isHandDetectedRef.current = false;
-                setIsHandDetected(false);
-                setDebugInfo("Hand Lost");
-             }
-          }
+    try {
+      if (replayRef.current) {
+        // Render frames outpace recorded ones: feed each recorded frame through once,
+        // so gesture debouncing counts detections rather than repaints
+        const index = replayRef.current.playIndexAt(now);
+        if (index !== null && index !== replayIndexRef.current) {
+          replayIndexRef.current = index;
+          telemetryRef.current.recordDetection(null);
+          processDetection(replayRef.current.frameForIndex(index), now);
+        }
+      } else {
+        const video = videoRef.current;
+
+        // Ensure video dimensions are valid before detecting
+        // Safety check for valid timeline
+        if (video && video.videoWidth > 0 && video.videoHeight > 0 && video.currentTime > 0) {
+          // Results come back through detectionResultRef: right away on the main
+          // thread, later from the worker (which drops frames while busy)
+          detectorRef.current?.submit(video, now);
         }
-      } catch (e) {
-        console.warn("Detection error:", e);
       }
+    } catch (e) {
+      console.warn("Detection error:", e);
     }
 
     animationFrameRef.current = requestAnimationFrame(predictWebcam);
   };
 
+  const resetHandState = () => {
+    tracker.reset();
+    setHandVisibility({ Left: false, Right: false });
+  };
+
+  // --- GESTURE REACTIONS ---
+  // Fist hides the model, pinch-and-drag rescales it, swipe cycles models.
+  const handleGesture = (event: GestureEvent) => {
+    const slot = handsRef.current[event.hand];
+
+    switch (event.type) {
+      case 'start':
+        if (event.gesture === 'fist') {
+          setGestureHidden(prev => ({ ...prev, [event.hand]: true }));
+        } else if (event.gesture === 'pinch') {
+          slot.pinchStartScale = slot.gestureScale;
+        }
+        setDebugInfo(`${event.hand} ${event.gesture} (${Math.round(event.confidence * 100)}%)`);
+        break;
+      case 'end':
+        if (event.gesture === 'fist') {
+          setGestureHidden(prev => ({ ...prev, [event.hand]: false }));
+        }
+        break;
+      case 'pinch_drag': {
+        // Dragging up (negative dy) grows the model
+        const scale = slot.pinchStartScale * Math.exp(-event.dy * PINCH_SCALE_RATE);
+        slot.gestureScale = THREE.MathUtils.clamp(scale, MIN_GESTURE_SCALE, MAX_GESTURE_SCALE);
+        break;
+      }
+      case 'swipe': {
+        // Built-in rabbit (null) followed by the uploaded models
+        const cycle: (string | null)[] = [null, ...library.models.map(m => m.id)];
+        if (cycle.length < 2) break;
+        const current = Math.max(0, cycle.indexOf(handModels[event.hand]?.id ?? null));
+        const step = event.direction === 'right' ? 1 : -1;
+        const next = cycle[(current + step + cycle.length) % cycle.length];
+        setSelection(prev => ({ ...prev, [event.hand]: next }));
+        setDebugInfo(`${event.hand} swipe ${event.direction}`);
+        break;
+      }
+    }
+  };
+  gestureHandlerRef.current = handleGesture;
+
+  // --- SESSION RECORDING / REPLAY ---
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording) {
+      const frameCount = recorder.frameCount;
+      const recording = recorder.stop();
+      setIsRecording(false);
+      setDebugInfo(`Saved ${frameCount} frames`);
+      if (frameCount > 0) downloadRecording(recording);
+    } else {
+      const video = videoRef.current;
+      recorder.start({
+        facingMode: facingModeRef.current,
+        videoWidth: video?.videoWidth ?? 0,
+        videoHeight: video?.videoHeight ?? 0,
+      });
+      setIsRecording(true);
+      setDebugInfo("Recording...");
+    }
+  };
+
+  const handleReplayClick = () => {
+    replayInputRef.current?.click();
+  };
+
+  const handleReplayFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be replayed again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const recording = parseRecording(await file.text());
+
+      if (recorderRef.current.isRecording) {
+        recorderRef.current.stop();
+        setIsRecording(false);
+      }
+      cancelAnimationFrame(animationFrameRef.current);
+      stopCamera();
+      resetHandState();
+
+      replayRef.current = new ReplaySource(recording);
+      replayIndexRef.current = null;
+      setReplayName(file.name);
+      setAppState(AppState.RUNNING);
+      setDebugInfo(`Replay: ${recording.frames.length} frames`);
+      predictWebcam();
+    } catch (err) {
+      console.error(err);
+      const msg = err instanceof Error ? err.message : String(err);
+      setDebugInfo(`Replay Failed: ${msg}`);
+    }
+  };
+
+  const stopReplay = () => {
+    cancelAnimationFrame(animationFrameRef.current);
+    replayRef.current = null;
+    setReplayName(null);
+    resetHandState();
+
+    if (detectorRef.current) {
+      setAppState(AppState.REQUESTING_PERMISSION);
+      setDebugInfo("Replay Stopped. Requesting Cam...");
+    } else {
+      // The model is either still loading or failed to load
+      setAppState(errorMsg ? AppState.ERROR : AppState.LOADING_MODEL);
+      setDebugInfo("Replay Stopped");
+    }
+  };
+
+  // --- PHOTO / CLIP CAPTURE ---
+  const getCaptureSource = (): CaptureSource => {
+    if (!captureRef.current) throw new Error('AR view not ready');
+    const replay = replayRef.current;
+    return {
+      ...captureRef.current,
+      // In replay mode there is no camera frame, only the 3D layer
+      video: replay ? null : videoRef.current,
+      mirrored: (replay ? replay.facingMode : facingModeRef.current) === 'user',
+    };
+  };
+
+  const captureFileName = (ext: string) => `kana-ar-${new Date().toISOString().replace(/[:.]/g, '-')}.${ext}`;
+
+  const handleTakePhoto = async () => {
+    try {
+      const blob = await capturePhoto(getCaptureSource());
+      setCapture({ kind: 'photo', blob, fileName: captureFileName('png') });
+    } catch (err) {
+      console.error(err);
+      setDebugInfo("Photo Failed");
+    }
+  };
+
+  const toggleClipRecording = async () => {
+    try {
+      if (clipRecorderRef.current?.isRecording) {
+        const blob = await clipRecorderRef.current.stop();
+        setIsRecordingClip(false);
+        setCapture({ kind: 'video', blob, fileName: captureFileName('webm') });
+      } else {
+        // The AR view unmounted mid-clip (e.g. camera error): keep what was recorded
+        clipRecorderRef.current = new ClipRecorder(getCaptureSource, blob => {
+          setIsRecordingClip(false);
+          setCapture({ kind: 'video', blob, fileName: captureFileName('webm') });
+        });
+        clipRecorderRef.current.start();
+        setIsRecordingClip(true);
+        setDebugInfo("Recording Clip...");
+      }
+    } catch (err) {
+      console.error(err);
+      setIsRecordingClip(false);
+      setDebugInfo("Clip Failed");
+    }
+  };
+
   // --- FILE UPLOAD HANDLERS ---
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const assignModel = (target: UploadTarget, id: string | null) => {
+    setSelection(prev => {
+      const next = { ...prev };
+      for (const hand of HAND_IDS) {
+        if (target === 'Both' || target === hand) next[hand] = id;
+      }
+      return next;
+    });
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setCustomModelUrl(url);
-      setCustomModelName(file.name);
+    // Reset file input value so the same file can be selected again if needed
+    event.target.value = '';
+    if (!file) return;
+
+    setDebugInfo("Checking Model...");
+    setModelError(null);
+    try {
+      const validation = await validateModelFile(file);
+      if (validation.errors.length > 0) {
+        setModelError({ name: file.name, messages: validation.errors });
+        setDebugInfo("Model Rejected");
+        return;
+      }
+      validation.warnings.forEach(w => console.warn(`${file.name}: ${w}`));
+
+      setDebugInfo("Saving Model...");
+      const model = await library.add(file, { format: validation.format ?? 'gltf' });
+      assignModel(uploadTarget, model.id);
+      setDebugInfo(model.persisted ? `Saved ${model.name}` : `Loaded ${model.name} (not saved)`);
+    } catch (err) {
+      // Unreadable files and library failures (e.g. storage errors)
+      console.error(err);
+      const msg = err instanceof Error ? err.message : String(err);
+      setModelError({ name: file.name, messages: [msg] });
+      setDebugInfo("Model Failed");
     }
   };
 
-  const handleClearModel = () => {
-    if (customModelUrl) {
-      URL.revokeObjectURL(customModelUrl); // Cleanup memory
-      setCustomModelUrl(null);
-      setCustomModelName(null);
-      // Reset file input value so the same file can be selected again if needed
-      if (fileInputRef.current) fileInputRef.current.value = '';
+  // Switches the hand(s) back to the built-in rabbit; the model stays in the library
+  const handleClearModel = (target: UploadTarget) => {
+    assignModel(target, null);
+  };
+
+  const handleDeleteModel = async (id: string) => {
+    try {
+      await library.remove(id);
+    } catch (err) {
+      console.error(err);
+      setDebugInfo("Delete Failed");
     }
   };
 
+  const handleRenameModel = async (id: string, name: string) => {
+    try {
+      await library.rename(id, name);
+    } catch (err) {
+      console.error(err);
+      setDebugInfo("Rename Failed");
+    }
+  };
+
+  const handleClipsLoaded = useCallback((url: string, clips: string[]) => {
+    setClipsByUrl(prev => ({ ...prev, [url]: clips }));
+  }, []);
+
+  // A model that passed validation can still fail in the renderer (e.g. stored before
+  // validation existed); the boundary shows the rabbit and we explain why
+  const handleModelError = useCallback((url: string, error: Error) => {
+    const name = libraryModelsRef.current.find(m => m.url === url)?.name ?? 'Model';
+    setModelError({ name, messages: [error.message || 'The model could not be displayed.'] });
+  }, []);
+
+  const handleSelectAnimation = (clip: string | null) => {
+    if (!pickerModel) return;
+    setAnimationByModel(prev => ({ ...prev, [pickerModel.id]: clip }));
+  };
+
+  // --- PLACEMENT CALIBRATION ---
+  // Calibrates the picker model (the target hand's model, Left when targeting both)
+  const startCalibration = () => {
+    setIsGalleryOpen(false);
+    setIsCameraPanelOpen(false);
+    setIsScenePanelOpen(false);
+    setIsRabbitEditorOpen(false);
+    setCalibrationDraft({
+      key: calibrationKey(pickerModel),
+      calibration: calibrationFor(pickerModel),
+      smoothing: smoothingFor(pickerModel),
+    });
+  };
+
+  const handleSaveCalibration = async () => {
+    if (!calibrationDraft) return;
+    const { key, calibration, smoothing } = calibrationDraft;
+    try {
+      if (key === 'builtin') {
+        saveBuiltinCalibration(calibration);
+        setBuiltinCalibration(calibration);
+        saveBuiltinSmoothing(smoothing);
+        setBuiltinSmoothing(smoothing);
+      } else {
+        await library.update(key, { calibration, smoothing });
+      }
+      setCalibrationDraft(null);
+      setDebugInfo("Calibration Saved");
+    } catch (err) {
+      console.error(err);
+      setDebugInfo("Calibration Save Failed");
+    }
+  };
+
+  const cycleUploadTarget = () => {
+    // A draft belongs to the previous target's model
+    setCalibrationDraft(null);
+    setUploadTarget(prev => (prev === 'Both' ? 'Left' : prev === 'Left' ? 'Right' : 'Both'));
+  };
+
+  // --- SCENE CONFIG ---
+  // A scene holds one model: the Left hand's. Applying a scene puts it on both hands.
+  const sceneModel = handModels.Left;
+  const shareBlocker = sceneModel && !sceneModel.sourceUrl
+    ? "Uploaded models only exist on this device, so this scene can't be shared."
+    : null;
+
+  const currentScene = (): SceneConfig => ({
+    version: SCENE_CONFIG_VERSION,
+    model: {
+      src: sceneModel?.sourceUrl ?? null,
+      animation: (sceneModel && animationByModel[sceneModel.id]) ?? null,
+    },
+    calibration: calibrationFor(sceneModel),
+    character: rabbitSpec,
+    lighting,
+    effects,
+    postEffects,
+    facingMode,
+  });
+
+  // Restarts a running camera; otherwise the next start opens the requested one
+  const applySceneFacingMode = (mode: FacingMode) => {
+    const running = !!videoRef.current?.srcObject;
+    if (mode === (running ? facingModeRef.current : cameraPrefsRef.current.facingMode)) return;
+    const preferences = { ...cameraPrefsRef.current, deviceId: null, facingMode: mode };
+    if (running) {
+      applyCameraPreferences(preferences);
+    } else {
+      setCameraPrefs(preferences);
+      cameraPrefsRef.current = preferences;
+      saveCameraPreferences(preferences);
+    }
+  };
+
+  const applyScene = async (scene: SceneConfig) => {
+    setCalibrationDraft(null);
+    const { src, animation } = scene.model;
+    let model: LibraryModel | null = null;
+
+    if (src) {
+      // Reuse an earlier download of the same model
+      model = libraryModelsRef.current.find(m => m.sourceUrl === src) ?? null;
+      if (model) {
+        await library.update(model.id, { calibration: scene.calibration });
+      } else {
+        setDebugInfo("Downloading Model...");
+        const file = await fetchSceneModel(src);
+        const validation = await validateModelFile(file);
+        if (validation.errors.length > 0) throw new Error(validation.errors.join(' '));
+        validation.warnings.forEach(w => console.warn(`${file.name}: ${w}`));
+        model = await library.add(file, { sourceUrl: src, calibration: scene.calibration, format: validation.format ?? 'gltf' });
+      }
+      const id = model.id;
+      setAnimationByModel(prev => ({ ...prev, [id]: animation }));
+    } else {
+      saveBuiltinCalibration(scene.calibration);
+      setBuiltinCalibration(scene.calibration);
+    }
+    assignModel('Both', model?.id ?? null);
+    handleRabbitChange(scene.character);
+
+    setLighting(scene.lighting);
+    setEffects(scene.effects);
+    setPostEffects(scene.postEffects);
+    setDowngradedPostEffects(null);
+    saveSceneLook({ lighting: scene.lighting, effects: scene.effects, postEffects: scene.postEffects });
+    applySceneFacingMode(scene.facingMode);
+  };
+
+  // `source` names the file or link in messages
+  const loadScene = async (read: () => SceneConfig | null | Promise<SceneConfig | null>, source: string) => {
+    try {
+      const scene = await read();
+      if (!scene) return;
+      await applyScene(scene);
+      setSceneStatus(`Loaded ${source}`);
+      setDebugInfo("Scene Loaded");
+    } catch (err) {
+      console.error(err);
+      const msg = err instanceof Error ? err.message : String(err);
+      setModelError({ name: source, messages: [msg] });
+      setDebugInfo("Scene Failed");
+    }
+  };
+
+  const handleSceneFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be imported again
+    event.target.value = '';
+    if (!file) return;
+    await loadScene(async () => parseSceneConfig(await file.text()), file.name);
+  };
+
+  const handleCopyShareLink = async () => {
+    const link = buildShareLink(currentScene());
+    try {
+      await navigator.clipboard.writeText(link);
+      setSceneStatus("Link copied");
+    } catch (err) {
+      // No clipboard access (e.g. insecure context): let the user copy it by hand
+      console.warn("Clipboard unavailable:", err);
+      window.prompt("Copy this link", link);
+    }
+  };
+
+  const handleExportScene = () => {
+    downloadSceneConfig(currentScene());
+    setSceneStatus("Scene exported");
+  };
+
+  const handleEffectsChange = (next: SceneEffects) => {
+    setEffects(next);
+    saveSceneLook({ lighting, effects: next, postEffects });
+  };
+
+  const handlePostEffectsChange = (preset: PostEffectsPreset) => {
+    setPostEffects(preset);
+    setDowngradedPostEffects(null);
+    saveSceneLook({ lighting, effects, postEffects: preset });
+  };
+
+  // Steps down one preset per sustained frame rate drop, down to 'off'
+  const handlePerformanceDecline = () => {
+    const next = downgradePostEffects(activePostEffects);
+    if (next === activePostEffects) return;
+    setDowngradedPostEffects(next);
+    setDebugInfo(`Effects lowered to ${POST_EFFECT_PRESETS[next].label}`);
+  };
+
+  // --- CHARACTER EDITOR ---
+  const handleRabbitChange = (spec: RabbitSpec) => {
+    setRabbitSpec(spec);
+    setRabbitStatus(null);
+    try {
+      saveRabbitSpec(spec);
+    } catch (err) {
+      console.warn("Could not persist character:", err);
+    }
+  };
+
+  const storeRabbitPresets = (presets: RabbitPreset[], status: string) => {
+    try {
+      saveRabbitPresets(presets);
+      setRabbitPresets(presets);
+      setRabbitStatus(status);
+    } catch (err) {
+      console.error(err);
+      setRabbitStatus("Storage full: remove a preset or its label image");
+    }
+  };
+
+  // Saving under an existing name replaces that preset
+  const handleSaveRabbitPreset = (name: string) => {
+    storeRabbitPresets([...rabbitPresets.filter(preset => preset.name !== name), { name, spec: rabbitSpec }], `Saved ${name}`);
+  };
+
+  const handleDeleteRabbitPreset = (name: string) => {
+    storeRabbitPresets(rabbitPresets.filter(preset => preset.name !== name), `Deleted ${name}`);
+  };
+
+  const handleRabbitFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be imported again
+    event.target.value = '';
+    if (!file) return;
+    try {
+      handleRabbitChange(parseRabbitSpec(await file.text()));
+      setRabbitStatus(`Loaded ${file.name}`);
+    } catch (err) {
+      console.error(err);
+      const msg = err instanceof Error ? err.message : String(err);
+      setModelError({ name: file.name, messages: [msg] });
+    }
+  };
+
+  const handleLabelImageChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const image = await readLabelImage(file);
+      handleRabbitChange({ ...rabbitSpec, label: { ...rabbitSpec.label, image } });
+    } catch (err) {
+      console.error(err);
+      setRabbitStatus(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExportRabbitGlb = async () => {
+    try {
+      await downloadRabbitGlb(rabbitSpec, rabbitSpec.label.text || 'rabbit');
+      setRabbitStatus("GLB exported");
+    } catch (err) {
+      console.error(err);
+      setRabbitStatus("GLB export failed");
+    }
+  };
+
+  const sharedModel = handModels.Left && handModels.Left.url === handModels.Right?.url ? handModels.Left : null;
+  const modelLabels: { target: UploadTarget; model: LibraryModel }[] = sharedModel
+    ? [{ target: 'Both', model: sharedModel }]
+    : HAND_IDS.flatMap(id => (handModels[id] ? [{ target: id, model: handModels[id]! }] : []));
+
+  const trackedHands: TrackedHand[] = HAND_IDS.map(id => ({
+    id,
+    positionRef: tracker.hands[id].positionRef,
+    scaleRef: tracker.hands[id].scaleRef,
+    rotationRef: tracker.hands[id].rotationRef,
+    timestampRef: tracker.hands[id].timestampRef,
+    palmFacingRef: tracker.hands[id].palmFacingRef,
+    jointsRef: tracker.hands[id].jointsRef,
+    smoothing: smoothingFor(handModels[id]),
+    visible: handVisibility[id] && !gestureHidden[id],
+    tracked: handVisibility[id],
+    modelUrl: handModels[id]?.url ?? null,
+    modelFormat: handModels[id]?.format ?? 'gltf',
+    animation: (handModels[id] && animationByModel[handModels[id]!.id]) ?? null,
+    handEvent: handEvents[id],
+    onClipsLoaded: handleClipsLoaded,
+    onModelError: handleModelError,
+    calibration: handCalibrations[id],
+  }));
+
+  // Clip picker follows the target hand (Left when targeting both)
+  const pickerModel = handModels[uploadTarget === 'Both' ? 'Left' : uploadTarget];
+  const pickerClips = pickerModel ? clipsByUrl[pickerModel.url] ?? [] : [];
+
   return (
     // Changed bg-black to bg-zinc-900 to distinguish "App Background" from "Camera Failed (Black)"
     <div className="relative w-full h-screen bg-zinc-900 overflow-hidden touch-none">
@@ -351,7 +1039,35 @@ const App: React.FC = () => {
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept=".glb,.gltf" 
+        accept=".glb,.gltf,.vrm" 
+        className="hidden" 
+      />
+      <input 
+        type="file" 
+        ref={replayInputRef} 
+        onChange={handleReplayFileChange} 
+        accept=".json,application/json" 
+        className="hidden" 
+      />
+      <input 
+        type="file" 
+        ref={sceneInputRef} 
+        onChange={handleSceneFileChange} 
+        accept=".json,application/json" 
+        className="hidden" 
+      />
+      <input 
+        type="file" 
+        ref={rabbitInputRef} 
+        onChange={handleRabbitFileChange} 
+        accept=".json,application/json" 
+        className="hidden" 
+      />
+      <input 
+        type="file" 
+        ref={labelImageInputRef} 
+        onChange={handleLabelImageChange} 
+        accept="image/*" 
         className="hidden" 
       />
 
@@ -374,11 +1090,17 @@ const App: React.FC = () => {
       {/* z-10 ensures it is above video but below UI */}
       {appState === AppState.RUNNING && (
         <ARCanvas 
-          handPositionRef={handPositionRef} 
-          handScaleRef={handScaleRef} 
-          handRotationRef={handRotationRef}
-          isVisible={isHandDetected}
-          modelUrl={customModelUrl}
+          hands={trackedHands} 
+          captureRef={captureRef} 
+          debugOccluders={debugOccluders}
+          lighting={lighting}
+          occlusion={effects.occlusion}
+          shadows={effects.shadows}
+          lightEstimateRef={lightEstimateRef}
+          postEffects={activePostEffects}
+          onPerformanceDecline={handlePerformanceDecline}
+          character={rabbitSpec}
+          onRenderFrame={() => telemetryRef.current.recordRenderFrame()}
         />
       )}
 
@@ -392,10 +1114,19 @@ const App: React.FC = () => {
               <h1 className="text-white font-bold text-lg tracking-wider flex items-center gap-2">
                  <span className="text-yellow-400">KANA</span> AR
               </h1>
-              {customModelName && (
+              {modelLabels.map(({ target, model }) => (
+                <div key={target} className="flex items-center gap-2 mt-1 px-1">
+                  {target !== 'Both' && <span className="text-[10px] text-white/50">{target[0]}</span>}
+                  <span className="text-xs text-green-300 truncate max-w-[100px]">{model.name}</span>
+                  <button onClick={() => handleClearModel(target)} className="text-white/70 hover:text-white">
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              {replayName && (
                 <div className="flex items-center gap-2 mt-1 px-1">
-                  <span className="text-xs text-green-300 truncate max-w-[100px]">{customModelName}</span>
-                  <button onClick={handleClearModel} className="text-white/70 hover:text-white">
+                  <span className="text-xs text-blue-300 truncate max-w-[100px]">Replay: {replayName}</span>
+                  <button onClick={stopReplay} className="text-white/70 hover:text-white">
                     <X size={12} />
                   </button>
                 </div>
@@ -413,22 +1144,243 @@ const App: React.FC = () => {
                <Upload className="w-5 h-5 text-white" />
              </button>
 
+             {/* Model Gallery Button */}
+             <button 
+               onClick={() => {
+                 setCalibrationDraft(null);
+                 setIsCameraPanelOpen(false);
+                 setIsScenePanelOpen(false);
+                 setIsRabbitEditorOpen(false);
+                 setIsGalleryOpen(open => !open);
+               }}
+               className={`backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95 ${isGalleryOpen ? 'bg-yellow-400/30' : 'bg-white/10 hover:bg-white/20'}`}
+               aria-label="Model Gallery"
+             >
+               <LayoutGrid className="w-5 h-5 text-white" />
+             </button>
+
+             {/* Calibration Button */}
+             <button 
+               onClick={() => (calibrationDraft ? setCalibrationDraft(null) : startCalibration())}
+               className={`backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95 ${calibrationDraft ? 'bg-yellow-400/30' : 'bg-white/10 hover:bg-white/20'}`}
+               aria-label="Calibrate Placement"
+             >
+               <SlidersHorizontal className="w-5 h-5 text-white" />
+             </button>
+
+             {/* Target Hand (which hand uploads and gallery picks apply to) */}
+             <button 
+               onClick={cycleUploadTarget}
+               className="bg-white/10 hover:bg-white/20 backdrop-blur-md py-1 rounded-full border border-white/10 shadow-xl transition-all active:scale-95 text-[10px] font-bold text-white"
+               aria-label="Target Hand"
+             >
+               {uploadTarget === 'Both' ? 'L+R' : uploadTarget[0]}
+             </button>
+
              {/* Switch Camera Button */}
+             {!replayName && (
+               <button 
+                 onClick={toggleCamera}
+                 className="bg-white/10 hover:bg-white/20 backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95"
+                 aria-label="Switch Camera"
+               >
+                 <SwitchCamera className="w-5 h-5 text-white" />
+               </button>
+             )}
+
+             {/* Camera Settings Button */}
+             {!replayName && (
+               <button 
+                 onClick={() => {
+                   setIsGalleryOpen(false);
+                   setCalibrationDraft(null);
+                   setIsScenePanelOpen(false);
+                   setIsRabbitEditorOpen(false);
+                   setIsCameraPanelOpen(open => !open);
+                 }}
+                 className={`backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95 ${isCameraPanelOpen ? 'bg-yellow-400/30' : 'bg-white/10 hover:bg-white/20'}`}
+                 aria-label="Camera Settings"
+               >
+                 <Webcam className="w-5 h-5 text-white" />
+               </button>
+             )}
+             
+             {/* Scene Button (share link, JSON import/export) */}
              <button 
-               onClick={toggleCamera}
-               className="bg-white/10 hover:bg-white/20 backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95"
-               aria-label="Switch Camera"
+               onClick={() => {
+                 setIsGalleryOpen(false);
+                 setCalibrationDraft(null);
+                 setIsCameraPanelOpen(false);
+                 setIsRabbitEditorOpen(false);
+                 setSceneStatus(null);
+                 setIsScenePanelOpen(open => !open);
+               }}
+               className={`backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95 ${isScenePanelOpen ? 'bg-yellow-400/30' : 'bg-white/10 hover:bg-white/20'}`}
+               aria-label="Scene"
              >
-               <SwitchCamera className="w-5 h-5 text-white" />
+               <Share2 className="w-5 h-5 text-white" />
+             </button>
+
+             {/* Character Editor Button (built-in rabbit design) */}
+             <button 
+               onClick={() => {
+                 setIsGalleryOpen(false);
+                 setCalibrationDraft(null);
+                 setIsCameraPanelOpen(false);
+                 setIsScenePanelOpen(false);
+                 setRabbitStatus(null);
+                 setIsRabbitEditorOpen(open => !open);
+               }}
+               className={`backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95 ${isRabbitEditorOpen ? 'bg-yellow-400/30' : 'bg-white/10 hover:bg-white/20'}`}
+               aria-label="Character Editor"
+             >
+               <Palette className="w-5 h-5 text-white" />
              </button>
              
+             {/* Record Session Button */}
+             {appState === AppState.RUNNING && !replayName && (
+               <button 
+                 onClick={toggleRecording}
+                 className={`backdrop-blur-md p-3 rounded-full border shadow-xl transition-all active:scale-95 ${isRecording ? 'bg-red-600/80 border-red-400/50' : 'bg-white/10 hover:bg-white/20 border-white/10'}`}
+                 aria-label={isRecording ? "Stop Recording" : "Record Session"}
+               >
+                 {isRecording ? <Square className="w-5 h-5 text-white" /> : <Circle className="w-5 h-5 text-red-400" />}
+               </button>
+             )}
+
+             {/* Photo Button */}
+             {appState === AppState.RUNNING && (
+               <button 
+                 onClick={handleTakePhoto}
+                 className="bg-white/10 hover:bg-white/20 backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95"
+                 aria-label="Take Photo"
+               >
+                 <Aperture className="w-5 h-5 text-white" />
+               </button>
+             )}
+
+             {/* Clip Record Button */}
+             {appState === AppState.RUNNING && isClipRecordingSupported() && (
+               <button 
+                 onClick={toggleClipRecording}
+                 className={`backdrop-blur-md p-3 rounded-full border shadow-xl transition-all active:scale-95 ${isRecordingClip ? 'bg-red-600/80 border-red-400/50 animate-pulse' : 'bg-white/10 hover:bg-white/20 border-white/10'}`}
+                 aria-label={isRecordingClip ? "Stop Clip" : "Record Clip"}
+               >
+                 <Video className="w-5 h-5 text-white" />
+               </button>
+             )}
+
+             {/* Replay Session Button */}
+             <button 
+               onClick={handleReplayClick}
+               className="bg-white/10 hover:bg-white/20 backdrop-blur-md p-3 rounded-full border border-white/10 shadow-xl transition-all active:scale-95"
+               aria-label="Replay Session"
+             >
+               <Film className="w-5 h-5 text-white" />
+             </button>
+
              {/* DEBUG OVERLAY */}
              <div className="bg-black/50 p-2 rounded text-[10px] text-green-400 font-mono text-center">
                 {debugInfo}
+                {delegate && <div className="text-white/40">{delegate}</div>}
+                <button
+                  onClick={() => setDebugOccluders(prev => !prev)}
+                  className={`mt-1 uppercase tracking-widest ${debugOccluders ? 'text-cyan-300' : 'text-white/40 hover:text-white/70'}`}
+                >
+                  Occluder {debugOccluders ? 'shown' : 'hidden'}
+                </button>
              </div>
            </div>
         </div>
 
+        {/* Model Gallery Panel */}
+        {isGalleryOpen && (
+          <div className="absolute top-28 left-6">
+            <ModelGallery 
+              models={library.models}
+              selectedId={selection[uploadTarget === 'Both' ? 'Left' : uploadTarget]}
+              targetLabel={uploadTarget}
+              onSelect={id => assignModel(uploadTarget, id)}
+              onRename={handleRenameModel}
+              onDelete={handleDeleteModel}
+              onUpload={handleUploadClick}
+              onClose={() => setIsGalleryOpen(false)}
+            />
+          </div>
+        )}
+
+        {/* Calibration Panel */}
+        {calibrationDraft && (
+          <div className="absolute top-28 left-6">
+            <CalibrationPanel 
+              modelName={pickerModel?.name ?? 'Cyberpunk Rabbit'}
+              calibration={calibrationDraft.calibration}
+              smoothing={calibrationDraft.smoothing}
+              onChange={calibration => setCalibrationDraft(prev => prev && { ...prev, calibration })}
+              onSmoothingChange={smoothing => setCalibrationDraft(prev => prev && { ...prev, smoothing })}
+              onSave={handleSaveCalibration}
+              onReset={() => setCalibrationDraft(prev => prev && { ...prev, calibration: DEFAULT_CALIBRATION, smoothing: DEFAULT_SMOOTHING })}
+              onCancel={() => setCalibrationDraft(null)}
+            />
+          </div>
+        )}
+
+        {/* Camera Settings Panel */}
+        {isCameraPanelOpen && !replayName && (
+          <div className="absolute top-28 left-6">
+            <CameraPanel 
+              cameras={cameras}
+              preferences={cameraPrefs}
+              active={activeCamera}
+              onChange={applyCameraPreferences}
+              onClose={() => setIsCameraPanelOpen(false)}
+            />
+          </div>
+        )}
+
+        {/* Scene Panel */}
+        {isScenePanelOpen && (
+          <div className="absolute top-28 left-6">
+            <ScenePanel 
+              modelName={sceneModel?.name ?? 'Cyberpunk Rabbit'}
+              shareBlocker={shareBlocker}
+              effects={effects}
+              postEffects={postEffects}
+              activePostEffects={activePostEffects}
+              status={sceneStatus}
+              onEffectsChange={handleEffectsChange}
+              onPostEffectsChange={handlePostEffectsChange}
+              onCopyLink={handleCopyShareLink}
+              onExport={handleExportScene}
+              onImport={() => sceneInputRef.current?.click()}
+              onClose={() => setIsScenePanelOpen(false)}
+            />
+          </div>
+        )}
+
+        {/* Character Editor */}
+        {isRabbitEditorOpen && (
+          <div className="absolute top-28 left-6">
+            <RabbitEditor 
+              spec={rabbitSpec}
+              presets={rabbitPresets}
+              isShown={HAND_IDS.some(id => !handModels[id])}
+              status={rabbitStatus}
+              onChange={handleRabbitChange}
+              onSavePreset={handleSaveRabbitPreset}
+              onDeletePreset={handleDeleteRabbitPreset}
+              onPickLabelImage={() => labelImageInputRef.current?.click()}
+              onExportJson={() => {
+                downloadRabbitSpec(rabbitSpec, rabbitSpec.label.text || 'rabbit');
+                setRabbitStatus("JSON exported");
+              }}
+              onExportGlb={handleExportRabbitGlb}
+              onImport={() => rabbitInputRef.current?.click()}
+              onClose={() => setIsRabbitEditorOpen(false)}
+            />
+          </div>
+        )}
+
         {/* Status Messages */}
         <div className="flex flex-col items-center justify-center gap-4">
           {appState === AppState.LOADING_MODEL && (
@@ -452,6 +1404,22 @@ const App: React.FC = () => {
              </div>
           )}
 
+          {modelError && (
+             <div className="flex flex-col items-center bg-red-900/80 p-6 rounded-3xl backdrop-blur-xl border border-red-500/30 max-w-sm pointer-events-auto">
+               <AlertCircle className="w-8 h-8 text-white mb-3" />
+               <p className="text-white font-semibold text-center mb-2">Can't use {modelError.name}</p>
+               <ul className="text-white/80 text-xs list-disc pl-4 space-y-1">
+                 {modelError.messages.map(msg => <li key={msg}>{msg}</li>)}
+               </ul>
+               <button 
+                 onClick={() => setModelError(null)}
+                 className="mt-4 px-4 py-1 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 text-white text-xs"
+               >
+                 Dismiss
+               </button>
+             </div>
+          )}
+
           {appState === AppState.RUNNING && !isHandDetected && (
             <div className="bg-black/40 backdrop-blur-md px-6 py-3 rounded-full border border-white/10 animate-pulse transition-opacity duration-300">
               <p className="text-white font-semibold text-sm">Show your open palm to the camera</p>
@@ -459,8 +1427,31 @@ const App: React.FC = () => {
           )}
         </div>
 
+        {/* Telemetry HUD */}
+        <div className="absolute bottom-6 left-6">
+          <TelemetryHud 
+            snapshot={telemetrySnapshot}
+            open={isHudOpen}
+            onToggle={() => {
+              if (!isHudOpen) setTelemetrySnapshot(telemetryRef.current.snapshot());
+              setIsHudOpen(open => !open);
+            }}
+            onExport={handleExportReport}
+          />
+        </div>
+
+        {/* Capture Preview Sheet */}
+        {capture && <CapturePreview capture={capture} onClose={() => setCapture(null)} />}
+
         {/* Footer */}
-        <div className="text-center">
+        <div className="flex flex-col items-center gap-3 text-center">
+             {pickerModel && pickerClips.length > 0 && (
+               <AnimationPicker 
+                 clips={pickerClips}
+                 active={animationByModel[pickerModel.id] ?? null}
+                 onSelect={handleSelectAnimation}
+               />
+             )}
              <p className="text-white/30 text-[10px] uppercase tracking-widest">Powered by Three.js & Mediapipe</p>
         </div>
       </div>
@@ -1,65 +1,235 @@
 
-import React, { useRef, Suspense } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { useMemo, useRef, Suspense } from 'react';
+import { addAfterEffect, Canvas, useFrame, useThree } from '@react-three/fiber';
 import { PerspectiveCamera } from '@react-three/drei';
 import * as THREE from 'three';
+import { EffectComposer as EffectComposerImpl } from 'postprocessing';
 import { CyberpunkRabbit } from './CyberpunkRabbit';
 import { UserModel } from './UserModel';
+import { VrmModel } from './VrmModel';
+import { ModelErrorBoundary } from './ModelErrorBoundary';
+import { HandOccluder } from './HandOccluder';
+import { SceneLighting, ShadowCatcher } from './SceneLighting';
+import { PostEffects } from './PostEffects';
+import { Handedness } from '../types';
+import { createPoseFilter, SmoothingConfig } from '../utils/poseFilter';
+import { HandAnimationEvent } from '../utils/animationClips';
+import { CaptureBridge } from '../services/capture';
+import { ModelFormat } from '../services/modelValidation';
+import { dracoDecoderPath } from '../services/gltfLoader';
+import { DEFAULT_LIGHTING, LightingRig } from '../services/sceneConfig';
+import { LightEstimate } from '../services/lightingEstimator';
+import { PostEffectsPreset } from '../services/postEffects';
+import { RabbitSpec } from '../utils/rabbitSpec';
+import { PlacementCalibration } from '../utils/calibration';
+import { createHandPose, HandJoints } from '../utils/poseSolver';
+import { createHandBehavior, HandBehaviorOutput } from '../utils/handBehavior';
+import { SCENE_CAMERA } from '../utils/viewMapping';
 
 declare global {
   namespace JSX {
     interface IntrinsicElements {
       group: any;
-      ambientLight: any;
-      directionalLight: any;
-      pointLight: any;
     }
   }
 }
 
-interface ARCanvasProps {
-  handPositionRef: React.MutableRefObject<THREE.Vector3>;
-  handScaleRef: React.MutableRefObject<THREE.Vector3>;
-  handRotationRef: React.MutableRefObject<THREE.Quaternion>;
-  isVisible: boolean;
+export interface TrackedHand {
+  id: Handedness;
+  positionRef: React.MutableRefObject<THREE.Vector3>;
+  scaleRef: React.MutableRefObject<THREE.Vector3>;
+  rotationRef: React.MutableRefObject<THREE.Quaternion>;
+  // Detection timestamp (performance.now() ms) of the pose currently in the refs
+  timestampRef: React.MutableRefObject<number>;
+  // False while the back of the hand faces the camera
+  palmFacingRef: React.MutableRefObject<boolean>;
+  // Latest landmarks in scene space, unfiltered so the occluder matches the video
+  jointsRef: React.MutableRefObject<HandJoints>;
+  smoothing: SmoothingConfig;
+  visible: boolean;
+  // Hand is currently detected; the occluder follows this even while the model is hidden
+  tracked: boolean;
+  // null renders the built-in CyberpunkRabbit
   modelUrl: string | null;
+  // How to render modelUrl; defaults to plain glTF
+  modelFormat?: ModelFormat;
+  // Embedded clip to loop on the custom model; null autoplays its idle clip
+  animation: string | null;
+  handEvent: HandAnimationEvent | null;
+  onClipsLoaded: (url: string, clips: string[]) => void;
+  onModelError: (url: string, error: Error) => void;
+  // Offset/scale/yaw of the model inside the hand group (anchor is applied by the solver)
+  calibration: PlacementCalibration;
+}
+
+interface ARCanvasProps {
+  hands: TrackedHand[];
+  // Filled with on-demand rendering and a per-frame hook for photo and clip capture
+  captureRef?: React.MutableRefObject<CaptureBridge | null>;
+  // Shows the hand occluder proxies instead of drawing them depth-only
+  debugOccluders?: boolean;
+  // Called once per rendered frame, for render FPS telemetry
+  onRenderFrame?: () => void;
+  lighting?: LightingRig;
+  // Depth-only hand proxies that let real fingers cover the models
+  occlusion?: boolean;
+  // Key light shadow on a catcher plane under each model
+  shadows?: boolean;
+  // Camera lighting estimate that modulates the rig; null or absent = rig as designed
+  lightEstimateRef?: React.MutableRefObject<LightEstimate | null>;
+  postEffects?: PostEffectsPreset;
+  // Called when the current post effects preset can't hold the frame rate
+  onPerformanceDecline?: () => void;
+  // Design of the built-in rabbit (also the fallback for broken models)
+  character?: RabbitSpec;
+  // Base URL of the self-hosted assets; Draco-compressed models load the decoder from its `draco/`
+  assetBase?: string;
 }
 
 interface HandTrackerGroupProps {
   positionRef: React.MutableRefObject<THREE.Vector3>;
   scaleRef: React.MutableRefObject<THREE.Vector3>;
   rotationRef: React.MutableRefObject<THREE.Quaternion>;
+  timestampRef: React.MutableRefObject<number>;
+  palmFacingRef: React.MutableRefObject<boolean>;
+  smoothing: SmoothingConfig;
   visible: boolean;
   children: React.ReactNode;
 }
 
-// Internal component to handle position and scale updates in the Three.js render loop
-const HandTrackerGroup: React.FC<HandTrackerGroupProps> = ({ positionRef, scaleRef, rotationRef, visible, children }) => {
+// Scales every material under `root` to `opacity` of its authored opacity
+const applyOpacity = (root: THREE.Object3D, opacity: number) => {
+  root.traverse((obj) => {
+    if (!(obj instanceof THREE.Mesh)) return;
+    for (const material of Array.isArray(obj.material) ? obj.material : [obj.material]) {
+      material.userData.baseOpacity ??= material.opacity;
+      material.userData.baseTransparent ??= material.transparent;
+      const transparent = opacity < 1 || material.userData.baseTransparent;
+      if (material.transparent !== transparent) {
+        material.transparent = transparent;
+        material.needsUpdate = true;
+      }
+      material.opacity = material.userData.baseOpacity * opacity;
+    }
+  });
+};
+
+// Internal component to handle position and scale updates in the Three.js render loop.
+// The filtered pose drives a behavior state machine (see handBehavior) rather than
+// the group directly, so the model hops on, follows with momentum and falls off.
+const HandTrackerGroup: React.FC<HandTrackerGroupProps> = ({ positionRef, scaleRef, rotationRef, timestampRef, palmFacingRef, smoothing, visible, children }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const filter = useMemo(() => createPoseFilter(smoothing), [smoothing]);
+  const behavior = useMemo(() => createHandBehavior(), []);
+  const target = useMemo(createHandPose, []);
+  const output = useMemo<HandBehaviorOutput>(() => ({ ...createHandPose(), opacity: 0 }), []);
+  const lastTimestampRef = useRef(-1);
+  const lastOpacityRef = useRef(-1);
   
-  useFrame(() => {
-    if (groupRef.current) {
-      // Smoothly interpolate current position to target position from Ref
-      // 0.2 is the lerp factor (smoothness)
-      groupRef.current.position.lerp(positionRef.current, 0.2);
-      
-      // Smoothly interpolate scale based on hand size
-      groupRef.current.scale.lerp(scaleRef.current, 0.1);
+  useFrame((_, delta) => {
+    // Feed each new detection to the filter once, stamped with its detection time
+    const timestamp = timestampRef.current;
+    if (timestamp !== lastTimestampRef.current) {
+      lastTimestampRef.current = timestamp;
+      filter.update({ position: positionRef.current, scale: scaleRef.current, quaternion: rotationRef.current }, timestamp);
+    }
+
+    const group = groupRef.current;
+    if (!group) return;
 
-      // Smoothly interpolate rotation (SLERP)
-      // 0.15 is smoothness factor
-      groupRef.current.quaternion.slerp(rotationRef.current, 0.15);
+    // Evaluate the filtered pose at render time, independent of refresh rate
+    const now = performance.now();
+    filter.sample(now, target);
+    // Clamp the step so a stalled tab doesn't fling the model away
+    const state = behavior.update({ target, present: visible, palmFacing: palmFacingRef.current }, now, Math.min(delta, 0.05), output);
+
+    group.position.copy(output.position);
+    group.quaternion.copy(output.quaternion);
+    group.scale.copy(output.scale);
+    group.visible = state !== 'hidden';
+    // Models mounted mid-fade need the current opacity too, so reapply until fully opaque
+    if (output.opacity < 1 || lastOpacityRef.current !== 1) {
+      applyOpacity(group, output.opacity);
+      lastOpacityRef.current = output.opacity;
     }
   });
 
   return (
-    <group ref={groupRef} visible={visible}>
+    <group ref={groupRef} visible={false}>
       {children}
     </group>
   );
 };
 
-export const ARCanvas: React.FC<ARCanvasProps> = ({ handPositionRef, handScaleRef, handRotationRef, isVisible, modelUrl }) => {
+const FrameProbe: React.FC<{ onFrame: () => void }> = ({ onFrame }) => {
+  useFrame(() => onFrame());
+  return null;
+};
+
+// Exposes an on-demand render for capture. Rendering right before reading the
+// canvas keeps the drawing buffer valid without preserveDrawingBuffer.
+// Goes through the post effects composer when one is mounted, so captures match the screen.
+// Clips instead hook in after the regular render of each frame, so nothing renders twice.
+const CaptureBridgeSetup: React.FC<{
+  captureRef: React.MutableRefObject<CaptureBridge | null>;
+  composerRef: React.MutableRefObject<EffectComposerImpl | null>;
+}> = ({ captureRef, composerRef }) => {
+  const { gl, scene, camera } = useThree();
+
+  React.useEffect(() => {
+    const subscribers = new Set<{ onFrame: (glCanvas: HTMLCanvasElement) => void; onEnd: () => void }>();
+    // Runs in the same task as the render, before the buffer is presented and cleared
+    const removeAfterEffect = addAfterEffect(() => {
+      for (const subscriber of subscribers) subscriber.onFrame(gl.domElement);
+    });
+
+    captureRef.current = {
+      renderSnapshot: () => {
+        if (composerRef.current) composerRef.current.render();
+        else gl.render(scene, camera);
+        return gl.domElement;
+      },
+      subscribeFrames: (onFrame, onEnd) => {
+        const subscriber = { onFrame, onEnd };
+        subscribers.add(subscriber);
+        return () => {
+          subscribers.delete(subscriber);
+        };
+      },
+    };
+    return () => {
+      removeAfterEffect();
+      captureRef.current = null;
+      const ended = [...subscribers];
+      subscribers.clear();
+      ended.forEach((subscriber) => subscriber.onEnd());
+    };
+  }, [gl, scene, camera, captureRef, composerRef]);
+
+  return null;
+};
+
+export const ARCanvas: React.FC<ARCanvasProps> = ({
+  hands,
+  captureRef,
+  debugOccluders = false,
+  onRenderFrame,
+  lighting = DEFAULT_LIGHTING,
+  occlusion = true,
+  shadows = true,
+  lightEstimateRef,
+  postEffects = 'off',
+  onPerformanceDecline,
+  character,
+  assetBase,
+}) => {
+  const composerRef = useRef<EffectComposerImpl | null>(null);
+  // Shadow catchers of the hands, which the key light's shadow camera follows
+  const shadowFocus = useMemo(() => new Set<THREE.Object3D>(), []);
+  // Latest hand found/lost event across hands; ids are global and increasing
+  const burstId = Math.max(0, ...hands.map((hand) => hand.handEvent?.id ?? 0));
+  const decoderPath = dracoDecoderPath(assetBase);
+
   return (
     <Canvas
       className="absolute inset-0 pointer-events-none !bg-transparent"
@@ -74,6 +244,7 @@ export const ARCanvas: React.FC<ARCanvasProps> = ({ handPositionRef, handScaleRe
         pointerEvents: 'none'
       }}
       dpr={[1, 1.5]} // Reduced max DPR for stability
+      shadows
       gl={{ 
         alpha: true,
         antialias: true, 
@@ -88,30 +259,63 @@ export const ARCanvas: React.FC<ARCanvasProps> = ({ handPositionRef, handScaleRe
         scene.background = null;
       }}
     >
-      <PerspectiveCamera makeDefault position={[0, 0, 5]} fov={50} />
+      {/* Shared with the pose solver through viewMapping so landmarks project onto the palm */}
+      <PerspectiveCamera makeDefault position={[0, 0, SCENE_CAMERA.distance]} fov={SCENE_CAMERA.fov} />
+      {captureRef && <CaptureBridgeSetup captureRef={captureRef} composerRef={composerRef} />}
+      {onRenderFrame && <FrameProbe onFrame={onRenderFrame} />}
       
-      <ambientLight intensity={1.5} />
-      {/* Front Light - Adjusted to hit the face which is now facing +Z relative to camera */}
-      <directionalLight position={[0, 5, 10]} intensity={2.5} />
-      {/* Back Light */}
-      <directionalLight position={[0, 5, -5]} intensity={1.0} color="#00ffff" />
-      {/* Side Light */}
-      <pointLight position={[5, -2, 5]} intensity={1} color="#ff00ff" />
+      <SceneLighting rig={lighting} estimateRef={lightEstimateRef} shadows={shadows} shadowFocus={shadowFocus} />
       
-      <HandTrackerGroup 
-        positionRef={handPositionRef} 
-        scaleRef={handScaleRef} 
-        rotationRef={handRotationRef}
-        visible={isVisible}
-      >
-        <Suspense fallback={null}>
-          {modelUrl ? (
-            <UserModel url={modelUrl} />
-          ) : (
-            <CyberpunkRabbit />
-          )}
-        </Suspense>
-      </HandTrackerGroup>
+      {/* Depth-only hand proxies, drawn first so real fingers can cover the models.
+          The debug view shows them even with occlusion off. */}
+      {(occlusion || debugOccluders) && hands.map((hand) => (
+        <HandOccluder key={hand.id} jointsRef={hand.jointsRef} visible={hand.tracked} debug={debugOccluders} />
+      ))}
+
+      {hands.map((hand) => (
+        <HandTrackerGroup 
+          key={hand.id}
+          positionRef={hand.positionRef} 
+          scaleRef={hand.scaleRef} 
+          rotationRef={hand.rotationRef}
+          timestampRef={hand.timestampRef}
+          palmFacingRef={hand.palmFacingRef}
+          smoothing={hand.smoothing}
+          visible={hand.visible}
+        >
+          <group 
+            position={hand.calibration.offset}
+            rotation={[0, THREE.MathUtils.degToRad(hand.calibration.yaw), 0]}
+            scale={hand.calibration.scale}
+          >
+            {shadows && <ShadowCatcher focus={shadowFocus} />}
+            {/* Keyed by URL so switching models retries after a failure */}
+            <ModelErrorBoundary 
+              key={hand.modelUrl ?? 'builtin'}
+              fallback={<CyberpunkRabbit spec={character} />}
+              onError={(error) => hand.modelUrl && hand.onModelError(hand.modelUrl, error)}
+            >
+              <Suspense fallback={null}>
+                {hand.modelUrl && hand.modelFormat === 'vrm' ? (
+                  <VrmModel url={hand.modelUrl} handEvent={hand.handEvent} dracoDecoderPath={decoderPath} />
+                ) : hand.modelUrl ? (
+                  <UserModel 
+                    url={hand.modelUrl} 
+                    animation={hand.animation}
+                    handEvent={hand.handEvent}
+                    onClipsLoaded={(clips) => hand.onClipsLoaded(hand.modelUrl!, clips)}
+                    dracoDecoderPath={decoderPath}
+                  />
+                ) : (
+                  <CyberpunkRabbit spec={character} />
+                )}
+              </Suspense>
+            </ModelErrorBoundary>
+          </group>
+        </HandTrackerGroup>
+      ))}
+
+      <PostEffects preset={postEffects} burstId={burstId} onPerformanceDecline={onPerformanceDecline} composerRef={composerRef} />
     </Canvas>
   );
 };
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Play } from 'lucide-react';
+
+interface AnimationPickerProps {
+  clips: string[];
+  // null = automatic idle clip
+  active: string | null;
+  onSelect: (clip: string | null) => void;
+}
+
+export const AnimationPicker: React.FC<AnimationPickerProps> = ({ clips, active, onSelect }) => {
+  const pillClass = (selected: boolean) =>
+    `px-3 py-1 rounded-full text-xs whitespace-nowrap border transition-all active:scale-95 ${
+      selected ? 'bg-yellow-400 text-black border-yellow-300' : 'bg-white/10 text-white border-white/10 hover:bg-white/20'
+    }`;
+
+  return (
+    <div className="flex items-center gap-2 bg-black/50 backdrop-blur-md p-2 rounded-full border border-white/10 max-w-full overflow-x-auto pointer-events-auto">
+      <Play className="w-4 h-4 text-white/60 shrink-0 ml-1" />
+      <button onClick={() => onSelect(null)} className={pillClass(active === null)}>
+        Auto
+      </button>
+      {clips.map((clip) => (
+        <button key={clip} onClick={() => onSelect(clip)} className={pillClass(active === clip)}>
+          {clip || 'Unnamed'}
+        </button>
+      ))}
+    </div>
+  );
+};
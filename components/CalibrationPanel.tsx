@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { RotateCcw, Save, X } from 'lucide-react';
+import { CALIBRATION_LIMITS, PlacementCalibration } from '../utils/calibration';
+import { OrientationMode } from '../utils/poseSolver';
+import { SMOOTHING_DEFAULTS, SMOOTHING_LIMITS, SmoothingConfig, SmoothingType } from '../utils/poseFilter';
+
+interface CalibrationPanelProps {
+  modelName: string;
+  calibration: PlacementCalibration;
+  smoothing: SmoothingConfig;
+  // Live preview: every slider move updates the draft
+  onChange: (calibration: PlacementCalibration) => void;
+  onSmoothingChange: (smoothing: SmoothingConfig) => void;
+  onSave: () => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+export const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format = (v) => v.toFixed(2), onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="flex justify-between text-[10px] uppercase tracking-widest text-white/60">
+      <span>{label}</span>
+      <span className="font-mono text-white">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-yellow-400"
+    />
+  </label>
+);
+
+type SmoothingChannel = keyof SmoothingConfig['params'];
+
+const SMOOTHING_TYPES: { type: SmoothingType; label: string }[] = [
+  { type: 'one_euro', label: 'One Euro' },
+  { type: 'kalman', label: 'Kalman' },
+];
+
+const SMOOTHING_CHANNELS: { channel: SmoothingChannel; label: string }[] = [
+  { channel: 'position', label: 'Position' },
+  { channel: 'scale', label: 'Scale' },
+  { channel: 'rotation', label: 'Rotation' },
+];
+
+const toggleClass = (active: boolean) =>
+  `flex-1 px-3 py-1 rounded-full border text-xs ${
+    active ? 'bg-yellow-400/90 border-yellow-400 text-black font-semibold' : 'bg-white/10 hover:bg-white/20 border-white/10 text-white'
+  }`;
+
+// Filter type, per-channel parameters and prediction of the hand pose filter (utils/poseFilter)
+const SmoothingControls: React.FC<{ smoothing: SmoothingConfig; onChange: (smoothing: SmoothingConfig) => void }> = ({ smoothing, onChange }) => {
+  const [channel, setChannel] = useState<SmoothingChannel>('position');
+  const setParam = (name: string, value: number) =>
+    onChange({
+      ...smoothing,
+      params: { ...smoothing.params, [channel]: { ...smoothing.params[channel], [name]: value } },
+    } as SmoothingConfig);
+
+  return (
+    <>
+      <div className="flex flex-col gap-1">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">Smoothing</span>
+        <div className="flex gap-1">
+          {SMOOTHING_TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              // Parameters don't carry over between filter types
+              onClick={() => type !== smoothing.type && onChange({ ...SMOOTHING_DEFAULTS[type], predictionMs: smoothing.predictionMs })}
+              className={toggleClass(smoothing.type === type)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {SMOOTHING_CHANNELS.map(({ channel: c, label }) => (
+            <button key={c} onClick={() => setChannel(c)} className={toggleClass(channel === c)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {smoothing.type === 'one_euro' ? (
+        <>
+          <Slider
+            label="Min cutoff (Hz)"
+            value={smoothing.params[channel].minCutoff}
+            min={SMOOTHING_LIMITS.minCutoff[0]}
+            max={SMOOTHING_LIMITS.minCutoff[1]}
+            step={0.05}
+            onChange={(v) => setParam('minCutoff', v)}
+          />
+          <Slider
+            label="Speed response (beta)"
+            value={smoothing.params[channel].beta}
+            min={SMOOTHING_LIMITS.beta[0]}
+            max={SMOOTHING_LIMITS.beta[1]}
+            step={0.05}
+            onChange={(v) => setParam('beta', v)}
+          />
+          <Slider
+            label="Derivative cutoff (Hz)"
+            value={smoothing.params[channel].dCutoff}
+            min={SMOOTHING_LIMITS.dCutoff[0]}
+            max={SMOOTHING_LIMITS.dCutoff[1]}
+            step={0.05}
+            onChange={(v) => setParam('dCutoff', v)}
+          />
+        </>
+      ) : (
+        <>
+          <Slider
+            label="Process noise"
+            value={smoothing.params[channel].processNoise}
+            min={SMOOTHING_LIMITS.processNoise[0]}
+            max={SMOOTHING_LIMITS.processNoise[1]}
+            step={0.5}
+            format={(v) => v.toFixed(1)}
+            onChange={(v) => setParam('processNoise', v)}
+          />
+          <Slider
+            label="Measurement noise"
+            value={smoothing.params[channel].measurementNoise}
+            min={SMOOTHING_LIMITS.measurementNoise[0]}
+            max={SMOOTHING_LIMITS.measurementNoise[1]}
+            step={0.0001}
+            format={(v) => v.toFixed(4)}
+            onChange={(v) => setParam('measurementNoise', v)}
+          />
+        </>
+      )}
+      <Slider
+        label="Prediction"
+        value={smoothing.predictionMs}
+        min={SMOOTHING_LIMITS.predictionMs[0]}
+        max={SMOOTHING_LIMITS.predictionMs[1]}
+        step={1}
+        format={(v) => `${Math.round(v)} ms`}
+        onChange={(predictionMs) => onChange({ ...smoothing, predictionMs })}
+      />
+    </>
+  );
+};
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  modelName,
+  calibration,
+  smoothing,
+  onChange,
+  onSmoothingChange,
+  onSave,
+  onReset,
+  onCancel,
+}) => {
+  const set = (changes: Partial<PlacementCalibration>) => onChange({ ...calibration, ...changes });
+  const setOffset = (axis: 0 | 1 | 2, value: number) => {
+    const offset = [...calibration.offset] as PlacementCalibration['offset'];
+    offset[axis] = value;
+    set({ offset });
+  };
+  const [offsetMin, offsetMax] = CALIBRATION_LIMITS.offset;
+  const orientationModes: { mode: OrientationMode; label: string }[] = [
+    { mode: 'billboard', label: 'Upright' },
+    { mode: 'palm', label: 'Palm' },
+  ];
+
+  return (
+    <div className="bg-black/80 backdrop-blur-xl rounded-3xl border border-white/10 shadow-xl p-4 w-72 max-h-[70vh] overflow-y-auto flex flex-col gap-3 pointer-events-auto">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="text-white font-bold text-sm tracking-wider">CALIBRATE</h2>
+          <p className="text-white/40 text-[10px] uppercase tracking-widest truncate">{modelName}</p>
+        </div>
+        <button onClick={onCancel} className="text-white/70 hover:text-white" aria-label="Cancel Calibration">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">Orientation</span>
+        <div className="flex gap-1">
+          {orientationModes.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => set({ orientationMode: mode })}
+              className={`flex-1 px-3 py-1 rounded-full border text-xs ${
+                calibration.orientationMode === mode
+                  ? 'bg-yellow-400/90 border-yellow-400 text-black font-semibold'
+                  : 'bg-white/10 hover:bg-white/20 border-white/10 text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {calibration.orientationMode === 'palm' && (
+        <Slider
+          label="Attach (upright ↔ palm)"
+          value={calibration.palmBlend}
+          min={CALIBRATION_LIMITS.palmBlend[0]}
+          max={CALIBRATION_LIMITS.palmBlend[1]}
+          step={0.01}
+          format={(v) => `${Math.round(v * 100)}%`}
+          onChange={(palmBlend) => set({ palmBlend })}
+        />
+      )}
+      <Slider
+        label="Anchor (wrist ↔ knuckle)"
+        value={calibration.anchorRatio}
+        min={CALIBRATION_LIMITS.anchorRatio[0]}
+        max={CALIBRATION_LIMITS.anchorRatio[1]}
+        step={0.01}
+        format={(v) => `${Math.round(v * 100)}%`}
+        onChange={(anchorRatio) => set({ anchorRatio })}
+      />
+      <Slider
+        label="Scale"
+        value={calibration.scale}
+        min={CALIBRATION_LIMITS.scale[0]}
+        max={CALIBRATION_LIMITS.scale[1]}
+        step={0.01}
+        format={(v) => `${v.toFixed(2)}×`}
+        onChange={(scale) => set({ scale })}
+      />
+      <Slider
+        label="Yaw"
+        value={calibration.yaw}
+        min={CALIBRATION_LIMITS.yaw[0]}
+        max={CALIBRATION_LIMITS.yaw[1]}
+        step={1}
+        format={(v) => `${Math.round(v)}°`}
+        onChange={(yaw) => set({ yaw })}
+      />
+      <Slider label="Offset X" value={calibration.offset[0]} min={offsetMin} max={offsetMax} step={0.01} onChange={(v) => setOffset(0, v)} />
+      <Slider label="Offset Y" value={calibration.offset[1]} min={offsetMin} max={offsetMax} step={0.01} onChange={(v) => setOffset(1, v)} />
+      <Slider label="Offset Z" value={calibration.offset[2]} min={offsetMin} max={offsetMax} step={0.01} onChange={(v) => setOffset(2, v)} />
+
+      <SmoothingControls smoothing={smoothing} onChange={onSmoothingChange} />
+
+      <div className="flex justify-between gap-2 mt-1">
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1 px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 text-white text-xs"
+        >
+          <RotateCcw size={12} /> Defaults
+        </button>
+        <button
+          onClick={onSave}
+          className="flex items-center gap-1 px-3 py-1 rounded-full bg-yellow-400/90 text-black text-xs font-semibold"
+        >
+          <Save size={12} /> Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ActiveCamera, CameraDevice, CameraPreferences, FRAME_RATES, RESOLUTIONS } from '../services/cameraDevices';
+
+interface CameraPanelProps {
+  cameras: CameraDevice[];
+  preferences: CameraPreferences;
+  active: ActiveCamera | null;
+  // Applying restarts the stream with the new preferences
+  onChange: (preferences: CameraPreferences) => void;
+  onClose: () => void;
+}
+
+interface SelectProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}
+
+const Select: React.FC<SelectProps> = ({ label, value, options, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[10px] uppercase tracking-widest text-white/60">{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-white/10 border border-white/10 rounded-xl px-2 py-1 text-xs text-white outline-none"
+    >
+      {options.map((option) => (
+        <option key={option.value} value={option.value} className="bg-zinc-900">
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+// Device ids are never empty strings, so '' stands for "pick by facing mode"
+const AUTO_DEVICE = '';
+
+export const CameraPanel: React.FC<CameraPanelProps> = ({ cameras, preferences, active, onChange, onClose }) => {
+  const set = (changes: Partial<CameraPreferences>) => onChange({ ...preferences, ...changes });
+
+  const deviceOptions = [
+    { value: AUTO_DEVICE, label: preferences.facingMode === 'user' ? 'Auto (front)' : 'Auto (rear)' },
+    ...cameras.map((camera) => ({ value: camera.deviceId, label: camera.label })),
+  ];
+
+  return (
+    <div className="bg-black/80 backdrop-blur-xl rounded-3xl border border-white/10 shadow-xl p-4 w-72 flex flex-col gap-3 pointer-events-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-white font-bold text-sm tracking-wider">CAMERA</h2>
+        <button onClick={onClose} className="text-white/70 hover:text-white" aria-label="Close Camera Settings">
+          <X size={16} />
+        </button>
+      </div>
+
+      <Select
+        label="Device"
+        value={preferences.deviceId ?? AUTO_DEVICE}
+        options={deviceOptions}
+        onChange={(deviceId) => set({ deviceId: deviceId || null })}
+      />
+      <Select
+        label="Resolution"
+        value={preferences.resolution}
+        options={RESOLUTIONS.map((r) => ({ value: r.id, label: r.label }))}
+        onChange={(resolution) => set({ resolution })}
+      />
+      <Select
+        label="Frame rate"
+        value={String(preferences.frameRate)}
+        options={FRAME_RATES.map((fps) => ({ value: String(fps), label: `${fps} fps` }))}
+        onChange={(fps) => set({ frameRate: Number(fps) })}
+      />
+
+      {active && (
+        <div className="text-[10px] font-mono text-white/50 leading-relaxed">
+          <div className="truncate" title={active.label}>{active.label || 'Unnamed camera'}</div>
+          <div>
+            {active.width} × {active.height}
+            {active.frameRate !== null && ` @ ${Math.round(active.frameRate)} fps`}
+            {' · '}
+            {active.facingMode === 'user' ? 'front (mirrored)' : 'rear'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
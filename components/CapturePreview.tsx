@@ -0,0 +1,69 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Share2, X } from 'lucide-react';
+import { downloadBlob } from '../services/capture';
+
+export interface CaptureResult {
+  kind: 'photo' | 'video';
+  blob: Blob;
+  fileName: string;
+}
+
+interface CapturePreviewProps {
+  capture: CaptureResult;
+  onClose: () => void;
+}
+
+export const CapturePreview: React.FC<CapturePreviewProps> = ({ capture, onClose }) => {
+  // Created and revoked by the same effect, so StrictMode's re-run gets a fresh URL
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(capture.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [capture.blob]);
+
+  const file = useMemo(() => new File([capture.blob], capture.fileName, { type: capture.blob.type }), [capture]);
+  const canShare = typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] });
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({ files: [file], title: 'Kana AR' });
+    } catch (err) {
+      // AbortError just means the user closed the share sheet
+      if (!(err instanceof DOMException && err.name === 'AbortError')) console.warn('Share failed:', err);
+    }
+  };
+
+  const buttonClass =
+    'flex items-center gap-2 px-4 py-2 rounded-full border border-white/10 text-sm transition-all active:scale-95';
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 z-30 p-4 pointer-events-auto">
+      <div className="mx-auto max-w-md bg-black/80 backdrop-blur-xl rounded-3xl border border-white/10 shadow-xl p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-white font-bold text-sm tracking-wider">{capture.kind === 'photo' ? 'PHOTO' : 'CLIP'}</h2>
+          <button onClick={onClose} className="text-white/70 hover:text-white" aria-label="Close Preview">
+            <X size={16} />
+          </button>
+        </div>
+
+        {capture.kind === 'photo' ? (
+          <img src={url ?? undefined} alt="Captured AR view" className="w-full max-h-[50vh] object-contain rounded-2xl bg-black" />
+        ) : (
+          <video src={url ?? undefined} controls autoPlay loop playsInline className="w-full max-h-[50vh] rounded-2xl bg-black" />
+        )}
+
+        <div className="flex justify-center gap-2 mt-4">
+          <button onClick={() => downloadBlob(capture.blob, capture.fileName)} className={`${buttonClass} bg-yellow-400/90 text-black`}>
+            <Download size={16} /> Download
+          </button>
+          {canShare && (
+            <button onClick={handleShare} className={`${buttonClass} bg-white/10 hover:bg-white/20 text-white`}>
+              <Share2 size={16} /> Share
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HandJoints, HAND_LANDMARK_COUNT } from '../utils/poseSolver';
+
+declare global {
+  namespace JSX {
+    interface IntrinsicElements {
+      primitive: any;
+    }
+  }
+}
+
+interface HandOccluderProps {
+  jointsRef: React.MutableRefObject<HandJoints>;
+  visible: boolean;
+  // Draws the proxy in a translucent colour instead of depth only
+  debug: boolean;
+}
+
+// MediaPipe hand connections, plus two extra palm struts to close the gaps between them
+const BONES: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [9, 10], [10, 11], [11, 12],
+  [13, 14], [14, 15], [15, 16],
+  [0, 17], [17, 18], [18, 19], [19, 20],
+  [5, 9], [9, 13], [13, 17],
+  [0, 9], [0, 13],
+];
+
+// Wrist and knuckles; bones between two of these form the palm
+const PALM_JOINTS = new Set([0, 1, 5, 9, 13, 17]);
+
+// Approximate radii in metres
+const FINGER_RADIUS = 0.009;
+const PALM_RADIUS = 0.016;
+
+const jointRadius = (index: number) => (PALM_JOINTS.has(index) ? PALM_RADIUS : FINGER_RADIUS);
+const boneRadius = ([a, b]: [number, number]) => (PALM_JOINTS.has(a) && PALM_JOINTS.has(b) ? PALM_RADIUS : FINGER_RADIUS);
+
+const _up = new THREE.Vector3(0, 1, 0);
+const _dir = new THREE.Vector3();
+const _mid = new THREE.Vector3();
+const _quat = new THREE.Quaternion();
+const _scale = new THREE.Vector3();
+const _matrix = new THREE.Matrix4();
+
+/**
+ * Capsule-per-bone stand-in for the tracked hand. Each capsule is a cylinder
+ * along the bone plus spheres on its joints, drawn as two instanced meshes.
+ *
+ * The proxy writes depth but no colour and renders before the models, so the
+ * video shows through it while the parts of a model behind the real fingers are
+ * hidden.
+ */
+export const HandOccluder: React.FC<HandOccluderProps> = ({ jointsRef, visible, debug }) => {
+  const material = useMemo(
+    () =>
+      debug
+        ? new THREE.MeshBasicMaterial({ color: '#00ffff', transparent: true, opacity: 0.35 })
+        : new THREE.MeshBasicMaterial({ colorWrite: false }),
+    [debug]
+  );
+
+  const { bones, joints } = useMemo(() => {
+    const bones = new THREE.InstancedMesh(new THREE.CylinderGeometry(1, 1, 1, 10, 1, true), material, BONES.length);
+    const joints = new THREE.InstancedMesh(new THREE.SphereGeometry(1, 10, 8), material, HAND_LANDMARK_COUNT);
+    for (const mesh of [bones, joints]) {
+      mesh.renderOrder = -1;
+      // Instances move every frame, so the geometry's bounds say nothing useful
+      mesh.frustumCulled = false;
+    }
+    return { bones, joints };
+  }, [material]);
+
+  useEffect(() => () => {
+    bones.geometry.dispose();
+    joints.geometry.dispose();
+    material.dispose();
+  }, [bones, joints, material]);
+
+  useFrame(() => {
+    bones.visible = visible;
+    joints.visible = visible;
+    if (!visible) return;
+
+    const { points, unitScale } = jointsRef.current;
+
+    BONES.forEach((bone, i) => {
+      const a = points[bone[0]];
+      const b = points[bone[1]];
+      _dir.subVectors(b, a);
+      const length = _dir.length();
+      _mid.addVectors(a, b).multiplyScalar(0.5);
+      _quat.setFromUnitVectors(_up, length > 0 ? _dir.divideScalar(length) : _up);
+      const r = boneRadius(bone) * unitScale;
+      bones.setMatrixAt(i, _matrix.compose(_mid, _quat, _scale.set(r, length, r)));
+    });
+
+    _quat.identity();
+    points.forEach((point, i) => {
+      const r = jointRadius(i) * unitScale;
+      joints.setMatrixAt(i, _matrix.compose(point, _quat, _scale.set(r, r, r)));
+    });
+
+    bones.instanceMatrix.needsUpdate = true;
+    joints.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <>
+      <primitive object={bones} />
+      <primitive object={joints} />
+    </>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface ModelErrorBoundaryProps {
+  // Rendered in place of the failed model (e.g. the built-in rabbit)
+  fallback: React.ReactNode;
+  onError: (error: Error) => void;
+  children: React.ReactNode;
+}
+
+interface ModelErrorBoundaryState {
+  hasError: boolean;
+}
+
+// Catches load/parse errors thrown by useGLTF inside Suspense so one broken model
+// can't take down the whole canvas. Remount it (via `key`) to retry with a new model.
+export class ModelErrorBoundary extends React.Component<ModelErrorBoundaryProps, ModelErrorBoundaryState> {
+  state: ModelErrorBoundaryState = { hasError: false };
+
+  static getDerivedStateFromError(): ModelErrorBoundaryState {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error('Model failed to render:', error);
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.hasError ? this.props.fallback : this.props.children;
+  }
+}
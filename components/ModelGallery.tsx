@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Box, Check, Pencil, Trash2, Upload, X } from 'lucide-react';
+import { LibraryModel } from '../hooks/useModelLibrary';
+
+interface ModelGalleryProps {
+  models: LibraryModel[];
+  // Id of the model selected for the current target hand(s); null = built-in rabbit
+  selectedId: string | null;
+  targetLabel: string;
+  onSelect: (id: string | null) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onUpload: () => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatDate = (epochMs: number) => new Date(epochMs).toLocaleDateString();
+
+export const ModelGallery: React.FC<ModelGalleryProps> = ({
+  models,
+  selectedId,
+  targetLabel,
+  onSelect,
+  onRename,
+  onDelete,
+  onUpload,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (model: LibraryModel) => {
+    setEditingId(model.id);
+    setDraftName(model.name);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  const tileClass = (selected: boolean) =>
+    `relative flex flex-col items-center gap-1 p-2 rounded-2xl border transition-all ${
+      selected ? 'border-yellow-400 bg-yellow-400/10' : 'border-white/10 bg-white/5 hover:bg-white/10'
+    }`;
+
+  return (
+    <div className="bg-black/80 backdrop-blur-xl rounded-3xl border border-white/10 shadow-xl p-4 w-72 max-h-[70vh] flex flex-col pointer-events-auto">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-white font-bold text-sm tracking-wider">MODELS</h2>
+          <p className="text-white/40 text-[10px] uppercase tracking-widest">Hand: {targetLabel}</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onUpload} className="text-white/70 hover:text-white" aria-label="Upload Model">
+            <Upload size={16} />
+          </button>
+          <button onClick={onClose} className="text-white/70 hover:text-white" aria-label="Close Gallery">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 overflow-y-auto">
+        {/* Built-in Rabbit */}
+        <button onClick={() => onSelect(null)} className={tileClass(selectedId === null)}>
+          <div className="w-20 h-20 rounded-xl bg-yellow-400/20 flex items-center justify-center">
+            <span className="text-3xl">🐰</span>
+          </div>
+          <span className="text-xs text-white truncate w-full text-center">Cyberpunk Rabbit</span>
+          <span className="text-[10px] text-white/40">Built-in</span>
+        </button>
+
+        {models.map((model) => (
+          <div key={model.id} className={tileClass(selectedId === model.id)}>
+            <button onClick={() => onSelect(model.id)} className="w-20 h-20 rounded-xl bg-white/5 flex items-center justify-center overflow-hidden">
+              {model.thumbnailUrl ? (
+                <img src={model.thumbnailUrl} alt={model.name} className="w-full h-full object-contain" />
+              ) : (
+                <Box className="w-8 h-8 text-white/40" />
+              )}
+            </button>
+
+            {editingId === model.id ? (
+              <div className="flex items-center gap-1 w-full">
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="min-w-0 flex-1 bg-white/10 rounded px-1 text-xs text-white outline-none"
+                />
+                <button onClick={commitRename} className="text-green-400" aria-label="Save Name">
+                  <Check size={12} />
+                </button>
+              </div>
+            ) : (
+              <span className="text-xs text-white truncate w-full text-center" title={model.name}>
+                {model.name}
+              </span>
+            )}
+
+            <span className="text-[10px] text-white/40">
+              {model.format === 'vrm' && 'VRM · '}
+              {formatSize(model.size)} · {formatDate(model.uploadedAt)}
+            </span>
+            {!model.persisted && <span className="text-[10px] text-orange-300">Not saved</span>}
+
+            <div className="absolute top-1 right-1 flex gap-1">
+              <button onClick={() => startRename(model)} className="text-white/50 hover:text-white" aria-label="Rename Model">
+                <Pencil size={11} />
+              </button>
+              <button onClick={() => onDelete(model.id)} className="text-white/50 hover:text-red-400" aria-label="Delete Model">
+                <Trash2 size={11} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PerformanceMonitor } from '@react-three/drei';
+import { Bloom, ChromaticAberration, EffectComposer, Glitch, Scanline, ToneMapping } from '@react-three/postprocessing';
+import { EffectComposer as EffectComposerImpl, GlitchMode, ToneMappingMode } from 'postprocessing';
+import * as THREE from 'three';
+import { GLITCH_BURST_MS, POST_EFFECT_PRESETS, PostEffectsPreset } from '../services/postEffects';
+
+interface PostEffectsProps {
+  preset: PostEffectsPreset;
+  // Id of the latest hand found/lost event; a new id starts a glitch burst
+  burstId: number;
+  // Called when the frame rate stays below the display's for a few seconds
+  onPerformanceDecline?: () => void;
+  composerRef?: React.Ref<EffectComposerImpl>;
+}
+
+// Glitch timings while a burst is active: [min, max] seconds
+const GLITCH_DURATION: [number, number] = [0.05, 0.15];
+const GLITCH_STRENGTH: [number, number] = [0.15, 0.4];
+
+/**
+ * The effects pass over the 3D layer. Buffers keep their alpha, so the video
+ * still shows through; bloom and fringes spill into transparent pixels, which
+ * the premultiplied canvas adds onto the video as glow.
+ *
+ * Bloom is by luminance threshold, not per object: it picks up whatever renders
+ * brighter than the threshold, which in practice is the rabbit's eye and glow
+ * parts (emissive with toneMapped={false}) and the emissive maps of uploaded
+ * models. Lower thresholds (the CRT preset) also catch bright lit surfaces.
+ *
+ * Renders nothing for the 'off' preset, leaving the plain render loop.
+ */
+export const PostEffects: React.FC<PostEffectsProps> = ({ preset, burstId, onPerformanceDecline, composerRef }) => {
+  const settings = POST_EFFECT_PRESETS[preset].settings;
+  const [glitching, setGlitching] = useState(false);
+  const chromaticOffset = useMemo(
+    () => new THREE.Vector2(settings?.chromaticAberration ?? 0, settings?.chromaticAberration ?? 0),
+    [settings]
+  );
+
+  useEffect(() => {
+    if (!burstId || !settings?.glitchBursts) return;
+    setGlitching(true);
+    const timer = setTimeout(() => setGlitching(false), GLITCH_BURST_MS);
+    return () => clearTimeout(timer);
+  }, [burstId, settings]);
+
+  if (!settings) return null;
+
+  return (
+    <>
+      {/* Remounted with the preset, so each one is measured from scratch */}
+      {onPerformanceDecline && <PerformanceMonitor key={preset} onDecline={onPerformanceDecline} />}
+      {/* Keyed so switching presets rebuilds the passes and buffers */}
+      <EffectComposer key={preset} ref={composerRef} multisampling={settings.multisampling}>
+        {settings.bloom && (
+          <Bloom
+            mipmapBlur
+            intensity={settings.bloom.intensity}
+            luminanceThreshold={settings.bloom.threshold}
+            luminanceSmoothing={0.1}
+            radius={settings.bloom.radius}
+          />
+        )}
+        {settings.chromaticAberration && (
+          <ChromaticAberration offset={chromaticOffset} radialModulation={false} modulationOffset={0} />
+        )}
+        {settings.scanlines && <Scanline density={settings.scanlines.density} opacity={settings.scanlines.opacity} />}
+        {settings.glitchBursts && (
+          <Glitch active={glitching} mode={GlitchMode.CONSTANT_WILD} duration={GLITCH_DURATION} strength={GLITCH_STRENGTH} />
+        )}
+        {/* The composer renders to HDR buffers, which three doesn't tone map; match the default canvas look */}
+        <ToneMapping mode={ToneMappingMode.ACES_FILMIC} />
+      </EffectComposer>
+    </>
+  );
+};
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { Box, FileDown, FileUp, ImagePlus, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import { Slider } from './CalibrationPanel';
+import { BUILTIN_RABBIT_PRESETS, RabbitPreset } from '../services/rabbitDesigns';
+import { RABBIT_ACCESSORIES, RABBIT_EYE_STYLES, RABBIT_LIMITS, RabbitAccessory, RabbitEyeStyle, RabbitSpec } from '../utils/rabbitSpec';
+
+interface RabbitEditorProps {
+  spec: RabbitSpec;
+  // User presets; the built-in ones are always listed
+  presets: RabbitPreset[];
+  // False while every hand shows an uploaded model, so edits aren't visible
+  isShown: boolean;
+  // Result of the last action, e.g. "Preset saved"
+  status: string | null;
+  // Live preview: every edit updates the rabbit in the scene
+  onChange: (spec: RabbitSpec) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  onPickLabelImage: () => void;
+  onExportJson: () => void;
+  onExportGlb: () => void;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+const COLOR_FIELDS: { name: keyof RabbitSpec['colors']; label: string }[] = [
+  { name: 'body', label: 'Body' },
+  { name: 'head', label: 'Head' },
+  { name: 'ears', label: 'Ears' },
+  { name: 'eye', label: 'Eye' },
+  { name: 'label', label: 'Label' },
+  { name: 'labelText', label: 'Text' },
+];
+
+const EYE_LABELS: Record<RabbitEyeStyle, string> = { cyber: 'Cyber', twin: 'Twin', visor: 'Visor' };
+const ACCESSORY_LABELS: Record<RabbitAccessory, string> = { antenna: 'Antenna', headphones: 'Headphones', backpack: 'Backpack' };
+
+const actionClass = 'flex items-center justify-center gap-1 px-3 py-1 rounded-full border text-xs';
+const secondaryClass = `${actionClass} bg-white/10 hover:bg-white/20 border-white/10 text-white`;
+const sectionLabel = 'text-[10px] uppercase tracking-widest text-white/60';
+
+export const RabbitEditor: React.FC<RabbitEditorProps> = ({
+  spec,
+  presets,
+  isShown,
+  status,
+  onChange,
+  onSavePreset,
+  onDeletePreset,
+  onPickLabelImage,
+  onExportJson,
+  onExportGlb,
+  onImport,
+  onClose,
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const setColor = (name: keyof RabbitSpec['colors'], value: string) => onChange({ ...spec, colors: { ...spec.colors, [name]: value } });
+  const setProportion = (name: keyof RabbitSpec['proportions'], value: number) =>
+    onChange({ ...spec, proportions: { ...spec.proportions, [name]: value } });
+  const toggleAccessory = (accessory: RabbitAccessory, enabled: boolean) =>
+    onChange({
+      ...spec,
+      accessories: RABBIT_ACCESSORIES.filter((a) => (a === accessory ? enabled : spec.accessories.includes(a))),
+    });
+
+  return (
+    <div className="bg-black/80 backdrop-blur-xl rounded-3xl border border-white/10 shadow-xl p-4 w-72 max-h-[70vh] overflow-y-auto flex flex-col gap-3 pointer-events-auto">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="text-white font-bold text-sm tracking-wider">CHARACTER</h2>
+          <p className="text-white/40 text-[10px] uppercase tracking-widest truncate">Cyberpunk Rabbit</p>
+        </div>
+        <button onClick={onClose} className="text-white/70 hover:text-white" aria-label="Close Character Editor">
+          <X size={16} />
+        </button>
+      </div>
+      {!isShown && <p className="text-[10px] text-white/50 -mt-2">Pick the rabbit in the gallery to preview edits.</p>}
+
+      <div className="flex flex-col gap-1">
+        <span className={sectionLabel}>Presets</span>
+        <div className="flex flex-wrap gap-1">
+          {BUILTIN_RABBIT_PRESETS.map((preset) => (
+            <button key={preset.name} onClick={() => onChange(preset.spec)} className={secondaryClass}>
+              {preset.name}
+            </button>
+          ))}
+          {presets.map((preset) => (
+            <span key={preset.name} className="flex items-center rounded-full border border-yellow-400/40 bg-yellow-400/10 text-xs text-white">
+              <button onClick={() => onChange(preset.spec)} className="pl-3 pr-1 py-1">
+                {preset.name}
+              </button>
+              <button
+                onClick={() => onDeletePreset(preset.name)}
+                className="pr-2 py-1 text-white/50 hover:text-white"
+                aria-label={`Delete ${preset.name}`}
+              >
+                <Trash2 size={10} />
+              </button>
+            </span>
+          ))}
+        </div>
+        <form
+          className="flex gap-1 mt-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!presetName.trim()) return;
+            onSavePreset(presetName.trim());
+            setPresetName('');
+          }}
+        >
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            maxLength={24}
+            className="flex-1 min-w-0 bg-white/10 border border-white/10 rounded-xl px-2 py-1 text-xs text-white outline-none"
+          />
+          <button type="submit" disabled={!presetName.trim()} className={`${actionClass} bg-yellow-400/90 border-yellow-400 text-black font-semibold disabled:opacity-40`}>
+            <Save size={12} /> Save
+          </button>
+        </form>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className={sectionLabel}>Colors</span>
+        <div className="grid grid-cols-3 gap-2">
+          {COLOR_FIELDS.map(({ name, label }) => (
+            <label key={name} className="flex flex-col items-center gap-1 text-[10px] text-white/60">
+              <input
+                type="color"
+                value={spec.colors[name]}
+                onChange={(e) => setColor(name, e.target.value)}
+                className="w-full h-6 rounded bg-transparent border border-white/10 cursor-pointer"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <Slider
+        label="Head"
+        value={spec.proportions.head}
+        min={RABBIT_LIMITS.head[0]}
+        max={RABBIT_LIMITS.head[1]}
+        step={0.01}
+        onChange={(v) => setProportion('head', v)}
+      />
+      <Slider
+        label="Body width"
+        value={spec.proportions.bodyWidth}
+        min={RABBIT_LIMITS.bodyWidth[0]}
+        max={RABBIT_LIMITS.bodyWidth[1]}
+        step={0.01}
+        onChange={(v) => setProportion('bodyWidth', v)}
+      />
+      <Slider
+        label="Body height"
+        value={spec.proportions.bodyHeight}
+        min={RABBIT_LIMITS.bodyHeight[0]}
+        max={RABBIT_LIMITS.bodyHeight[1]}
+        step={0.01}
+        onChange={(v) => setProportion('bodyHeight', v)}
+      />
+      <Slider
+        label="Ear length"
+        value={spec.proportions.earLength}
+        min={RABBIT_LIMITS.earLength[0]}
+        max={RABBIT_LIMITS.earLength[1]}
+        step={0.01}
+        onChange={(v) => setProportion('earLength', v)}
+      />
+      <Slider
+        label="Ear tilt"
+        value={spec.proportions.earTilt}
+        min={RABBIT_LIMITS.earTilt[0]}
+        max={RABBIT_LIMITS.earTilt[1]}
+        step={0.5}
+        format={(v) => `${Math.round(v)}°`}
+        onChange={(v) => setProportion('earTilt', v)}
+      />
+
+      <div className="flex flex-col gap-1">
+        <span className={sectionLabel}>Eyes</span>
+        <div className="flex gap-1">
+          {RABBIT_EYE_STYLES.map((style) => (
+            <button
+              key={style}
+              onClick={() => onChange({ ...spec, eye: { ...spec.eye, style } })}
+              className={`flex-1 px-3 py-1 rounded-full border text-xs ${
+                spec.eye.style === style
+                  ? 'bg-yellow-400/90 border-yellow-400 text-black font-semibold'
+                  : 'bg-white/10 hover:bg-white/20 border-white/10 text-white'
+              }`}
+            >
+              {EYE_LABELS[style]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <Slider
+        label="Eye glow"
+        value={spec.eye.glow}
+        min={RABBIT_LIMITS.glow[0]}
+        max={RABBIT_LIMITS.glow[1]}
+        step={0.1}
+        format={(v) => v.toFixed(1)}
+        onChange={(glow) => onChange({ ...spec, eye: { ...spec.eye, glow } })}
+      />
+
+      {RABBIT_ACCESSORIES.map((accessory) => (
+        <label key={accessory} className="flex items-center justify-between text-xs text-white">
+          <span className={sectionLabel}>{ACCESSORY_LABELS[accessory]}</span>
+          <input
+            type="checkbox"
+            checked={spec.accessories.includes(accessory)}
+            onChange={(e) => toggleAccessory(accessory, e.target.checked)}
+            className="accent-yellow-400"
+          />
+        </label>
+      ))}
+
+      <div className="flex flex-col gap-1">
+        <span className={sectionLabel}>Label</span>
+        {spec.label.image ? (
+          <div className="flex items-center gap-2">
+            <img src={spec.label.image} alt="Label" className="flex-1 min-w-0 h-6 object-cover rounded border border-white/10" />
+            <button
+              onClick={() => onChange({ ...spec, label: { ...spec.label, image: null } })}
+              className="text-white/70 hover:text-white"
+              aria-label="Remove Label Image"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-1">
+            <input
+              value={spec.label.text}
+              onChange={(e) => onChange({ ...spec, label: { ...spec.label, text: e.target.value } })}
+              placeholder="Label text"
+              maxLength={RABBIT_LIMITS.labelText}
+              className="flex-1 min-w-0 bg-white/10 border border-white/10 rounded-xl px-2 py-1 text-xs text-white font-mono outline-none"
+            />
+            <button onClick={onPickLabelImage} className={secondaryClass} aria-label="Label Image">
+              <ImagePlus size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onExportJson} className={`flex-1 ${secondaryClass}`}>
+          <FileDown size={12} /> JSON
+        </button>
+        <button onClick={onExportGlb} className={`flex-1 ${secondaryClass}`}>
+          <Box size={12} /> GLB
+        </button>
+        <button onClick={onImport} className={`flex-1 ${secondaryClass}`}>
+          <FileUp size={12} /> Import
+        </button>
+      </div>
+      <button onClick={() => onChange(BUILTIN_RABBIT_PRESETS[0].spec)} className={secondaryClass}>
+        <RotateCcw size={12} /> Defaults
+      </button>
+
+      {status && <p className="text-[10px] font-mono text-green-300">{status}</p>}
+    </div>
+  );
+};
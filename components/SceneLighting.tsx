@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { LightingRig } from '../services/sceneConfig';
+import { ENV_HEIGHT, ENV_WIDTH, LightEstimate, NEUTRAL_TEMPERATURE, temperatureToRgb } from '../services/lightingEstimator';
+
+declare global {
+  namespace JSX {
+    interface IntrinsicElements {
+      ambientLight: any;
+      directionalLight: any;
+      pointLight: any;
+      mesh: any;
+      planeGeometry: any;
+      shadowMaterial: any;
+    }
+  }
+}
+
+interface SceneLightingProps {
+  rig: LightingRig;
+  // Latest estimate from the camera feed; null applies the rig as designed
+  estimateRef?: React.MutableRefObject<LightEstimate | null>;
+  // The key light (first directional light) casts shadows onto ShadowCatchers
+  shadows: boolean;
+  // Mounted ShadowCatchers; the key light aims its shadow camera at the visible ones
+  shadowFocus?: Set<THREE.Object3D>;
+}
+
+// Time constant for easing towards a new estimate, in seconds. Estimates arrive
+// every ESTIMATE_INTERVAL_MS; easing hides the steps.
+const EASING_SECONDS = 0.6;
+// Strength of the camera-derived environment map on PBR materials
+const ENVIRONMENT_INTENSITY = 0.6;
+// Shadow camera bounds around the origin, used while no catcher is visible
+const SHADOW_EXTENT = 5;
+const SHADOW_MAP_SIZE = 1024;
+// Radius around a catcher's centre that must be in the shadow camera, in hand-group
+// units: the catcher's corners and a ~2 unit tall model standing on it
+const CATCHER_FOCUS_RADIUS = 2.5;
+const ORIGIN = new THREE.Vector3();
+
+// False when the object or any ancestor is hidden (e.g. an untracked hand group)
+const isShown = (object: THREE.Object3D) => {
+  for (let o: THREE.Object3D | null = object; o; o = o.parent) {
+    if (!o.visible) return false;
+  }
+  return true;
+};
+
+const neutralRgb = temperatureToRgb(NEUTRAL_TEMPERATURE, { r: 0, g: 0, b: 0 });
+
+// Color multiplier that shifts the rig from daylight to `kelvin`, brightest channel at 1
+const temperatureTint = (kelvin: number, target: THREE.Color) => {
+  temperatureToRgb(kelvin, target);
+  target.setRGB(target.r / neutralRgb.r, target.g / neutralRgb.g, target.b / neutralRgb.b);
+  const max = Math.max(target.r, target.g, target.b);
+  return target.multiplyScalar(1 / max);
+};
+
+/**
+ * The scene's lights: the rig from the scene config, scaled, tinted and aimed by
+ * the camera lighting estimate, plus an environment map wrapped from the feed.
+ */
+export const SceneLighting: React.FC<SceneLightingProps> = ({ rig, estimateRef, shadows, shadowFocus }) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const lightRefs = useRef<(THREE.DirectionalLight | THREE.PointLight | null)[]>([]);
+  const keyIndex = rig.lights.findIndex((light) => light.type === 'directional');
+
+  // Eased state; starts at "no estimate"
+  const current = useMemo(
+    () => ({
+      intensity: 1,
+      tint: new THREE.Color(1, 1, 1),
+      direction: new THREE.Vector3(),
+      directionality: 0,
+    }),
+    []
+  );
+  const scratch = useMemo(
+    () => ({
+      tint: new THREE.Color(),
+      direction: new THREE.Vector3(),
+      estimated: new THREE.Vector3(),
+      focus: new THREE.Sphere(),
+      sphere: new THREE.Sphere(),
+      scale: new THREE.Vector3(),
+    }),
+    []
+  );
+
+  // Bounding sphere of the visible catchers in world space, or null without any
+  const findShadowFocus = () => {
+    if (!shadowFocus) return null;
+    let found = false;
+    for (const catcher of shadowFocus) {
+      if (!isShown(catcher)) continue;
+      catcher.getWorldPosition(scratch.sphere.center);
+      catcher.getWorldScale(scratch.scale);
+      scratch.sphere.radius = CATCHER_FOCUS_RADIUS * Math.max(scratch.scale.x, scratch.scale.y, scratch.scale.z);
+      if (found) scratch.focus.union(scratch.sphere);
+      else scratch.focus.copy(scratch.sphere);
+      found = true;
+    }
+    return found ? scratch.focus : null;
+  };
+
+  // Moves the key light with its target and fits the shadow camera around the focus.
+  // `offset` is the light's position relative to its target.
+  const aimKeyLight = (key: THREE.DirectionalLight, offset: THREE.Vector3) => {
+    const focus = shadows ? findShadowFocus() : null;
+    const center = focus ? focus.center : ORIGIN;
+    key.target.position.copy(center);
+    key.target.updateMatrixWorld();
+    key.position.copy(center).add(offset);
+    if (!shadows) return;
+
+    const camera = key.shadow.camera;
+    const extent = focus ? focus.radius : SHADOW_EXTENT;
+    const distance = offset.length();
+    const near = Math.max(0.1, distance - extent);
+    const far = distance + extent;
+    if (camera.right !== extent || camera.near !== near || camera.far !== far) {
+      camera.left = -extent;
+      camera.right = extent;
+      camera.top = extent;
+      camera.bottom = -extent;
+      camera.near = near;
+      camera.far = far;
+      camera.updateProjectionMatrix();
+    }
+  };
+
+  const pmrem = useMemo(() => new THREE.PMREMGenerator(gl), [gl]);
+  const environment = useMemo(() => {
+    const texture = new THREE.DataTexture(new Uint8Array(ENV_WIDTH * ENV_HEIGHT * 4), ENV_WIDTH, ENV_HEIGHT);
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.magFilter = THREE.LinearFilter;
+    return texture;
+  }, []);
+  const envTargetRef = useRef<THREE.WebGLRenderTarget | null>(null);
+  const envVersionRef = useRef(0);
+
+  const clearEnvironment = () => {
+    if (!envTargetRef.current) return;
+    if (scene.environment === envTargetRef.current.texture) scene.environment = null;
+    envTargetRef.current.dispose();
+    envTargetRef.current = null;
+    envVersionRef.current = 0;
+  };
+
+  useEffect(() => {
+    return () => {
+      clearEnvironment();
+      pmrem.dispose();
+      environment.dispose();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pmrem, environment]);
+
+  useFrame((_, delta) => {
+    const estimate = estimateRef?.current ?? null;
+    const keyLight = rig.lights[keyIndex];
+
+    // Targets: the estimate, or the rig unchanged
+    const targetIntensity = estimate ? estimate.intensity : 1;
+    const targetTint = estimate ? temperatureTint(estimate.temperature, scratch.tint) : scratch.tint.setRGB(1, 1, 1);
+    const targetDirectionality = estimate ? estimate.directionality : 0;
+    if (estimate) scratch.direction.fromArray(estimate.direction);
+
+    const k = 1 - Math.exp(-delta / EASING_SECONDS);
+    current.intensity += (targetIntensity - current.intensity) * k;
+    current.tint.lerp(targetTint, k);
+    current.directionality += (targetDirectionality - current.directionality) * k;
+    if (estimate) current.direction.lerp(scratch.direction, k).normalize();
+
+    if (ambientRef.current) {
+      ambientRef.current.intensity = rig.ambientIntensity * current.intensity;
+      ambientRef.current.color.set(rig.ambientColor).multiply(current.tint);
+    }
+    rig.lights.forEach((light, i) => {
+      const object = lightRefs.current[i];
+      if (!object) return;
+      object.intensity = light.intensity * current.intensity;
+      object.color.set(light.color).multiply(current.tint);
+    });
+
+    // Swing the key light towards the estimated direction at its designed distance,
+    // relative to the tracked hands so their shadows stay inside the shadow camera
+    const key = lightRefs.current[keyIndex];
+    if (key instanceof THREE.DirectionalLight && keyLight) {
+      const offset = scratch.direction.fromArray(keyLight.position);
+      if (current.directionality > 0 && current.direction.lengthSq() > 0) {
+        const distance = offset.length();
+        offset.lerp(scratch.estimated.copy(current.direction).multiplyScalar(distance), current.directionality);
+      }
+      aimKeyLight(key, offset);
+    }
+
+    // Environment map, rebuilt once per new estimate
+    if (!estimate) {
+      clearEnvironment();
+      return;
+    }
+    if (estimate.version !== envVersionRef.current) {
+      (environment.image.data as Uint8Array).set(estimate.environment);
+      environment.needsUpdate = true;
+      const target = pmrem.fromEquirectangular(environment);
+      clearEnvironment();
+      envTargetRef.current = target;
+      envVersionRef.current = estimate.version;
+      scene.environment = target.texture;
+    }
+    scene.environmentIntensity = ENVIRONMENT_INTENSITY * current.intensity;
+  });
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={rig.ambientIntensity} color={rig.ambientColor} />
+      {rig.lights.map((light, i) =>
+        light.type === 'point' ? (
+          <pointLight
+            key={i}
+            ref={(object: THREE.PointLight | null) => (lightRefs.current[i] = object)}
+            position={light.position}
+            intensity={light.intensity}
+            color={light.color}
+          />
+        ) : (
+          <directionalLight
+            key={i}
+            ref={(object: THREE.DirectionalLight | null) => (lightRefs.current[i] = object)}
+            position={light.position}
+            intensity={light.intensity}
+            color={light.color}
+            castShadow={shadows && i === keyIndex}
+            shadow-mapSize={[SHADOW_MAP_SIZE, SHADOW_MAP_SIZE]}
+            shadow-camera-left={-SHADOW_EXTENT}
+            shadow-camera-right={SHADOW_EXTENT}
+            shadow-camera-top={SHADOW_EXTENT}
+            shadow-camera-bottom={-SHADOW_EXTENT}
+            shadow-camera-near={0.1}
+            shadow-camera-far={50}
+            shadow-bias={-0.0005}
+          />
+        )
+      )}
+    </>
+  );
+};
+
+// Size of the catcher plane, in hand-group units (models are ~2 units tall)
+const CATCHER_SIZE = 3;
+const CATCHER_OPACITY = 0.35;
+
+/**
+ * Invisible plane at the model's base that only shows the shadows falling on it,
+ * so the model reads as standing on the palm. Registers itself in `focus` so
+ * SceneLighting keeps it inside the key light's shadow camera.
+ */
+export const ShadowCatcher: React.FC<{ focus?: Set<THREE.Object3D> }> = ({ focus }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!focus || !mesh) return;
+    focus.add(mesh);
+    return () => {
+      focus.delete(mesh);
+    };
+  }, [focus]);
+
+  return (
+    <mesh ref={meshRef} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+      <planeGeometry args={[CATCHER_SIZE, CATCHER_SIZE]} />
+      <shadowMaterial transparent opacity={CATCHER_OPACITY} depthWrite={false} />
+    </mesh>
+  );
+};
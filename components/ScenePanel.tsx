@@ -0,0 +1,115 @@
+import React from 'react';
+import { FileDown, FileUp, Link, X } from 'lucide-react';
+import { SceneEffects } from '../services/sceneConfig';
+import { POST_EFFECT_ORDER, POST_EFFECT_PRESETS, PostEffectsPreset } from '../services/postEffects';
+
+interface ScenePanelProps {
+  modelName: string;
+  // Why the current scene can't be shared or exported (e.g. an uploaded model); null when it can
+  shareBlocker: string | null;
+  effects: SceneEffects;
+  postEffects: PostEffectsPreset;
+  // Preset actually running; lower than postEffects after a performance downgrade
+  activePostEffects: PostEffectsPreset;
+  // Result of the last action, e.g. "Link copied"
+  status: string | null;
+  onEffectsChange: (effects: SceneEffects) => void;
+  onPostEffectsChange: (preset: PostEffectsPreset) => void;
+  onCopyLink: () => void;
+  onExport: () => void;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+const EFFECT_TOGGLES: { name: keyof SceneEffects; label: string }[] = [
+  { name: 'occlusion', label: 'Finger occlusion' },
+  { name: 'lightEstimation', label: 'Match room lighting' },
+  { name: 'shadows', label: 'Palm shadow' },
+];
+
+const actionClass = 'flex items-center justify-center gap-1 px-3 py-1 rounded-full border text-xs';
+
+export const ScenePanel: React.FC<ScenePanelProps> = ({
+  modelName,
+  shareBlocker,
+  effects,
+  postEffects,
+  activePostEffects,
+  status,
+  onEffectsChange,
+  onPostEffectsChange,
+  onCopyLink,
+  onExport,
+  onImport,
+  onClose,
+}) => (
+  <div className="bg-black/80 backdrop-blur-xl rounded-3xl border border-white/10 shadow-xl p-4 w-72 flex flex-col gap-3 pointer-events-auto">
+    <div className="flex items-center justify-between">
+      <div className="min-w-0">
+        <h2 className="text-white font-bold text-sm tracking-wider">SCENE</h2>
+        <p className="text-white/40 text-[10px] uppercase tracking-widest truncate">{modelName}</p>
+      </div>
+      <button onClick={onClose} className="text-white/70 hover:text-white" aria-label="Close Scene">
+        <X size={16} />
+      </button>
+    </div>
+
+    {EFFECT_TOGGLES.map(({ name, label }) => (
+      <label key={name} className="flex items-center justify-between text-xs text-white">
+        <span className="text-[10px] uppercase tracking-widest text-white/60">{label}</span>
+        <input
+          type="checkbox"
+          checked={effects[name]}
+          onChange={(e) => onEffectsChange({ ...effects, [name]: e.target.checked })}
+          className="accent-yellow-400"
+        />
+      </label>
+    ))}
+
+    <label className="flex flex-col gap-1">
+      <span className="text-[10px] uppercase tracking-widest text-white/60">Post effects</span>
+      <select
+        value={postEffects}
+        onChange={(e) => onPostEffectsChange(e.target.value as PostEffectsPreset)}
+        className="w-full bg-white/10 border border-white/10 rounded-xl px-2 py-1 text-xs text-white outline-none"
+      >
+        {POST_EFFECT_ORDER.map((preset) => (
+          <option key={preset} value={preset} className="bg-zinc-900">
+            {POST_EFFECT_PRESETS[preset].label}
+          </option>
+        ))}
+      </select>
+    </label>
+    {activePostEffects !== postEffects && (
+      <p className="text-[10px] text-white/50 -mt-2">
+        Lowered to {POST_EFFECT_PRESETS[activePostEffects].label} to keep the frame rate
+      </p>
+    )}
+
+    <button
+      onClick={onCopyLink}
+      disabled={!!shareBlocker}
+      className={`${actionClass} ${
+        shareBlocker ? 'bg-white/5 border-white/5 text-white/30' : 'bg-yellow-400/90 border-yellow-400 text-black font-semibold'
+      }`}
+    >
+      <Link size={12} /> Copy share link
+    </button>
+    {shareBlocker && <p className="text-[10px] text-white/50 -mt-2">{shareBlocker}</p>}
+
+    <div className="flex gap-2">
+      <button
+        onClick={onExport}
+        disabled={!!shareBlocker}
+        className={`flex-1 ${actionClass} ${shareBlocker ? 'bg-white/5 border-white/5 text-white/30' : 'bg-white/10 hover:bg-white/20 border-white/10 text-white'}`}
+      >
+        <FileDown size={12} /> Export
+      </button>
+      <button onClick={onImport} className={`flex-1 ${actionClass} bg-white/10 hover:bg-white/20 border-white/10 text-white`}>
+        <FileUp size={12} /> Import
+      </button>
+    </div>
+
+    {status && <p className="text-[10px] font-mono text-green-300">{status}</p>}
+  </div>
+);
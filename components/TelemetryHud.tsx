@@ -0,0 +1,108 @@
+import React from 'react';
+import { Activity, ChevronDown, Download } from 'lucide-react';
+import { MetricName, TelemetrySnapshot } from '../services/telemetry';
+import { HAND_IDS } from '../utils/handIdentity';
+
+interface TelemetryHudProps {
+  // null while collapsed; the collector keeps sampling either way
+  snapshot: TelemetrySnapshot | null;
+  open: boolean;
+  onToggle: () => void;
+  onExport: () => void;
+}
+
+interface MetricRow {
+  name: MetricName;
+  label: string;
+  format: (value: number) => string;
+  color: string;
+}
+
+const ROWS: MetricRow[] = [
+  { name: 'detectionFps', label: 'Detect FPS', format: (v) => v.toFixed(0), color: '#4ade80' },
+  { name: 'renderFps', label: 'Render FPS', format: (v) => v.toFixed(0), color: '#60a5fa' },
+  { name: 'latencyMs', label: 'Latency', format: (v) => `${v.toFixed(0)} ms`, color: '#facc15' },
+  { name: 'droppedFrames', label: 'Dropped', format: (v) => v.toFixed(0), color: '#f87171' },
+  { name: 'confidence', label: 'Confidence', format: (v) => `${Math.round(v * 100)}%`, color: '#c084fc' },
+  { name: 'jitter', label: 'Jitter', format: (v) => v.toFixed(3), color: '#22d3ee' },
+];
+
+const SPARK_WIDTH = 72;
+const SPARK_HEIGHT = 18;
+
+const Sparkline: React.FC<{ values: number[]; color: string }> = ({ values, color }) => {
+  if (values.length < 2) return <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} />;
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const range = max - min || 1;
+  const points = values
+    .map((v, i) => {
+      const x = (i / (values.length - 1)) * SPARK_WIDTH;
+      const y = SPARK_HEIGHT - 1 - ((v - min) / range) * (SPARK_HEIGHT - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT}>
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+export const TelemetryHud: React.FC<TelemetryHudProps> = ({ snapshot, open, onToggle, onExport }) => {
+  if (!open || !snapshot) {
+    return (
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-1 px-3 py-1 rounded-full bg-black/50 backdrop-blur-md border border-white/10 text-[10px] uppercase tracking-widest text-white/70 hover:text-white pointer-events-auto"
+        aria-label="Show Telemetry"
+      >
+        <Activity size={12} /> Stats
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-black/70 backdrop-blur-xl rounded-2xl border border-white/10 shadow-xl p-3 w-60 flex flex-col gap-1 pointer-events-auto font-mono">
+      <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center gap-1 text-[10px] uppercase tracking-widest text-white/70">
+          <Activity size={12} /> Telemetry
+        </span>
+        <div className="flex gap-2">
+          <button onClick={onExport} className="text-white/70 hover:text-white" aria-label="Export Session Report">
+            <Download size={14} />
+          </button>
+          <button onClick={onToggle} className="text-white/70 hover:text-white" aria-label="Hide Telemetry">
+            <ChevronDown size={14} />
+          </button>
+        </div>
+      </div>
+
+      {ROWS.map((row) => {
+        const value = snapshot.current[row.name];
+        return (
+          <div key={row.name} className="flex items-center justify-between gap-2 text-[10px]">
+            <span className="w-16 text-white/50">{row.label}</span>
+            <span className="w-12 text-right text-white">{value === null ? '–' : row.format(value)}</span>
+            <Sparkline values={snapshot.series[row.name]} color={row.color} />
+          </div>
+        );
+      })}
+
+      <div className="mt-1 pt-1 border-t border-white/10 text-[10px] text-white/50">
+        {HAND_IDS.map((id) => {
+          const hand = snapshot.hands[id];
+          const confidence = hand.confidenceCount ? `${Math.round((hand.confidenceSum / hand.confidenceCount) * 100)}%` : '–';
+          return (
+            <div key={id} className="flex justify-between">
+              <span>{id}</span>
+              <span className="text-white/80">
+                {hand.found}↑ {hand.lost}↓ · {confidence} · {hand.labelMismatches} mislabeled
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
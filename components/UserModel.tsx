@@ -1,7 +1,11 @@
-
 import React, { useEffect } from 'react';
 import { useGLTF, Center } from '@react-three/drei';
 import * as THREE from 'three';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { dracoDecoderPath as defaultDracoDecoderPath } from '../services/gltfLoader';
+import { useModelAnimations } from '../hooks/useModelAnimations';
+import { HandAnimationEvent } from '../utils/animationClips';
+import { computeNormalizedScale, DEFAULT_MODEL_HEIGHT } from '../utils/modelNormalization';
 
 declare global {
   namespace JSX {
@@ -13,14 +17,44 @@ declare global {
 
 interface UserModelProps {
   url: string;
+  // Looping clip to play; null autoplays the idle clip
+  animation?: string | null;
+  handEvent?: HandAnimationEvent | null;
+  // Reports the names of the embedded clips once the model has loaded
+  onClipsLoaded?: (clips: string[]) => void;
+  // Height the model is normalized to, in hand-group units
+  targetHeight?: number;
+  // Where useGLTF loads the Draco decoder from
+  dracoDecoderPath?: string;
 }
 
-export const UserModel: React.FC<UserModelProps> = ({ url }) => {
+export const UserModel: React.FC<UserModelProps> = ({ url, animation, handEvent, onClipsLoaded, targetHeight = DEFAULT_MODEL_HEIGHT, dracoDecoderPath = defaultDracoDecoderPath() }) => {
   // useGLTF loads the model from the Blob URL
-  const { scene } = useGLTF(url);
+  const { scene, animations } = useGLTF(url, dracoDecoderPath);
   
-  // We clone the scene to ensure we don't mutate the cached original if re-mounted
-  const clone = React.useMemo(() => scene.clone(), [scene]);
+  // We clone the scene to ensure we don't mutate the cached original if re-mounted.
+  // SkeletonUtils rebinds skinned meshes to the cloned bones (Object3D.clone doesn't).
+  // Materials are cloned too, so each hand can fade its copy independently.
+  const clone = React.useMemo(() => {
+    const root = cloneSkinned(scene);
+    root.traverse((obj) => {
+      if (obj instanceof THREE.Mesh) {
+        obj.material = Array.isArray(obj.material) ? obj.material.map((m) => m.clone()) : obj.material.clone();
+        obj.castShadow = true;
+      }
+    });
+    return root;
+  }, [scene]);
+
+  // Models come in at arbitrary units (mm, cm, m...); scale them to a palm-sized height
+  const normalizedScale = React.useMemo(() => computeNormalizedScale(clone, targetHeight), [clone, targetHeight]);
+
+  useModelAnimations(clone, animations, { animation, handEvent });
+
+  useEffect(() => {
+    onClipsLoaded?.(animations.map((clip) => clip.name));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [animations]);
 
   // Cleanup materials when url changes or component unmounts to prevent memory leaks
   useEffect(() => {
@@ -49,7 +83,7 @@ export const UserModel: React.FC<UserModelProps> = ({ url }) => {
     <Center bottom>
       <primitive 
         object={clone} 
-        scale={[1, 1, 1]} 
+        scale={normalizedScale} 
       />
     </Center>
   );
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Center } from '@react-three/drei';
+import { VRM, VRMUtils } from '@pixiv/three-vrm';
+import { createVrmLoader } from '../services/gltfLoader';
+import { HandAnimationEvent, HAND_EVENT_EXPRESSIONS } from '../utils/animationClips';
+import { computeNormalizedScale, DEFAULT_MODEL_HEIGHT } from '../utils/modelNormalization';
+
+declare global {
+  namespace JSX {
+    interface IntrinsicElements {
+      primitive: any;
+    }
+  }
+}
+
+interface VrmModelProps {
+  url: string;
+  handEvent?: HandAnimationEvent | null;
+  // Height the model is normalized to, in hand-group units
+  targetHeight?: number;
+  // Where the loader fetches the Draco decoder from; the app's own assets when absent
+  dracoDecoderPath?: string;
+}
+
+// VRM rest pose is a T-pose; lowering the upper arms this far (radians) reads as relaxed
+const REST_ARM_ANGLE = 1.2;
+
+// Hand event expression envelope, in seconds
+const EXPRESSION_ATTACK = 0.15;
+const EXPRESSION_HOLD = 1.2;
+const EXPRESSION_RELEASE = 0.4;
+
+// Idle blinking: one blink every BLINK_INTERVAL ± half of it, lasting BLINK_DURATION
+const BLINK_INTERVAL = 4;
+const BLINK_DURATION = 0.15;
+
+const nextBlinkDelay = () => BLINK_INTERVAL * (0.5 + Math.random());
+
+const expressionWeight = (elapsed: number) => {
+  if (elapsed < EXPRESSION_ATTACK) return elapsed / EXPRESSION_ATTACK;
+  if (elapsed < EXPRESSION_ATTACK + EXPRESSION_HOLD) return 1;
+  return Math.max(0, 1 - (elapsed - EXPRESSION_ATTACK - EXPRESSION_HOLD) / EXPRESSION_RELEASE);
+};
+
+/**
+ * A VRM avatar: humanoid rig, spring-bone physics, expressions and look-at.
+ *
+ * Unlike UserModel, every instance loads its own copy, since a VRM's humanoid,
+ * spring bones and expressions are bound to its scene and can't be cloned.
+ * Placed in the hand group the same way: normalized height, bottom on the palm.
+ */
+export const VrmModel: React.FC<VrmModelProps> = ({ url, handEvent, targetHeight = DEFAULT_MODEL_HEIGHT, dracoDecoderPath }) => {
+  const camera = useThree((state) => state.camera);
+  const [vrm, setVrm] = useState<VRM | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [normalizedScale, setNormalizedScale] = useState(1);
+
+  const expressionRef = useRef<{ name: string; elapsed: number } | null>(null);
+  const blinkRef = useRef({ wait: nextBlinkDelay(), elapsed: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: VRM | null = null;
+
+    createVrmLoader(dracoDecoderPath)
+      .loadAsync(url)
+      .then((gltf) => {
+        const result: VRM | undefined = gltf.userData.vrm;
+        if (!result) throw new Error('File has no VRM data.');
+        if (cancelled) {
+          VRMUtils.deepDispose(gltf.scene);
+          return;
+        }
+        VRMUtils.removeUnnecessaryVertices(gltf.scene);
+        VRMUtils.combineSkeletons(gltf.scene);
+        // VRM 0.x faces -Z; turn it towards the camera like VRM 1.0
+        VRMUtils.rotateVRM0(result);
+        // Skinned bounds don't follow spring bones, so culling would clip hair and clothes.
+        // Everything casts onto the palm ShadowCatcher.
+        result.scene.traverse((obj) => {
+          obj.frustumCulled = false;
+          obj.castShadow = true;
+        });
+
+        const humanoid = result.humanoid;
+        humanoid.getNormalizedBoneNode('leftUpperArm')?.rotation.set(0, 0, -REST_ARM_ANGLE);
+        humanoid.getNormalizedBoneNode('rightUpperArm')?.rotation.set(0, 0, REST_ARM_ANGLE);
+        // Measure in the relaxed pose, not the T-pose
+        result.update(0);
+
+        loaded = result;
+        setNormalizedScale(computeNormalizedScale(result.scene, targetHeight));
+        setVrm(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      });
+
+    return () => {
+      cancelled = true;
+      if (loaded) VRMUtils.deepDispose(loaded.scene);
+      setVrm(null);
+    };
+  }, [url, targetHeight, dracoDecoderPath]);
+
+  // Eyes (and head, for rigs that turn it) follow the camera, i.e. the viewer
+  useEffect(() => {
+    if (!vrm?.lookAt) return;
+    vrm.lookAt.target = camera;
+    vrm.lookAt.autoUpdate = true;
+  }, [vrm, camera]);
+
+  useEffect(() => {
+    if (!vrm || !handEvent) return;
+    // The hand group jumps when a hand is found; start the physics from rest
+    if (handEvent.type === 'found') vrm.springBoneManager?.reset();
+
+    const previous = expressionRef.current;
+    if (previous) vrm.expressionManager?.setValue(previous.name, 0);
+    expressionRef.current = { name: HAND_EVENT_EXPRESSIONS[handEvent.type], elapsed: 0 };
+    // Only the event id matters; re-running for the same event would replay it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vrm, handEvent?.id]);
+
+  useFrame((_, delta) => {
+    if (!vrm) return;
+    const expressions = vrm.expressionManager;
+
+    const expression = expressionRef.current;
+    if (expression && expressions) {
+      expression.elapsed += delta;
+      const weight = expressionWeight(expression.elapsed);
+      expressions.setValue(expression.name, weight);
+      if (weight === 0) expressionRef.current = null;
+    }
+
+    const blink = blinkRef.current;
+    blink.elapsed += delta;
+    if (blink.elapsed > blink.wait) {
+      const t = (blink.elapsed - blink.wait) / BLINK_DURATION;
+      expressions?.setValue('blink', t < 1 ? Math.sin(t * Math.PI) : 0);
+      if (t >= 1) {
+        blink.elapsed = 0;
+        blink.wait = nextBlinkDelay();
+      }
+    }
+
+    // Humanoid, look-at, expressions, spring bones and MToon materials
+    vrm.update(delta);
+  });
+
+  // Surfaces load failures to the surrounding ModelErrorBoundary
+  if (error) throw error;
+  if (!vrm) return null;
+
+  return (
+    <Center bottom>
+      <primitive object={vrm.scene} scale={normalizedScale} />
+    </Center>
+  );
+};
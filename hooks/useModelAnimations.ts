@@ -0,0 +1,81 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { findClip, HandAnimationEvent, HAND_EVENT_CLIPS, pickIdleClip } from '../utils/animationClips';
+
+const CROSSFADE_SECONDS = 0.3;
+
+interface ModelAnimationOptions {
+  // Looping clip picked by the user; null/undefined autoplays the idle clip
+  animation?: string | null;
+  handEvent?: HandAnimationEvent | null;
+}
+
+/**
+ * Drives a model's embedded glTF clips: autoplays an idle loop, crossfades to
+ * the picked loop, and plays one-shot clips for hand events before fading back.
+ * The mixer is bound to `root` and torn down when the root changes.
+ */
+export const useModelAnimations = (root: THREE.Object3D, clips: THREE.AnimationClip[], { animation, handEvent }: ModelAnimationOptions) => {
+  const mixer = useMemo(() => new THREE.AnimationMixer(root), [root]);
+  const loopActionRef = useRef<THREE.AnimationAction | null>(null);
+  const oneShotRef = useRef<THREE.AnimationAction | null>(null);
+
+  useEffect(() => {
+    return () => {
+      mixer.stopAllAction();
+      clips.forEach((clip) => mixer.uncacheClip(clip));
+      mixer.uncacheRoot(root);
+      loopActionRef.current = null;
+      oneShotRef.current = null;
+    };
+  }, [mixer, root, clips]);
+
+  const fadeTo = (next: THREE.AnimationAction, from: THREE.AnimationAction | null) => {
+    next.reset().setEffectiveWeight(1).fadeIn(CROSSFADE_SECONDS).play();
+    if (from && from !== next) from.fadeOut(CROSSFADE_SECONDS);
+  };
+
+  // Looping clip: picked one, or the idle fallback
+  useEffect(() => {
+    const clip = (animation && clips.find((c) => c.name === animation)) || pickIdleClip(clips);
+    if (!clip) return;
+
+    const action = mixer.clipAction(clip);
+    action.setLoop(THREE.LoopRepeat, Infinity);
+    // While a one-shot plays it keeps the stage; the loop resumes when it finishes
+    if (!oneShotRef.current) fadeTo(action, loopActionRef.current);
+    loopActionRef.current = action;
+  }, [mixer, clips, animation]);
+
+  // One-shot clips for hand events
+  useEffect(() => {
+    if (!handEvent) return;
+    const clip = findClip(clips, HAND_EVENT_CLIPS[handEvent.type]);
+    if (!clip) return;
+
+    const action = mixer.clipAction(clip);
+    action.setLoop(THREE.LoopOnce, 1);
+    action.clampWhenFinished = false;
+    fadeTo(action, oneShotRef.current ?? loopActionRef.current);
+    oneShotRef.current = action;
+    // Only the event id matters; re-running for the same event would replay it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mixer, clips, handEvent?.id]);
+
+  // Back to the loop when the current one-shot ends. Listening for the mixer's
+  // lifetime rather than per event, so hand events without a clip can't drop it.
+  useEffect(() => {
+    const onFinished = (event: { action: THREE.AnimationAction }) => {
+      if (event.action !== oneShotRef.current) return;
+      oneShotRef.current = null;
+      if (loopActionRef.current) fadeTo(loopActionRef.current, event.action);
+    };
+    mixer.addEventListener('finished', onFinished);
+    return () => mixer.removeEventListener('finished', onFinished);
+  }, [mixer]);
+
+  useFrame((_, delta) => {
+    mixer.update(delta);
+  });
+};
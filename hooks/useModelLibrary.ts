@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { deleteModel, listModels, ModelDetails, ModelRecord, saveModel, updateModel } from '../services/modelLibrary';
+import { ModelFormat } from '../services/modelValidation';
+import { sanitizeSmoothing, SmoothingConfig } from '../utils/poseFilter';
+import { PlacementCalibration, sanitizeCalibration } from '../utils/calibration';
+
+export interface LibraryModel {
+  id: string;
+  name: string;
+  size: number;
+  uploadedAt: number;
+  // Blob URLs, owned by the hook and revoked on delete/unmount
+  url: string;
+  thumbnailUrl: string | null;
+  smoothing?: SmoothingConfig;
+  calibration?: PlacementCalibration;
+  sourceUrl?: string;
+  format: ModelFormat;
+  // False when IndexedDB was unavailable and the model only lives in memory
+  persisted: boolean;
+}
+
+const toLibraryModel = (record: ModelRecord, persisted = true): LibraryModel => ({
+  id: record.id,
+  name: record.name,
+  size: record.size,
+  uploadedAt: record.uploadedAt,
+  url: URL.createObjectURL(record.blob),
+  thumbnailUrl: record.thumbnail ? URL.createObjectURL(record.thumbnail) : null,
+  smoothing: record.smoothing ? sanitizeSmoothing(record.smoothing) : undefined,
+  calibration: record.calibration ? sanitizeCalibration(record.calibration) : undefined,
+  sourceUrl: record.sourceUrl,
+  format: record.format ?? 'gltf',
+  persisted,
+});
+
+const revoke = (model: LibraryModel) => {
+  URL.revokeObjectURL(model.url);
+  if (model.thumbnailUrl) URL.revokeObjectURL(model.thumbnailUrl);
+};
+
+/**
+ * The persistent library of uploaded models, with blob URLs ready for useGLTF.
+ */
+export const useModelLibrary = () => {
+  const [models, setModels] = useState<LibraryModel[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const modelsRef = useRef<LibraryModel[]>([]);
+  modelsRef.current = models;
+
+  useEffect(() => {
+    let cancelled = false;
+    listModels()
+      .then((records) => {
+        if (cancelled) return;
+        setModels((prev) => [...records.map((r) => toLibraryModel(r)), ...prev]);
+      })
+      .catch((err) => console.warn('Model library unavailable:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+      modelsRef.current.forEach(revoke);
+    };
+  }, []);
+
+  const add = useCallback(async (file: File, details: ModelDetails = {}): Promise<LibraryModel> => {
+    let model: LibraryModel;
+    try {
+      model = toLibraryModel(await saveModel(file, details));
+    } catch (err) {
+      // Keep the upload usable for this session even if it can't be stored
+      console.warn('Could not persist model:', err);
+      model = toLibraryModel(
+        { id: crypto.randomUUID(), name: file.name, size: file.size, uploadedAt: Date.now(), blob: file, thumbnail: null, ...details },
+        false
+      );
+    }
+    setModels((prev) => [...prev, model]);
+    return model;
+  }, []);
+
+  const update = useCallback(async (id: string, changes: Partial<Pick<ModelRecord, 'name' | 'smoothing' | 'calibration'>>) => {
+    const model = modelsRef.current.find((m) => m.id === id);
+    if (model?.persisted) await updateModel(id, changes);
+    setModels((prev) => prev.map((m) => (m.id === id ? { ...m, ...changes } : m)));
+  }, []);
+
+  const rename = useCallback((id: string, name: string) => update(id, { name }), [update]);
+
+  const remove = useCallback(async (id: string) => {
+    const model = modelsRef.current.find((m) => m.id === id);
+    if (!model) return;
+    if (model.persisted) await deleteModel(id);
+    revoke(model);
+    setModels((prev) => prev.filter((m) => m.id !== id));
+  }, []);
+
+  return { models, isLoaded, add, update, rename, remove };
+};
@@ -0,0 +1,207 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { ARCanvas, TrackedHand } from '../components/ARCanvas';
+import { Handedness } from '../types';
+import { HAND_IDS } from '../utils/handIdentity';
+import { DEFAULT_SMOOTHING } from '../utils/poseFilter';
+import { DEFAULT_CALIBRATION, PlacementCalibration, sanitizeCalibration } from '../utils/calibration';
+import { HandAnimationEvent } from '../utils/animationClips';
+import { HandTrackingSession } from '../services/handTrackingSession';
+import { FacingMode } from '../services/cameraDevices';
+
+/**
+ * `<kana-ar>`: the AR effect as a self-contained element.
+ *
+ * Attributes
+ *   model-src    glTF/GLB URL; the built-in rabbit when absent
+ *   facing-mode  'user' (default) or 'environment'
+ *   calibration  JSON PlacementCalibration, applied to both hands
+ *   asset-base   URL holding MediaPipe's `wasm/` and `hand_landmarker.task`, and
+ *                the Draco decoder in `draco/` (for compressed models), relative
+ *                to the page. Changing it reloads the detector (restarting a
+ *                running camera)
+ *   autostart    start the camera as soon as the element is connected
+ *
+ * Events (bubbling, composed): `handfound` and `handlost` with `{ hand }`,
+ * `gesture` with the GestureEvent, `error` with `{ message }`.
+ *
+ * Methods: `start()` (returns a promise) and `stop()`.
+ */
+
+const STYLE = `
+  :host { display: block; position: relative; overflow: hidden; background: #18181b; }
+  video, .canvas { position: absolute; inset: 0; width: 100%; height: 100%; }
+  video { object-fit: cover; }
+`;
+
+interface ViewProps {
+  session: HandTrackingSession;
+  visibility: Record<Handedness, boolean>;
+  handEvents: Record<Handedness, HandAnimationEvent | null>;
+  modelUrl: string | null;
+  calibration: PlacementCalibration;
+  assetBase?: string;
+  onModelError: (error: Error) => void;
+}
+
+const KanaArView: React.FC<ViewProps> = ({ session, visibility, handEvents, modelUrl, calibration, assetBase, onModelError }) => {
+  const hands: TrackedHand[] = HAND_IDS.map((id) => ({
+    id,
+    ...session.hands[id],
+    smoothing: DEFAULT_SMOOTHING,
+    visible: visibility[id],
+    tracked: visibility[id],
+    modelUrl,
+    animation: null,
+    handEvent: handEvents[id],
+    onClipsLoaded: () => {},
+    onModelError: (_url, error) => onModelError(error),
+    calibration,
+  }));
+
+  return <ARCanvas hands={hands} assetBase={assetBase} />;
+};
+
+const parseCalibration = (raw: string | null): PlacementCalibration => {
+  if (!raw) return DEFAULT_CALIBRATION;
+  try {
+    return sanitizeCalibration(JSON.parse(raw));
+  } catch {
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+export class KanaArElement extends HTMLElement {
+  static observedAttributes = ['model-src', 'facing-mode', 'calibration', 'asset-base'];
+
+  private video: HTMLVideoElement;
+  private root: Root | null = null;
+  // Set between disconnect and the deferred unmount; a re-connect (e.g. the element
+  // being moved in the DOM) cancels it and keeps the root
+  private pendingUnmount = false;
+  private mount: HTMLDivElement;
+  private readonly session: HandTrackingSession;
+  private visibility: Record<Handedness, boolean> = { Left: false, Right: false };
+  private handEvents: Record<Handedness, HandAnimationEvent | null> = { Left: null, Right: null };
+  private handEventId = 0;
+  // Parsed when the attribute changes; the session reads it on every detection
+  private parsedCalibration: PlacementCalibration = DEFAULT_CALIBRATION;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = STYLE;
+    this.video = document.createElement('video');
+    this.video.autoplay = true;
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.mount = document.createElement('div');
+    this.mount.className = 'canvas';
+    shadow.append(style, this.video, this.mount);
+
+    this.session = new HandTrackingSession({
+      video: this.video,
+      getCamera: () => ({ facingMode: this.facingMode }),
+      getAssetBase: () => this.getAttribute('asset-base') ?? undefined,
+      getCalibration: () => this.calibration,
+      onHandFound: (hand) => this.setHandVisible(hand, true),
+      onHandLost: (hand) => this.setHandVisible(hand, false),
+      onGesture: (event) => this.emit('gesture', event),
+      onCameraStarted: (camera) => {
+        this.video.style.transform = camera.facingMode === 'user' ? 'scaleX(-1)' : '';
+      },
+      onError: (error) => this.emit('error', { message: error.message }),
+    });
+  }
+
+  get modelSrc(): string | null {
+    return this.getAttribute('model-src');
+  }
+
+  get facingMode(): FacingMode {
+    return this.getAttribute('facing-mode') === 'environment' ? 'environment' : 'user';
+  }
+
+  get calibration(): PlacementCalibration {
+    return this.parsedCalibration;
+  }
+
+  connectedCallback() {
+    this.pendingUnmount = false;
+    this.root ??= createRoot(this.mount);
+    this.render();
+    if (this.hasAttribute('autostart')) {
+      // Failures are reported through the `error` event
+      this.start().catch(() => {});
+    }
+  }
+
+  disconnectedCallback() {
+    // Unmounting synchronously inside a React render is not allowed; defer it. A move
+    // in the DOM re-connects before the microtask runs, keeping the camera and detector.
+    this.pendingUnmount = true;
+    queueMicrotask(() => {
+      if (!this.pendingUnmount) return;
+      this.pendingUnmount = false;
+      this.session.dispose();
+      this.root?.unmount();
+      this.root = null;
+    });
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+    if (oldValue === newValue) return;
+    if (name === 'calibration') this.parsedCalibration = parseCalibration(newValue);
+    if (name === 'facing-mode' && this.session.running) {
+      // The camera is chosen when the stream opens
+      this.stop();
+      this.start().catch(() => {});
+      return;
+    }
+    if (name === 'asset-base') {
+      // The detector reads it when it loads; release it so the next start loads from the new base
+      const running = this.session.running;
+      this.session.dispose();
+      if (running) this.start().catch(() => {});
+    }
+    this.render();
+  }
+
+  start(): Promise<void> {
+    return this.session.start();
+  }
+
+  stop() {
+    this.session.stop();
+  }
+
+  private setHandVisible(hand: Handedness, visible: boolean) {
+    this.visibility = { ...this.visibility, [hand]: visible };
+    this.handEvents = { ...this.handEvents, [hand]: { type: visible ? 'found' : 'lost', id: ++this.handEventId } };
+    this.emit(visible ? 'handfound' : 'handlost', { hand });
+    this.render();
+  }
+
+  private emit(type: string, detail: unknown) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private render() {
+    this.root?.render(
+      <KanaArView
+        session={this.session}
+        visibility={this.visibility}
+        handEvents={this.handEvents}
+        modelUrl={this.modelSrc}
+        calibration={this.calibration}
+        assetBase={this.getAttribute('asset-base') ?? undefined}
+        onModelError={(error) => this.emit('error', { message: error.message })}
+      />
+    );
+  }
+}
+
+export const defineKanaAr = (tagName = 'kana-ar') => {
+  if (!customElements.get(tagName)) customElements.define(tagName, KanaArElement);
+};
@@ -0,0 +1,17 @@
+/**
+ * Library entry: the `<kana-ar>` element (registered on import) plus the
+ * pieces it is built from, for hosts that want their own React tree.
+ */
+import { defineKanaAr } from './KanaArElement';
+
+export { KanaArElement, defineKanaAr } from './KanaArElement';
+export { ARCanvas } from '../components/ARCanvas';
+export type { TrackedHand } from '../components/ARCanvas';
+export { HandTrackingSession } from '../services/handTrackingSession';
+export type { HandTrackingSessionOptions, SessionHand } from '../services/handTrackingSession';
+export { DEFAULT_CALIBRATION, CALIBRATION_LIMITS, sanitizeCalibration } from '../utils/calibration';
+export type { PlacementCalibration } from '../utils/calibration';
+export type { GestureEvent } from '../utils/gestureRecognizer';
+export type { Handedness } from '../types';
+
+defineKanaAr();
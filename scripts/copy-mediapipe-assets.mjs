@@ -0,0 +1,111 @@
+// Copies the MediaPipe wasm runtime and three's Draco decoder from node_modules
+// and the hand landmarker model into public/mediapipe, so all of them are served
+// from the app's own base path instead of a CDN. Runs before `dev` and `build`.
+//
+// The model is not on npm. It is downloaded once into node_modules/.cache and
+// checked against the SHA-256 pinned in hand_landmarker.task.sha256 (written on
+// the first download; commit it). Later runs, including offline ones, reuse the
+// cached copy. Without any copy the script warns and carries on, unless
+// MEDIAPIPE_MODEL_REQUIRED is set (as the deploy build does).
+import { createHash } from 'node:crypto';
+import { cp, mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const scriptDir = dirname(fileURLToPath(import.meta.url));
+const root = join(scriptDir, '..');
+const outDir = join(root, 'public', 'mediapipe');
+const wasmSrc = join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const dracoSrc = join(root, 'node_modules', 'three', 'examples', 'jsm', 'libs', 'draco');
+// What DRACOLoader fetches: the wasm decoder with its wrapper, and the asm.js fallback
+const dracoFiles = ['draco_decoder.wasm', 'draco_wasm_wrapper.js', 'draco_decoder.js'];
+const modelPath = join(outDir, 'hand_landmarker.task');
+const cachePath = join(root, 'node_modules', '.cache', 'kana-ar', 'hand_landmarker.task');
+const pinPath = join(scriptDir, 'hand_landmarker.task.sha256');
+const modelUrl =
+  process.env.MEDIAPIPE_MODEL_URL ??
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const modelRequired = !!process.env.MEDIAPIPE_MODEL_REQUIRED;
+
+const exists = async (path) => {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const sha256 = (data) => createHash('sha256').update(data).digest('hex');
+
+const readPinnedHash = async () =>
+  process.env.MEDIAPIPE_MODEL_SHA256 ?? ((await exists(pinPath)) ? (await readFile(pinPath, 'utf8')).trim() : null);
+
+// The file's contents when it exists and matches the pinned hash (any contents when none is pinned)
+const readVerified = async (path, pinned) => {
+  if (!(await exists(path))) return null;
+  const data = await readFile(path);
+  if (pinned && sha256(data) !== pinned) {
+    console.warn(`[mediapipe] ignoring ${relative(root, path)}: checksum does not match the pinned one`);
+    return null;
+  }
+  return data;
+};
+
+const download = async (pinned) => {
+  console.log(`[mediapipe] downloading model from ${modelUrl}`);
+  let res;
+  try {
+    res = await fetch(modelUrl);
+  } catch (err) {
+    res = { ok: false, status: 0, statusText: err.cause?.code ?? err.message };
+  }
+  if (!res.ok) {
+    console.warn(`[mediapipe] model download failed: ${res.status} ${res.statusText}`);
+    return null;
+  }
+  const data = Buffer.from(await res.arrayBuffer());
+  const hash = sha256(data);
+  if (pinned && hash !== pinned) {
+    console.warn(`[mediapipe] downloaded model has checksum ${hash}, expected ${pinned}; discarding it`);
+    return null;
+  }
+  if (!pinned) {
+    await writeFile(pinPath, `${hash}\n`);
+    console.log(`[mediapipe] pinned model checksum in ${relative(root, pinPath)}; commit it`);
+  }
+  await mkdir(dirname(cachePath), { recursive: true });
+  await writeFile(cachePath, data);
+  return data;
+};
+
+await mkdir(outDir, { recursive: true });
+
+// Always recopy so the wasm matches the installed @mediapipe/tasks-vision version
+await cp(wasmSrc, join(outDir, 'wasm'), { recursive: true });
+console.log(`[mediapipe] wasm copied to ${join('public', 'mediapipe', 'wasm')}`);
+
+// Same for the Draco decoder, matching the installed three version
+await mkdir(join(outDir, 'draco'), { recursive: true });
+for (const file of dracoFiles) {
+  await cp(join(dracoSrc, file), join(outDir, 'draco', file));
+}
+console.log(`[mediapipe] draco decoder copied to ${join('public', 'mediapipe', 'draco')}`);
+
+const pinned = await readPinnedHash();
+if (await readVerified(modelPath, pinned)) {
+  console.log('[mediapipe] model already present');
+} else {
+  const model = (await readVerified(cachePath, pinned)) ?? (await download(pinned));
+  if (model) {
+    await writeFile(modelPath, model);
+    console.log('[mediapipe] model saved');
+  } else {
+    const message = `[mediapipe] no hand_landmarker.task: place it in ${outDir} or set MEDIAPIPE_MODEL_URL`;
+    if (modelRequired) {
+      console.error(message);
+      process.exit(1);
+    }
+    console.warn(`${message}; hand detection will not load until then`);
+  }
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildVideoConstraints,
+  DEFAULT_CAMERA_PREFERENCES,
+  describeTrack,
+  listCameras,
+  loadCameraPreferences,
+  saveCameraPreferences,
+  videoConstraintAttempts,
+} from './cameraDevices';
+
+const PREFERENCES_KEY = 'kana-ar:camera';
+
+// Just what the module reads from a MediaStreamTrack
+const track = (label: string, settings: MediaTrackSettings) => ({ label, getSettings: () => settings }) as MediaStreamTrack;
+
+describe('buildVideoConstraints', () => {
+  it('picks a camera by facing mode when no device is chosen', () => {
+    expect(buildVideoConstraints({ ...DEFAULT_CAMERA_PREFERENCES, facingMode: 'environment', resolution: '1080p', frameRate: 60 })).toEqual({
+      facingMode: 'environment',
+      width: { ideal: 1920 },
+      height: { ideal: 1080 },
+      frameRate: { ideal: 60 },
+    });
+  });
+
+  it('asks for a chosen device exactly, ignoring the facing mode', () => {
+    const constraints = buildVideoConstraints({ ...DEFAULT_CAMERA_PREFERENCES, deviceId: 'cam-2' });
+    expect(constraints.deviceId).toEqual({ exact: 'cam-2' });
+    expect(constraints.facingMode).toBeUndefined();
+  });
+
+  it('falls back to 720p for an unknown resolution', () => {
+    const constraints = buildVideoConstraints({ ...DEFAULT_CAMERA_PREFERENCES, resolution: '4k' });
+    expect(constraints).toMatchObject({ width: { ideal: 1280 }, height: { ideal: 720 } });
+  });
+});
+
+describe('videoConstraintAttempts', () => {
+  it('tries the chosen device, then the facing mode, then any camera', () => {
+    const preferences = { ...DEFAULT_CAMERA_PREFERENCES, deviceId: 'cam-2', facingMode: 'environment' as const };
+    const attempts = videoConstraintAttempts(preferences);
+    expect(attempts).toHaveLength(3);
+    expect(attempts[0]).toMatchObject({ deviceId: { exact: 'cam-2' } });
+    expect(attempts[1]).toEqual(buildVideoConstraints({ ...preferences, deviceId: null }));
+    expect(attempts[2]).toBe(true);
+  });
+
+  it('skips the device attempt when none is chosen', () => {
+    expect(videoConstraintAttempts(DEFAULT_CAMERA_PREFERENCES)).toEqual([buildVideoConstraints(DEFAULT_CAMERA_PREFERENCES), true]);
+  });
+});
+
+describe('camera preferences', () => {
+  let items: Map<string, string>;
+
+  beforeEach(() => {
+    items = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trip through localStorage', () => {
+    const preferences = { deviceId: 'cam-2', facingMode: 'environment' as const, resolution: '480p', frameRate: 24 };
+    saveCameraPreferences(preferences);
+    expect(loadCameraPreferences()).toEqual(preferences);
+  });
+
+  it('default when nothing is stored', () => {
+    expect(loadCameraPreferences()).toEqual(DEFAULT_CAMERA_PREFERENCES);
+  });
+
+  it.each([
+    ['corrupt JSON', '{"deviceId":'],
+    ['a string', '"cam-2"'],
+    ['null', 'null'],
+  ])('default for %s', (_, stored) => {
+    items.set(PREFERENCES_KEY, stored);
+    expect(loadCameraPreferences()).toEqual(DEFAULT_CAMERA_PREFERENCES);
+  });
+
+  it('replace unknown values field by field', () => {
+    items.set(PREFERENCES_KEY, JSON.stringify({ deviceId: 7, facingMode: 'left', resolution: '4k', frameRate: 29.97 }));
+    expect(loadCameraPreferences()).toEqual(DEFAULT_CAMERA_PREFERENCES);
+    items.set(PREFERENCES_KEY, JSON.stringify({ frameRate: 60 }));
+    expect(loadCameraPreferences()).toEqual({ ...DEFAULT_CAMERA_PREFERENCES, frameRate: 60 });
+  });
+});
+
+describe('listCameras', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lists video inputs, naming unlabelled ones', async () => {
+    const devices = [
+      { kind: 'audioinput', deviceId: 'mic', label: 'Microphone' },
+      { kind: 'videoinput', deviceId: 'front', label: 'FaceTime HD' },
+      // Before permission is granted, ids and labels may be empty
+      { kind: 'videoinput', deviceId: '', label: '' },
+      { kind: 'videoinput', deviceId: 'usb', label: '' },
+    ];
+    vi.stubGlobal('navigator', { mediaDevices: { enumerateDevices: async () => devices } });
+    expect(await listCameras()).toEqual([
+      { deviceId: 'front', label: 'FaceTime HD' },
+      { deviceId: 'usb', label: 'Camera 2' },
+    ]);
+  });
+});
+
+describe('describeTrack', () => {
+  it('reports what the browser delivered', () => {
+    const active = describeTrack(track('Back Camera', { deviceId: 'rear', facingMode: 'environment', width: 1280, height: 720, frameRate: 30 }));
+    expect(active).toEqual({ deviceId: 'rear', label: 'Back Camera', facingMode: 'environment', width: 1280, height: 720, frameRate: 30 });
+  });
+
+  it('guesses the facing mode from the label when none is reported', () => {
+    expect(describeTrack(track('USB Rear Camera', {})).facingMode).toBe('environment');
+    expect(describeTrack(track('Integrated Webcam', {})).facingMode).toBe('user');
+  });
+
+  it('prefers the reported facing mode over the label', () => {
+    expect(describeTrack(track('Back Camera', { facingMode: 'user' })).facingMode).toBe('user');
+  });
+
+  it('fills in missing settings', () => {
+    expect(describeTrack(track('', {}))).toEqual({ deviceId: null, label: '', facingMode: 'user', width: 0, height: 0, frameRate: null });
+  });
+});
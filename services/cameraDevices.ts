@@ -0,0 +1,136 @@
+/**
+ * Camera selection: device enumeration, capture constraints and the user's
+ * preferences, remembered in localStorage.
+ */
+
+export type FacingMode = 'user' | 'environment';
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface ResolutionOption {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const RESOLUTIONS: ResolutionOption[] = [
+  { id: '480p', label: '640 × 480', width: 640, height: 480 },
+  { id: '720p', label: '1280 × 720', width: 1280, height: 720 },
+  { id: '1080p', label: '1920 × 1080', width: 1920, height: 1080 },
+];
+
+export const FRAME_RATES = [24, 30, 60];
+
+export interface CameraPreferences {
+  // null picks a camera by facing mode instead of a specific device
+  deviceId: string | null;
+  facingMode: FacingMode;
+  resolution: string;
+  frameRate: number;
+}
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: null,
+  facingMode: 'user',
+  resolution: '720p',
+  frameRate: 30,
+};
+
+// What the browser actually delivered, which may differ from what was asked for
+export interface ActiveCamera {
+  deviceId: string | null;
+  label: string;
+  facingMode: FacingMode;
+  width: number;
+  height: number;
+  frameRate: number | null;
+}
+
+const PREFERENCES_KEY = 'kana-ar:camera';
+
+export const loadCameraPreferences = (): CameraPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : null,
+        facingMode: stored.facingMode === 'environment' ? 'environment' : 'user',
+        resolution: RESOLUTIONS.some((r) => r.id === stored.resolution) ? stored.resolution : DEFAULT_CAMERA_PREFERENCES.resolution,
+        frameRate: FRAME_RATES.includes(stored.frameRate) ? stored.frameRate : DEFAULT_CAMERA_PREFERENCES.frameRate,
+      };
+    }
+  } catch {
+    // Corrupt entry: fall through to the default
+  }
+  return DEFAULT_CAMERA_PREFERENCES;
+};
+
+export const saveCameraPreferences = (preferences: CameraPreferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
+
+/**
+ * Video inputs. Labels are empty until camera permission has been granted,
+ * so call this again once a stream is running.
+ */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+};
+
+/**
+ * Constraints for the preferred camera. A chosen device is requested exactly so
+ * a missing one fails loudly instead of silently opening another camera.
+ */
+export const buildVideoConstraints = (preferences: CameraPreferences): MediaTrackConstraints => {
+  const resolution = RESOLUTIONS.find((r) => r.id === preferences.resolution) ?? RESOLUTIONS[1];
+  return {
+    ...(preferences.deviceId ? { deviceId: { exact: preferences.deviceId } } : { facingMode: preferences.facingMode }),
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height },
+    frameRate: { ideal: preferences.frameRate },
+  };
+};
+
+/**
+ * getUserMedia constraints to try in order: the preferred camera, then by facing
+ * mode if the saved device is gone, then any video device. The last one fixes
+ * "Requested device not found" on devices that don't strictly support
+ * 'user'/'environment'.
+ */
+export const videoConstraintAttempts = (preferences: CameraPreferences): (MediaTrackConstraints | true)[] => [
+  buildVideoConstraints(preferences),
+  ...(preferences.deviceId ? [buildVideoConstraints({ ...preferences, deviceId: null })] : []),
+  true,
+];
+
+const BACK_LABEL = /back|rear|environment|world/i;
+
+/**
+ * Whether the stream faces the user, from what the track reports rather than
+ * what was requested. Desktop webcams usually report no facing mode; those are
+ * assumed to face the user unless their label names a rear camera.
+ */
+export const detectFacingMode = (track: MediaStreamTrack): FacingMode => {
+  const reported = track.getSettings().facingMode;
+  if (reported === 'user' || reported === 'environment') return reported;
+  return BACK_LABEL.test(track.label) ? 'environment' : 'user';
+};
+
+export const describeTrack = (track: MediaStreamTrack): ActiveCamera => {
+  const settings = track.getSettings();
+  return {
+    deviceId: settings.deviceId ?? null,
+    label: track.label,
+    facingMode: detectFacingMode(track),
+    width: settings.width ?? 0,
+    height: settings.height ?? 0,
+    frameRate: settings.frameRate ?? null,
+  };
+};
@@ -0,0 +1,163 @@
+import { coverSourceRect } from '../utils/viewMapping';
+
+/**
+ * Captures the composited AR view: the camera frame (cropped like the
+ * `object-cover` <video> and mirrored for the front camera) with the 3D layer on top.
+ */
+
+// Renders the 3D scene and returns its canvas. Must be drawn from in the same
+// task, since the WebGL canvas is created with preserveDrawingBuffer: false.
+export type RenderSnapshot = () => HTMLCanvasElement;
+
+// Calls `onFrame` right after each regular render of the 3D layer, while its
+// drawing buffer is still valid, and `onEnd` once the canvas goes away.
+// Returns a function that unsubscribes.
+export type SubscribeFrames = (onFrame: (glCanvas: HTMLCanvasElement) => void, onEnd: () => void) => () => void;
+
+// What ARCanvas exposes for capture
+export interface CaptureBridge {
+  renderSnapshot: RenderSnapshot;
+  subscribeFrames: SubscribeFrames;
+}
+
+export interface CaptureSource extends CaptureBridge {
+  video: HTMLVideoElement | null;
+  mirrored: boolean;
+}
+
+// App background (bg-zinc-900), used when there is no camera frame (e.g. replay)
+const BACKGROUND = '#18181b';
+
+/**
+ * Draws the camera frame and an already rendered 3D canvas into `out`, sized to
+ * the 3D canvas' pixel size.
+ */
+const drawLayers = (glCanvas: HTMLCanvasElement, video: HTMLVideoElement | null, mirrored: boolean, out: HTMLCanvasElement) => {
+  const width = glCanvas.width;
+  const height = glCanvas.height;
+  if (out.width !== width) out.width = width;
+  if (out.height !== height) out.height = height;
+
+  const ctx = out.getContext('2d');
+  if (!ctx) throw new Error('2D canvas not available');
+
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+
+  if (video && video.videoWidth > 0 && video.videoHeight > 0) {
+    // Same crop as CSS object-cover
+    const src = coverSourceRect(video, width, height);
+
+    ctx.save();
+    if (mirrored) {
+      ctx.translate(width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, src.x, src.y, src.width, src.height, 0, 0, width, height);
+    ctx.restore();
+  }
+
+  ctx.drawImage(glCanvas, 0, 0, width, height);
+};
+
+/**
+ * Renders the 3D layer on demand and draws one composited frame into `out`.
+ */
+export const drawComposite = ({ video, mirrored, renderSnapshot }: CaptureSource, out: HTMLCanvasElement) => {
+  drawLayers(renderSnapshot(), video, mirrored, out);
+};
+
+export const capturePhoto = (source: CaptureSource): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  drawComposite(source, canvas);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode photo'))), 'image/png')
+  );
+};
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const isClipRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+/**
+ * Records WebM clips by compositing each frame the 3D canvas already renders
+ * into a canvas and feeding its stream to MediaRecorder. Recording ends on its
+ * own when the 3D canvas unmounts; the clip is then handed to `onSourceLost`.
+ */
+export class ClipRecorder {
+  private canvas = document.createElement('canvas');
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private getSource: () => CaptureSource,
+    private onSourceLost?: (clip: Blob) => void,
+    private fps = 30
+  ) {}
+
+  get isRecording() {
+    return this.recorder?.state === 'recording';
+  }
+
+  start() {
+    if (this.isRecording) return;
+
+    // Draw once so the stream has the right size before recording starts
+    const source = this.getSource();
+    drawComposite(source, this.canvas);
+    const stream = this.canvas.captureStream(this.fps);
+    const mimeType = VIDEO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start(250);
+
+    this.unsubscribe = source.subscribeFrames(
+      (glCanvas) => {
+        try {
+          // Camera and mirroring can change mid-clip (e.g. replay ends)
+          const { video, mirrored } = this.getSource();
+          drawLayers(glCanvas, video, mirrored, this.canvas);
+        } catch (err) {
+          console.warn('Clip frame failed:', err);
+        }
+      },
+      () => {
+        this.unsubscribe = null;
+        this.stop().then((clip) => this.onSourceLost?.(clip), (err) => console.warn('Clip could not be finished:', err));
+      }
+    );
+  }
+
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (!recorder) return Promise.reject(new Error('Not recording'));
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+        this.chunks = [];
+      };
+      recorder.stop();
+      this.recorder = null;
+    });
+  }
+}
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
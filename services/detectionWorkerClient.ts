@@ -0,0 +1,148 @@
+import { DetectionResult } from '../types';
+import { Delegate } from './mediapipeLoader';
+import type { WorkerRequest, WorkerResponse } from '../workers/handDetection.worker';
+
+export type DetectionCallback = (result: DetectionResult, timestamp: number, latency: number) => void;
+
+// Model download + wasm compile; past this the worker is treated as dead
+const INIT_TIMEOUT_MS = 30000;
+// A frame taking this long means the worker is stuck (the first GPU frame can take a few seconds)
+const FRAME_TIMEOUT_MS = 5000;
+
+/**
+ * Runs hand detection in a dedicated worker.
+ *
+ * At most one frame is in flight: while the worker is busy, new frames are
+ * dropped instead of queued, so results are never based on stale frames.
+ * Results arrive asynchronously, stamped with the capture time of their frame;
+ * the render side interpolates between them (see utils/poseFilter).
+ *
+ * If the worker crashes or stops answering after init, the client disposes
+ * itself and reports through `onFailure` so the owner can fall back to
+ * main-thread detection.
+ */
+export class DetectionWorkerClient {
+  private worker: Worker;
+  private busy = false;
+  private disposed = false;
+  private ready = false;
+  private frameTimer: ReturnType<typeof setTimeout> | undefined;
+  droppedFrames = 0;
+
+  static isSupported() {
+    return typeof Worker !== 'undefined' && (typeof VideoFrame !== 'undefined' || typeof createImageBitmap !== 'undefined');
+  }
+
+  constructor(private onResult: DetectionCallback, private onFailure?: (error: Error) => void) {
+    this.worker = new Worker(new URL('../workers/handDetection.worker.ts', import.meta.url), { type: 'module' });
+  }
+
+  /**
+   * Loads the model inside the worker from an absolute `assetBase` (see
+   * resolveAssetBase). Resolves with the delegate in use; rejects when the worker
+   * fails to start, reports an error or times out.
+   */
+  init(assetBase: string, numHands = 2): Promise<Delegate> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => fail(new Error(`Detection worker did not load within ${INIT_TIMEOUT_MS / 1000} s`)), INIT_TIMEOUT_MS);
+      // Before ready, failures reject init; afterwards they go to onFailure
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        if (this.ready) {
+          this.handleFailure(error);
+        } else {
+          reject(error);
+        }
+      };
+
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        fail(new Error(event.message || 'Detection worker crashed'));
+      };
+      this.worker.onmessageerror = () => fail(new Error('Detection worker sent an unreadable message'));
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'ready':
+            clearTimeout(timer);
+            this.ready = true;
+            resolve(message.delegate);
+            break;
+          case 'error':
+            fail(new Error(message.message));
+            break;
+          case 'result':
+            this.frameDone();
+            if (!this.disposed) this.onResult(message.result, message.timestamp, message.latency);
+            break;
+          case 'skipped':
+            this.frameDone();
+            break;
+        }
+      };
+      this.post({ type: 'init', assetBase, numHands });
+    });
+  }
+
+  /**
+   * Sends the current video frame for detection. Returns false when the frame
+   * was dropped because the previous one is still being processed.
+   */
+  submit(video: HTMLVideoElement, timestamp: number): boolean {
+    if (this.disposed) return false;
+    if (this.busy) {
+      this.droppedFrames++;
+      return false;
+    }
+    this.busy = true;
+    this.frameTimer = setTimeout(
+      () => this.handleFailure(new Error(`Detection worker did not answer within ${FRAME_TIMEOUT_MS / 1000} s`)),
+      FRAME_TIMEOUT_MS
+    );
+
+    try {
+      if (typeof VideoFrame !== 'undefined') {
+        // VideoFrame timestamps are in microseconds
+        const frame = new VideoFrame(video, { timestamp: Math.round(timestamp * 1000) });
+        this.post({ type: 'frame', frame, timestamp }, [frame]);
+      } else {
+        createImageBitmap(video).then(
+          (frame) => {
+            if (this.disposed) {
+              frame.close();
+              return;
+            }
+            this.post({ type: 'frame', frame, timestamp }, [frame]);
+          },
+          () => this.frameDone()
+        );
+      }
+    } catch (err) {
+      console.warn('Frame capture failed:', err);
+      this.frameDone();
+      return false;
+    }
+    return true;
+  }
+
+  dispose() {
+    this.disposed = true;
+    clearTimeout(this.frameTimer);
+    this.worker.terminate();
+  }
+
+  private frameDone() {
+    this.busy = false;
+    clearTimeout(this.frameTimer);
+  }
+
+  private handleFailure(error: Error) {
+    if (this.disposed) return;
+    this.dispose();
+    this.onFailure?.(error);
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+}
@@ -0,0 +1,33 @@
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { VRMLoaderPlugin } from '@pixiv/three-vrm';
+import { DEFAULT_ASSET_BASE, withTrailingSlash } from './mediapipeLoader';
+
+// The Draco decoder is self-hosted in the `draco/` folder of the asset base, next to
+// the MediaPipe assets (see scripts/copy-mediapipe-assets.mjs). UserModel passes the
+// same path to useGLTF, so anything that validates here also renders there.
+export const dracoDecoderPath = (assetBase = DEFAULT_ASSET_BASE) => `${withTrailingSlash(assetBase)}draco/`;
+
+// One decoder (and its worker pool) per path
+const dracoLoaders = new Map<string, DRACOLoader>();
+
+/**
+ * GLTFLoader configured like drei's useGLTF (Draco + Meshopt), for loading
+ * models outside drei's cache (validation, thumbnails, VRM).
+ */
+export const createGLTFLoader = (decoderPath = dracoDecoderPath()) => {
+  let dracoLoader = dracoLoaders.get(decoderPath);
+  if (!dracoLoader) {
+    dracoLoader = new DRACOLoader().setDecoderPath(decoderPath);
+    dracoLoaders.set(decoderPath, dracoLoader);
+  }
+  return new GLTFLoader().setDRACOLoader(dracoLoader).setMeshoptDecoder(MeshoptDecoder);
+};
+
+/**
+ * GLTFLoader that also builds the VRM (humanoid, expressions, look-at, spring
+ * bones) into `gltf.userData.vrm`.
+ */
+export const createVrmLoader = (decoderPath?: string) =>
+  createGLTFLoader(decoderPath).register((parser) => new VRMLoaderPlugin(parser));
@@ -0,0 +1,106 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { createHandLandmarker, Delegate, resolveAssetBase } from './mediapipeLoader';
+import { DetectionCallback, DetectionWorkerClient } from './detectionWorkerClient';
+
+export interface HandDetectorOptions {
+  // Base URL holding MediaPipe's `wasm/` and `hand_landmarker.task`; relative
+  // URLs resolve against the page
+  assetBase?: string;
+  numHands?: number;
+  // Every detection result. Main-thread results arrive synchronously from submit(),
+  // worker results later, stamped with the capture time of their frame.
+  onResult: DetectionCallback;
+  // The worker failed mid-session and detection moved to the main thread;
+  // `delegate` is null when the main-thread landmarker failed to load as well
+  onFallback?: (delegate: Delegate | null, error: Error) => void;
+}
+
+/**
+ * Hand detection behind one interface for App and HandTrackingSession: in a
+ * worker when supported, with the main-thread landmarker as the fallback, both
+ * at load time and when the worker dies mid-session.
+ */
+export class HandDetector {
+  private worker: DetectionWorkerClient | null = null;
+  private landmarker: HandLandmarker | null = null;
+  private disposed = false;
+  private assetBase: string;
+
+  constructor(private options: HandDetectorOptions) {
+    this.assetBase = resolveAssetBase(options.assetBase);
+  }
+
+  get usesWorker() {
+    return this.worker !== null;
+  }
+
+  get droppedFrames() {
+    return this.worker?.droppedFrames ?? 0;
+  }
+
+  /**
+   * Loads the model. Resolves with the delegate in use. Safe to dispose() while
+   * pending: whatever finishes loading afterwards is released.
+   */
+  async init(): Promise<Delegate> {
+    const { numHands = 2 } = this.options;
+    if (DetectionWorkerClient.isSupported()) {
+      const client = new DetectionWorkerClient(this.options.onResult, (err) => this.handleWorkerFailure(client, err));
+      this.worker = client;
+      try {
+        return await client.init(this.assetBase, numHands);
+      } catch (err) {
+        this.worker = null;
+        client.dispose();
+        if (this.disposed) throw err;
+        console.warn('Detection worker unavailable, using main thread', err);
+      }
+    }
+    return this.loadLandmarker();
+  }
+
+  /**
+   * Detects hands in the current video frame. Worker frames are dropped while the
+   * previous one is still in flight.
+   */
+  submit(video: HTMLVideoElement, timestamp: number) {
+    if (this.worker) {
+      this.worker.submit(video, timestamp);
+    } else if (this.landmarker) {
+      const result = this.landmarker.detectForVideo(video, timestamp);
+      this.options.onResult(result, timestamp, performance.now() - timestamp);
+    }
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.worker?.dispose();
+    this.worker = null;
+    this.landmarker?.close();
+    this.landmarker = null;
+  }
+
+  private async loadLandmarker(): Promise<Delegate> {
+    const loaded = await createHandLandmarker({ assetBase: this.assetBase, numHands: this.options.numHands });
+    if (this.disposed) {
+      loaded.landmarker.close();
+      throw new Error('Hand detector was disposed while loading');
+    }
+    this.landmarker = loaded.landmarker;
+    return loaded.delegate;
+  }
+
+  private handleWorkerFailure(client: DetectionWorkerClient, err: Error) {
+    if (this.worker !== client) return;
+    console.warn('Detection worker failed, switching to main thread', err);
+    this.worker = null;
+    this.loadLandmarker().then(
+      (delegate) => this.options.onFallback?.(delegate, err),
+      (fallbackErr) => {
+        if (this.disposed) return;
+        console.error(fallbackErr);
+        this.options.onFallback?.(null, err);
+      }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { parseRecording, RECORDING_VERSION, ReplaySource } from './handRecording';
+
+const hand = Array.from({ length: 21 }, (_, i) => ({ x: i / 21, y: 0.5, z: 0 }));
+const recording = (frames: unknown[]) => JSON.stringify({ version: RECORDING_VERSION, facingMode: 'user', frames });
+
+describe('parseRecording', () => {
+  it('accepts frames without handedness or world landmarks', () => {
+    const parsed = parseRecording(recording([{ t: 0, landmarks: [hand] }, { t: 33, landmarks: [] }]));
+    expect(parsed.frames).toHaveLength(2);
+    expect(parsed.frames[0].worldLandmarks).toEqual([]);
+    expect(parsed.frames[0].handedness).toEqual([]);
+  });
+
+  it.each([
+    ['invalid JSON', '{', 'Recording is not valid JSON'],
+    ['null', 'null', 'Recording is not an object'],
+    ['a list', '[]', 'Recording is not an object'],
+    ['another version', JSON.stringify({ version: RECORDING_VERSION + 1, frames: [] }), 'Unsupported recording version'],
+    ['no frames', recording([]), 'Recording contains no frames'],
+    ['a null frame', recording([null]), 'Recording frame 0 has no timestamp'],
+    ['a string timestamp', recording([{ t: '0', landmarks: [] }]), 'Recording frame 0 has no timestamp'],
+    ['landmarks that are not a list', recording([{ t: 0, landmarks: {} }]), 'Recording frame 0 is malformed'],
+    ['a frame with a malformed landmark', recording([{ t: 0, landmarks: [[...hand.slice(1), { x: 0, y: 0 }]] }]), 'Recording frame 0 is malformed'],
+    ['a truncated hand', recording([{ t: 0, landmarks: [hand.slice(0, 20)] }]), 'Recording frame 0 is malformed'],
+    ['a truncated world hand', recording([{ t: 0, landmarks: [hand], worldLandmarks: [[]] }]), 'Recording frame 0 is malformed'],
+    ['a frame with a null landmark', recording([{ t: 0, landmarks: [[...hand.slice(1), null]] }]), 'Recording frame 0 is malformed'],
+    ['malformed handedness', recording([{ t: 0, landmarks: [], handedness: [[{ score: 1 }]] }]), 'Recording frame 0 is malformed'],
+  ])('rejects %s with a readable error', (_, json, message) => {
+    expect(() => parseRecording(json)).toThrow(message);
+  });
+
+  it('falls back to defaults for malformed metadata', () => {
+    const parsed = parseRecording(
+      JSON.stringify({
+        version: RECORDING_VERSION,
+        createdAt: 42,
+        facingMode: 'sideways',
+        videoWidth: '1280',
+        videoHeight: -720,
+        frames: [{ t: 0, landmarks: [] }],
+      })
+    );
+    expect(parsed).toMatchObject({ createdAt: '', facingMode: 'user', videoWidth: 0, videoHeight: 0 });
+  });
+
+  it('rejects frames out of timestamp order', () => {
+    expect(() => parseRecording(recording([{ t: 0, landmarks: [] }, { t: 50, landmarks: [] }, { t: 20, landmarks: [] }]))).toThrow(
+      'Recording frame 2 is out of order'
+    );
+  });
+});
+
+describe('ReplaySource', () => {
+  it('returns the last frame at or before the playback time', () => {
+    const parsed = parseRecording(recording([{ t: 0, landmarks: [] }, { t: 100, landmarks: [hand] }, { t: 200, landmarks: [] }]));
+    const source = new ReplaySource(parsed, 0, false);
+    expect(source.frameAt(50)?.landmarks).toHaveLength(0);
+    expect(source.frameAt(150)?.landmarks).toHaveLength(1);
+    // The last frame is shown for one frame interval before the replay ends
+    expect(source.frameAt(250)?.landmarks).toHaveLength(0);
+    expect(source.frameAt(300)).toBeNull();
+  });
+
+  it('loops back to the start', () => {
+    const parsed = parseRecording(recording([{ t: 0, landmarks: [] }, { t: 100, landmarks: [hand] }, { t: 200, landmarks: [] }]));
+    const source = new ReplaySource(parsed, 0);
+    expect(source.frameAt(350)?.landmarks).toHaveLength(0);
+    expect(source.frameAt(450)?.landmarks).toHaveLength(1);
+  });
+
+  it('shows the last frame for one frame interval on every loop', () => {
+    const parsed = parseRecording(recording([{ t: 0, landmarks: [] }, { t: 100, landmarks: [] }, { t: 200, landmarks: [hand] }]));
+    const source = new ReplaySource(parsed, 0);
+    expect(source.duration).toBe(300);
+    for (const pass of [0, 1, 2]) {
+      expect(source.frameAt(pass * 300 + 200)?.landmarks).toHaveLength(1);
+      expect(source.frameAt(pass * 300 + 299)?.landmarks).toHaveLength(1);
+      expect(source.frameAt(pass * 300 + 300)?.landmarks).toHaveLength(0);
+    }
+  });
+
+  it('advances the play index only when a new frame is due, across loops', () => {
+    const parsed = parseRecording(recording([{ t: 0, landmarks: [] }, { t: 100, landmarks: [hand] }, { t: 200, landmarks: [] }]));
+    const source = new ReplaySource(parsed, 0);
+    expect(source.playIndexAt(10)).toBe(source.playIndexAt(90));
+    expect(source.playIndexAt(110)).toBe(1);
+    expect(source.playIndexAt(210)).toBe(2);
+    // The second pass starts with a new index, not the first pass' one
+    expect(source.playIndexAt(310)).toBe(3);
+    expect(source.frameForIndex(4).landmarks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,225 @@
+import { DetectionResult, HandLandmark, HandednessCategory } from '../types';
+import { downloadBlob } from './capture';
+import { HAND_LANDMARK_COUNT } from '../utils/poseSolver';
+import { isObject } from '../utils/validation';
+
+export const RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  // Milliseconds since the start of the recording
+  t: number;
+  landmarks: HandLandmark[][];
+  worldLandmarks: HandLandmark[][];
+  handedness: HandednessCategory[][];
+}
+
+export interface HandRecording {
+  version: number;
+  createdAt: string;
+  // Facing mode of the camera the session was captured with; drives mirroring on replay
+  facingMode: 'user' | 'environment';
+  videoWidth: number;
+  videoHeight: number;
+  frames: RecordedFrame[];
+}
+
+const copyHands = (hands: HandLandmark[][] | undefined): HandLandmark[][] =>
+  (hands ?? []).map((hand) => hand.map(({ x, y, z }) => ({ x, y, z })));
+
+const copyHandedness = (hands: HandednessCategory[][] | undefined): HandednessCategory[][] =>
+  (hands ?? []).map((categories) => categories.map(({ categoryName, score }) => ({ categoryName, score })));
+
+/**
+ * Collects per-frame HandLandmarker output with timestamps.
+ * Frames without hands are kept too so that found/lost timing replays faithfully.
+ */
+export class HandRecorder {
+  private frames: RecordedFrame[] = [];
+  private startTime = 0;
+  private recording = false;
+  private meta: Pick<HandRecording, 'facingMode' | 'videoWidth' | 'videoHeight'> = {
+    facingMode: 'user',
+    videoWidth: 0,
+    videoHeight: 0,
+  };
+
+  get isRecording() {
+    return this.recording;
+  }
+
+  get frameCount() {
+    return this.frames.length;
+  }
+
+  start(meta: Pick<HandRecording, 'facingMode' | 'videoWidth' | 'videoHeight'>, startTime = performance.now()) {
+    this.frames = [];
+    this.meta = meta;
+    this.startTime = startTime;
+    this.recording = true;
+  }
+
+  addFrame(result: DetectionResult, timestamp: number) {
+    if (!this.recording) return;
+    this.frames.push({
+      t: timestamp - this.startTime,
+      landmarks: copyHands(result.landmarks),
+      worldLandmarks: copyHands(result.worldLandmarks),
+      handedness: copyHandedness(result.handedness),
+    });
+  }
+
+  stop(): HandRecording {
+    this.recording = false;
+    const recording: HandRecording = {
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      ...this.meta,
+      frames: this.frames,
+    };
+    this.frames = [];
+    return recording;
+  }
+}
+
+// Every hand has all of MediaPipe's landmarks; consumers index them directly
+const isLandmarkList = (value: unknown): value is HandLandmark[][] =>
+  Array.isArray(value) &&
+  value.every(
+    (hand) =>
+      Array.isArray(hand) &&
+      hand.length === HAND_LANDMARK_COUNT &&
+      hand.every(
+        (p) => isObject(p) && Number.isFinite(p.x) && Number.isFinite(p.y) && Number.isFinite(p.z)
+      )
+  );
+
+const isHandednessList = (value: unknown): value is HandednessCategory[][] =>
+  Array.isArray(value) &&
+  value.every(
+    (categories) =>
+      Array.isArray(categories) &&
+      categories.every((c) => isObject(c) && typeof c.categoryName === 'string' && typeof c.score === 'number')
+  );
+
+// Unknown frame sizes are 0; the view mapping then falls back to 16:9
+const frameSize = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0);
+
+/**
+ * Parses and validates a recording file. Throws with a readable message on malformed input.
+ * Frames must be in recording order, since playback binary-searches their timestamps.
+ */
+export const parseRecording = (json: string): HandRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  if (!isObject(data)) throw new Error('Recording is not an object');
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${data.version}`);
+  }
+  if (!Array.isArray(data.frames) || data.frames.length === 0) {
+    throw new Error('Recording contains no frames');
+  }
+
+  let previousT = -Infinity;
+  const frames = (data.frames as unknown[]).map((frame, i): RecordedFrame => {
+    if (!isObject(frame) || typeof frame.t !== 'number' || !Number.isFinite(frame.t)) {
+      throw new Error(`Recording frame ${i} has no timestamp`);
+    }
+    const { t, landmarks } = frame;
+    const worldLandmarks = frame.worldLandmarks ?? [];
+    // Older recordings may predate handedness
+    const handedness = frame.handedness ?? [];
+    if (!isLandmarkList(landmarks) || !isLandmarkList(worldLandmarks) || !isHandednessList(handedness)) {
+      throw new Error(`Recording frame ${i} is malformed`);
+    }
+    if (t < previousT) {
+      throw new Error(`Recording frame ${i} is out of order (t = ${t} ms after ${previousT} ms)`);
+    }
+    previousT = t;
+    return { t, landmarks, worldLandmarks, handedness };
+  });
+
+  return {
+    version: RECORDING_VERSION,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    facingMode: data.facingMode === 'environment' ? 'environment' : 'user',
+    videoWidth: frameSize(data.videoWidth),
+    videoHeight: frameSize(data.videoHeight),
+    frames,
+  };
+};
+
+export const downloadRecording = (recording: HandRecording, fileName = `hand-session-${Date.now()}.json`) => {
+  downloadBlob(new Blob([JSON.stringify(recording)], { type: 'application/json' }), fileName);
+};
+
+/**
+ * Plays a recording back in real time (looping), standing in for detectForVideo.
+ */
+export class ReplaySource {
+  private startTime: number;
+  // Time from the first frame to the end of the last one, which is shown for one
+  // mean frame interval before the replay wraps or ends
+  readonly duration: number;
+
+  constructor(readonly recording: HandRecording, startTime = performance.now(), readonly loop = true) {
+    this.startTime = startTime;
+    const { frames } = recording;
+    const last = frames[frames.length - 1].t;
+    const interval = frames.length > 1 ? (last - frames[0].t) / (frames.length - 1) : 0;
+    // Keep a non-zero duration so single-frame recordings don't divide by zero
+    this.duration = Math.max(last + interval, 1);
+  }
+
+  get facingMode() {
+    return this.recording.facingMode;
+  }
+
+  restart(startTime = performance.now()) {
+    this.startTime = startTime;
+  }
+
+  /**
+   * Position of the frame shown at `timestamp`, counted across loops, or null once
+   * a non-looping replay has finished. It only changes when a new recorded frame is
+   * due, so callers can skip render frames that would repeat the previous one.
+   */
+  playIndexAt(timestamp: number): number | null {
+    let elapsed = Math.max(timestamp - this.startTime, 0);
+    let pass = 0;
+    if (elapsed >= this.duration) {
+      if (!this.loop) return null;
+      pass = Math.floor(elapsed / this.duration);
+      elapsed %= this.duration;
+    }
+
+    const frames = this.recording.frames;
+    // Binary search for the last frame with t <= elapsed
+    let lo = 0;
+    let hi = frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (frames[mid].t <= elapsed) lo = mid;
+      else hi = mid - 1;
+    }
+    return pass * frames.length + lo;
+  }
+
+  /**
+   * Returns the last recorded frame at or before `timestamp`, or null once a
+   * non-looping replay has finished.
+   */
+  frameAt(timestamp: number): DetectionResult | null {
+    const index = this.playIndexAt(timestamp);
+    return index === null ? null : this.frameForIndex(index);
+  }
+
+  frameForIndex(index: number): DetectionResult {
+    const frame = this.recording.frames[index % this.recording.frames.length];
+    return { landmarks: frame.landmarks, worldLandmarks: frame.worldLandmarks, handedness: frame.handedness };
+  }
+}
@@ -0,0 +1,166 @@
+import { Handedness } from '../types';
+import { HandPoseTracker, TrackedHandPose } from '../utils/handPoseTracker';
+import { GestureEvent } from '../utils/gestureRecognizer';
+import { DEFAULT_CALIBRATION, PlacementCalibration } from '../utils/calibration';
+import { createViewMapping } from '../utils/viewMapping';
+import { Delegate } from './mediapipeLoader';
+import { HandDetector } from './handDetector';
+import { ActiveCamera, buildVideoConstraints, CameraPreferences, DEFAULT_CAMERA_PREFERENCES, describeTrack } from './cameraDevices';
+
+/**
+ * Camera + detection + pose solving without any UI, for embedding (see lib/).
+ *
+ * Writes each hand's pose into refs that ARCanvas reads every frame, and reports
+ * hand found/lost and gestures through callbacks.
+ */
+
+// Per-hand pose refs, shaped for ARCanvas' TrackedHand
+export type SessionHand = TrackedHandPose;
+
+export interface HandTrackingSessionOptions {
+  video: HTMLVideoElement;
+  // Read on every start(), so a restart picks up a new camera choice
+  getCamera?: () => Partial<CameraPreferences>;
+  // Base URL holding MediaPipe's `wasm/` and `hand_landmarker.task`; read when the detector loads
+  getAssetBase?: () => string | undefined;
+  // Read on every detection, so changes apply without restarting
+  getCalibration?: (hand: Handedness) => PlacementCalibration;
+  onHandFound?: (hand: Handedness) => void;
+  onHandLost?: (hand: Handedness) => void;
+  onGesture?: (event: GestureEvent) => void;
+  onCameraStarted?: (camera: ActiveCamera) => void;
+  onError?: (error: Error) => void;
+}
+
+const toError = (err: unknown) => (err instanceof Error ? err : new Error(String(err)));
+
+export class HandTrackingSession {
+  private tracker: HandPoseTracker;
+  private detector: HandDetector | null = null;
+  private delegatePromise: Promise<Delegate> | null = null;
+  private stream: MediaStream | null = null;
+  private frame = 0;
+  private mirrored = true;
+  private runId = 0;
+
+  constructor(private options: HandTrackingSessionOptions) {
+    this.tracker = new HandPoseTracker({
+      getCalibration: (hand) => this.options.getCalibration?.(hand) ?? DEFAULT_CALIBRATION,
+      onHandFound: (hand) => this.options.onHandFound?.(hand),
+      onHandLost: (hand) => this.options.onHandLost?.(hand),
+      onGesture: (event) => this.options.onGesture?.(event),
+    });
+  }
+
+  get hands(): Record<Handedness, SessionHand> {
+    return this.tracker.hands;
+  }
+
+  get running() {
+    return this.stream !== null;
+  }
+
+  /**
+   * Loads the detector (once) and opens the camera. Safe to call again after stop().
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    const runId = ++this.runId;
+    try {
+      await this.loadDetector();
+      const stream = await this.openCamera();
+      // stop() was called while we were waiting
+      if (runId !== this.runId) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      this.stream = stream;
+
+      const active = describeTrack(stream.getVideoTracks()[0]);
+      this.mirrored = active.facingMode === 'user';
+      this.options.onCameraStarted?.(active);
+
+      const { video } = this.options;
+      video.srcObject = stream;
+      video.muted = true;
+      video.playsInline = true;
+      await video.play();
+      this.loop();
+    } catch (err) {
+      const error = toError(err);
+      this.options.onError?.(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the camera and the detection loop. The detector stays loaded for a restart.
+   */
+  stop() {
+    this.runId++;
+    cancelAnimationFrame(this.frame);
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.options.video.srcObject = null;
+    this.tracker.loseAll(performance.now());
+  }
+
+  /**
+   * Stops and releases the detector; a later start() loads it again.
+   */
+  dispose() {
+    this.stop();
+    this.detector?.dispose();
+    this.detector = null;
+    this.delegatePromise = null;
+  }
+
+  private loadDetector() {
+    if (this.delegatePromise) return this.delegatePromise;
+
+    const detector = new HandDetector({
+      assetBase: this.options.getAssetBase?.(),
+      onResult: (result, timestamp) => {
+        // Late worker results after stop()
+        if (!this.running) return;
+        const { video } = this.options;
+        this.tracker.process(result, timestamp, createViewMapping(video, video, this.mirrored));
+      },
+      onFallback: (delegate, error) => {
+        if (!delegate) this.options.onError?.(error);
+      },
+    });
+    this.detector = detector;
+    this.delegatePromise = detector.init();
+    this.delegatePromise.catch(() => {
+      // Let the next start() try again
+      if (this.detector !== detector) return;
+      detector.dispose();
+      this.detector = null;
+      this.delegatePromise = null;
+    });
+    return this.delegatePromise;
+  }
+
+  private async openCamera() {
+    const preferences = { ...DEFAULT_CAMERA_PREFERENCES, ...this.options.getCamera?.() };
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(preferences) });
+    } catch (err) {
+      console.warn('Preferred camera unavailable, using any camera', err);
+      return navigator.mediaDevices.getUserMedia({ video: true });
+    }
+  }
+
+  private loop = () => {
+    const { video } = this.options;
+    try {
+      if (video.videoWidth > 0 && video.videoHeight > 0 && video.currentTime > 0) {
+        this.detector?.submit(video, performance.now());
+      }
+    } catch (err) {
+      console.warn('Detection error:', err);
+    }
+    this.frame = requestAnimationFrame(this.loop);
+  };
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ENV_HEIGHT,
+  ENV_WIDTH,
+  estimateTemperature,
+  INTENSITY_RANGE,
+  LightingEstimator,
+  NEUTRAL_TEMPERATURE,
+  temperatureToRgb,
+  TEMPERATURE_RANGE,
+} from './lightingEstimator';
+
+// The estimator's downscaled sample
+const WIDTH = 32;
+const HEIGHT = 18;
+
+type Rgb = [number, number, number];
+
+describe('estimateTemperature', () => {
+  it('puts white near daylight', () => {
+    expect(estimateTemperature(1, 1, 1)).toBeCloseTo(NEUTRAL_TEMPERATURE, -2);
+  });
+
+  it('is lower for warm light and higher for cool light', () => {
+    expect(estimateTemperature(1, 0.6, 0.3)).toBeLessThan(4000);
+    expect(estimateTemperature(0.7, 0.8, 1)).toBeGreaterThan(8000);
+  });
+
+  it('clamps to the supported range', () => {
+    expect(estimateTemperature(1, 0.1, 0)).toBe(TEMPERATURE_RANGE[0]);
+    expect(estimateTemperature(0.4, 0.6, 1)).toBe(TEMPERATURE_RANGE[1]);
+  });
+
+  it('is neutral for black', () => {
+    expect(estimateTemperature(0, 0, 0)).toBe(NEUTRAL_TEMPERATURE);
+  });
+
+  it('round-trips the black body colors it is fed', () => {
+    for (const kelvin of [3000, 5000, 6500]) {
+      const { r, g, b } = temperatureToRgb(kelvin, { r: 0, g: 0, b: 0 });
+      expect(Math.abs(estimateTemperature(r, g, b) - kelvin)).toBeLessThan(kelvin * 0.1);
+    }
+  });
+});
+
+describe('temperatureToRgb', () => {
+  it('keeps every channel in [0, 1]', () => {
+    for (const kelvin of [1000, 2500, 6600, 9000, 40000]) {
+      const rgb = temperatureToRgb(kelvin, { r: 0, g: 0, b: 0 });
+      for (const channel of [rgb.r, rgb.g, rgb.b]) {
+        expect(channel).toBeGreaterThanOrEqual(0);
+        expect(channel).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it('is red-heavy when warm and blue-heavy when cool', () => {
+    const warm = temperatureToRgb(2500, { r: 0, g: 0, b: 0 });
+    const cool = temperatureToRgb(9000, { r: 0, g: 0, b: 0 });
+    expect(warm.r).toBe(1);
+    expect(warm.b).toBeLessThan(0.2);
+    expect(cool.b).toBe(1);
+    expect(cool.r).toBeLessThan(1);
+  });
+});
+
+describe('LightingEstimator.sample', () => {
+  // What the estimator reads back from its canvas, in sRGB bytes
+  let frame: (x: number, y: number) => Rgb;
+  let drawn: number[];
+
+  beforeEach(() => {
+    frame = () => [128, 128, 128];
+    const context = {
+      drawImage: (...args: unknown[]) => {
+        drawn = args.slice(1) as number[];
+      },
+      getImageData: () => {
+        const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+        for (let y = 0; y < HEIGHT; y++) {
+          for (let x = 0; x < WIDTH; x++) data.set([...frame(x, y), 255], (y * WIDTH + x) * 4);
+        }
+        return { data };
+      },
+    };
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => context }) });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const video = (videoWidth = 1280, videoHeight = 720) => ({ videoWidth, videoHeight }) as HTMLVideoElement;
+
+  it('returns nothing until the video has a frame or the view has a size', () => {
+    const estimator = new LightingEstimator();
+    expect(estimator.sample(video(0, 0), 800, 600, false)).toBeNull();
+    expect(estimator.sample(video(), 0, 600, false)).toBeNull();
+  });
+
+  it('samples only the part of the frame the view shows', () => {
+    new LightingEstimator().sample(video(1280, 720), 400, 400, false);
+    // A square view of a 16:9 frame crops the sides
+    expect(drawn.slice(0, 4)).toEqual([280, 0, 720, 720]);
+  });
+
+  it('rates middle gray as the designed brightness', () => {
+    // sRGB 118 is ~18% linear
+    frame = () => [118, 118, 118];
+    const estimate = new LightingEstimator().sample(video(), 1280, 720, false);
+    expect(estimate?.intensity).toBeCloseTo(1, 1);
+    expect(estimate?.temperature).toBeCloseTo(NEUTRAL_TEMPERATURE, -2);
+  });
+
+  it('clamps the brightness of very dark and very bright rooms', () => {
+    const estimator = new LightingEstimator();
+    frame = () => [0, 0, 0];
+    expect(estimator.sample(video(), 1280, 720, false)?.intensity).toBe(INTENSITY_RANGE[0]);
+    frame = () => [255, 255, 255];
+    expect(estimator.sample(video(), 1280, 720, false)?.intensity).toBe(INTENSITY_RANGE[1]);
+  });
+
+  it('sees flat lighting as coming from the front', () => {
+    const estimate = new LightingEstimator().sample(video(), 1280, 720, false)!;
+    const [dx, dy, dz] = estimate.direction;
+    expect(Math.abs(dx) + Math.abs(dy)).toBe(0);
+    expect(dz).toBe(1);
+    expect(estimate.directionality).toBe(0);
+  });
+
+  it('points towards the bright side, flipped when mirrored', () => {
+    // Bright top right quarter
+    frame = (x, y) => (x >= WIDTH / 2 && y < HEIGHT / 2 ? [255, 255, 255] : [20, 20, 20]);
+    const estimator = new LightingEstimator();
+    const estimate = estimator.sample(video(), 1280, 720, false)!;
+    const [dx, dy, dz] = estimate.direction;
+    expect(dx).toBeGreaterThan(0);
+    expect(dy).toBeGreaterThan(0);
+    expect(dz).toBeGreaterThan(0);
+    expect(Math.hypot(dx, dy, dz)).toBeCloseTo(1);
+    expect(estimate.directionality).toBe(1);
+
+    const mirrored = estimator.sample(video(), 1280, 720, true)!;
+    expect(mirrored.direction[0]).toBeCloseTo(-dx);
+    expect(mirrored.direction[1]).toBeCloseTo(dy);
+    expect(mirrored.version).toBe(estimate.version + 1);
+  });
+
+  it('wraps the frame into an opaque environment without a seam', () => {
+    frame = (x) => [x * 8, 0, 0];
+    const { environment } = new LightingEstimator().sample(video(), 1280, 720, false)!;
+    expect(environment).toHaveLength(ENV_WIDTH * ENV_HEIGHT * 4);
+    const red = (x: number) => environment[x * 4];
+    // Left edge of the frame at both ends of the longitude, right edge in the middle
+    expect(red(0)).toBe(0);
+    expect(red(ENV_WIDTH - 1)).toBeLessThanOrEqual(8);
+    expect(red(ENV_WIDTH / 2)).toBe((WIDTH - 1) * 8);
+    expect(environment[3]).toBe(255);
+  });
+});
@@ -0,0 +1,187 @@
+import { coverSourceRect } from '../utils/viewMapping';
+
+/**
+ * Estimates real-world lighting from the camera feed, so models look dim in a
+ * dark room and warm under tungsten light.
+ *
+ * Each sample draws the visible part of the frame into a tiny canvas and
+ * derives overall brightness, color temperature and where the brightest light
+ * comes from. These are rough cues — the camera's auto exposure and white
+ * balance already flatten much of the real range — meant to modulate the
+ * designed rig, not replace it.
+ */
+
+export const ESTIMATE_INTERVAL_MS = 500;
+
+// Downscaled sample of the frame; small enough to read back every interval
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 18;
+
+// Equirectangular environment built from the sample
+export const ENV_WIDTH = 64;
+export const ENV_HEIGHT = 32;
+
+// Linear luminance of a typical indoor scene (middle gray); maps to intensity 1
+const REFERENCE_LUMINANCE = 0.18;
+export const INTENSITY_RANGE = [0.3, 2] as const;
+export const TEMPERATURE_RANGE = [2500, 9000] as const;
+// Color temperature the rig's colors are designed for (daylight white)
+export const NEUTRAL_TEMPERATURE = 6500;
+
+export interface LightEstimate {
+  // Scene brightness relative to REFERENCE_LUMINANCE; 1 = the rig as designed
+  intensity: number;
+  // Correlated color temperature, in kelvin
+  temperature: number;
+  // Unit vector towards the dominant light, in scene space (x right, y up, z towards the viewer)
+  direction: [number, number, number];
+  // 0 for flat lighting, 1 for a clear bright side
+  directionality: number;
+  // ENV_WIDTH × ENV_HEIGHT RGBA equirect wrapped from the frame
+  environment: Uint8Array;
+  // Increments with every sample
+  version: number;
+}
+
+const srgbToLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+
+const clamp = (value: number, [min, max]: readonly [number, number]) => Math.min(max, Math.max(min, value));
+
+/**
+ * Correlated color temperature of a linear sRGB color (McCamy's approximation
+ * from CIE xy chromaticity).
+ */
+export const estimateTemperature = (r: number, g: number, b: number) => {
+  const X = 0.4124 * r + 0.3576 * g + 0.1805 * b;
+  const Y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const Z = 0.0193 * r + 0.1192 * g + 0.9505 * b;
+  const sum = X + Y + Z;
+  if (sum <= 0) return NEUTRAL_TEMPERATURE;
+  const x = X / sum;
+  const y = Y / sum;
+  const n = (x - 0.332) / (0.1858 - y);
+  return clamp(449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33, TEMPERATURE_RANGE);
+};
+
+/**
+ * Approximate linear RGB of a black body at `kelvin` (Tanner Helland's fit),
+ * each channel in [0, 1].
+ */
+export const temperatureToRgb = (kelvin: number, target: { r: number; g: number; b: number }) => {
+  const t = kelvin / 100;
+  const r = t <= 66 ? 255 : 329.698727446 * (t - 60) ** -0.1332047592;
+  const g = t <= 66 ? 99.4708025861 * Math.log(t) - 161.1195681661 : 288.1221695283 * (t - 60) ** -0.0755148492;
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  target.r = srgbToLinear(clamp(r, [0, 255]) / 255);
+  target.g = srgbToLinear(clamp(g, [0, 255]) / 255);
+  target.b = srgbToLinear(clamp(b, [0, 255]) / 255);
+  return target;
+};
+
+export class LightingEstimator {
+  private canvas = document.createElement('canvas');
+  private context: CanvasRenderingContext2D | null;
+  private version = 0;
+
+  constructor() {
+    this.canvas.width = SAMPLE_WIDTH;
+    this.canvas.height = SAMPLE_HEIGHT;
+    this.context = this.canvas.getContext('2d', { willReadFrequently: true });
+  }
+
+  /**
+   * Samples the part of `video` visible in a `viewWidth` × `viewHeight` box.
+   * `mirrored` flips directions to match the mirrored preview. Returns null
+   * until the video has a frame.
+   */
+  sample(video: HTMLVideoElement, viewWidth: number, viewHeight: number, mirrored: boolean): LightEstimate | null {
+    const context = this.context;
+    if (!context || video.videoWidth === 0 || video.videoHeight === 0 || viewWidth <= 0 || viewHeight <= 0) return null;
+
+    const crop = coverSourceRect(video, viewWidth, viewHeight);
+    context.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const pixels = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data;
+
+    // Mean linear color and luminance
+    const count = SAMPLE_WIDTH * SAMPLE_HEIGHT;
+    const luminance = new Float32Array(count);
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let meanLuminance = 0;
+    for (let i = 0; i < count; i++) {
+      const lr = srgbToLinear(pixels[i * 4] / 255);
+      const lg = srgbToLinear(pixels[i * 4 + 1] / 255);
+      const lb = srgbToLinear(pixels[i * 4 + 2] / 255);
+      r += lr;
+      g += lg;
+      b += lb;
+      luminance[i] = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+      meanLuminance += luminance[i];
+    }
+    r /= count;
+    g /= count;
+    b /= count;
+    meanLuminance /= count;
+
+    // Centroid of the above-average light, relative to the center of the view
+    let weightSum = 0;
+    let cx = 0;
+    let cy = 0;
+    for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+      for (let x = 0; x < SAMPLE_WIDTH; x++) {
+        const weight = Math.max(0, luminance[y * SAMPLE_WIDTH + x] - meanLuminance);
+        weightSum += weight;
+        cx += weight * ((x + 0.5) / SAMPLE_WIDTH - 0.5);
+        cy += weight * ((y + 0.5) / SAMPLE_HEIGHT - 0.5);
+      }
+    }
+    if (weightSum > 0) {
+      cx /= weightSum;
+      cy /= weightSum;
+    }
+    // A bright side in the preview lights the model from that side; z stays
+    // positive since the lit face of the scene is the one the camera sees
+    const dx = (mirrored ? -cx : cx) * 2;
+    const dy = -cy * 2;
+    const length = Math.hypot(dx, dy, 1);
+
+    return {
+      intensity: clamp(meanLuminance / REFERENCE_LUMINANCE, INTENSITY_RANGE),
+      temperature: estimateTemperature(r, g, b),
+      direction: [dx / length, dy / length, 1 / length],
+      // An offset of a quarter view from the center counts as fully directional
+      directionality: Math.min(1, Math.hypot(cx, cy) / 0.25),
+      environment: this.wrapEnvironment(pixels, mirrored),
+      version: ++this.version,
+    };
+  }
+
+  /**
+   * Wraps the sample around the sphere: the frame across the half behind the
+   * model (-Z) and mirrored across the half facing it, so reflections pick up
+   * the room's colors without a seam. Far from a real light probe, but it
+   * grounds shiny materials.
+   */
+  private wrapEnvironment(pixels: Uint8ClampedArray, mirrored: boolean) {
+    const environment = new Uint8Array(ENV_WIDTH * ENV_HEIGHT * 4);
+    for (let y = 0; y < ENV_HEIGHT; y++) {
+      // DataTexture rows start at the bottom
+      const sy = Math.min(SAMPLE_HEIGHT - 1, Math.floor(((ENV_HEIGHT - 1 - y) / ENV_HEIGHT) * SAMPLE_HEIGHT));
+      for (let x = 0; x < ENV_WIDTH; x++) {
+        // Triangle wave over longitude (u = 0 is -X, 0.25 is -Z, 0.75 is +Z): sample 0 → 1 → 0
+        const u = x / ENV_WIDTH;
+        let s = u < 0.5 ? u * 2 : 2 - u * 2;
+        if (mirrored) s = 1 - s;
+        const sx = Math.min(SAMPLE_WIDTH - 1, Math.floor(s * SAMPLE_WIDTH));
+        const from = (sy * SAMPLE_WIDTH + sx) * 4;
+        const to = (y * ENV_WIDTH + x) * 4;
+        environment[to] = pixels[from];
+        environment[to + 1] = pixels[from + 1];
+        environment[to + 2] = pixels[from + 2];
+        environment[to + 3] = 255;
+      }
+    }
+    return environment;
+  }
+}
@@ -0,0 +1,68 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+export type Delegate = 'GPU' | 'CPU';
+
+export interface LoadedHandLandmarker {
+  landmarker: HandLandmarker;
+  // The delegate that actually initialized, which may differ from the preferred one
+  delegate: Delegate;
+}
+
+export interface HandLandmarkerOptions {
+  // Base URL holding `wasm/` and `hand_landmarker.task`
+  assetBase?: string;
+  numHands?: number;
+  preferredDelegate?: Delegate;
+  runningMode?: 'VIDEO' | 'IMAGE';
+}
+
+export const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+/**
+ * Where the self-hosted MediaPipe assets live. Overridable at build time with
+ * VITE_MEDIAPIPE_ASSET_BASE (e.g. to point at a separate static host).
+ */
+export const DEFAULT_ASSET_BASE = withTrailingSlash(
+  import.meta.env.VITE_MEDIAPIPE_ASSET_BASE || `${import.meta.env.BASE_URL}mediapipe/`
+);
+
+/**
+ * Resolves an asset base against the page, on the main thread. Workers resolve
+ * relative URLs against their own script URL, so they must only be sent absolute ones.
+ */
+export const resolveAssetBase = (base = DEFAULT_ASSET_BASE) => withTrailingSlash(new URL(base, document.baseURI).href);
+
+/**
+ * Creates a HandLandmarker from self-hosted assets. If the GPU delegate cannot be
+ * created (no WebGL2, blocked context, driver bugs), retries once on the CPU.
+ */
+export const createHandLandmarker = async ({
+  assetBase = DEFAULT_ASSET_BASE,
+  numHands = 2,
+  preferredDelegate = 'GPU',
+  runningMode = 'VIDEO',
+}: HandLandmarkerOptions = {}): Promise<LoadedHandLandmarker> => {
+  const base = withTrailingSlash(assetBase);
+  const vision = await FilesetResolver.forVisionTasks(`${base}wasm`);
+
+  const create = (delegate: Delegate) =>
+    HandLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetPath: `${base}hand_landmarker.task`,
+        delegate,
+      },
+      runningMode,
+      numHands,
+      minHandDetectionConfidence: 0.5,
+      minHandPresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+
+  try {
+    return { landmarker: await create(preferredDelegate), delegate: preferredDelegate };
+  } catch (err) {
+    if (preferredDelegate === 'CPU') throw err;
+    console.warn('GPU delegate failed, falling back to CPU', err);
+    return { landmarker: await create('CPU'), delegate: 'CPU' };
+  }
+};
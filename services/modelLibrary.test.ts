@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CALIBRATION } from '../utils/calibration';
+import { loadBuiltinCalibration, saveBuiltinCalibration } from './modelLibrary';
+
+const BUILTIN_CALIBRATION_KEY = 'kana-ar:builtin-calibration';
+
+// Minimal in-memory localStorage
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, String(value)),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+describe('built-in calibration storage', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips a saved calibration', () => {
+    const calibration = { ...DEFAULT_CALIBRATION, offset: [0, 0.5, 0] as [number, number, number], scale: 2, orientationMode: 'palm' as const };
+    saveBuiltinCalibration(calibration);
+    expect(loadBuiltinCalibration()).toEqual(calibration);
+  });
+
+  it('forgets the calibration when it is reset', () => {
+    saveBuiltinCalibration(DEFAULT_CALIBRATION);
+    saveBuiltinCalibration(undefined);
+    expect(storage.getItem(BUILTIN_CALIBRATION_KEY)).toBeNull();
+    expect(loadBuiltinCalibration()).toBeUndefined();
+  });
+
+  it('sanitizes what it reads back', () => {
+    storage.setItem(BUILTIN_CALIBRATION_KEY, JSON.stringify({ scale: 99, yaw: 'left' }));
+    expect(loadBuiltinCalibration()).toEqual({ ...DEFAULT_CALIBRATION, scale: 3 });
+  });
+
+  it('ignores a corrupt entry', () => {
+    storage.setItem(BUILTIN_CALIBRATION_KEY, '{"scale":');
+    expect(loadBuiltinCalibration()).toBeUndefined();
+  });
+
+  it('ignores storage that cannot be read', () => {
+    vi.stubGlobal('localStorage', {
+      getItem: () => {
+        throw new Error('SecurityError');
+      },
+    });
+    expect(loadBuiltinCalibration()).toBeUndefined();
+  });
+});
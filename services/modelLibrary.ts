@@ -0,0 +1,154 @@
+import { Handedness } from '../types';
+import { sanitizeSmoothing, SmoothingConfig } from '../utils/poseFilter';
+import { PlacementCalibration, sanitizeCalibration } from '../utils/calibration';
+import { renderThumbnail } from './thumbnailRenderer';
+import { ModelFormat } from './modelValidation';
+
+/**
+ * Uploaded models persisted in IndexedDB, plus the per-hand selection in localStorage.
+ */
+
+export interface ModelRecord {
+  id: string;
+  name: string;
+  size: number;
+  // Epoch ms
+  uploadedAt: number;
+  blob: Blob;
+  thumbnail: Blob | null;
+  // Per-model tuning of the pose filter; falls back to DEFAULT_SMOOTHING
+  smoothing?: SmoothingConfig;
+  calibration?: PlacementCalibration;
+  // Where a model from a shared scene was downloaded from; uploads have none
+  sourceUrl?: string;
+  // Absent on records stored before VRM support, which are all plain glTF
+  format?: ModelFormat;
+}
+
+// null selects the built-in CyberpunkRabbit
+export type ModelSelection = Record<Handedness, string | null>;
+
+const DB_NAME = 'kana-ar';
+const DB_VERSION = 1;
+const STORE = 'models';
+const SELECTION_KEY = 'kana-ar:model-selection';
+const BUILTIN_CALIBRATION_KEY = 'kana-ar:builtin-calibration';
+const BUILTIN_SMOOTHING_KEY = 'kana-ar:builtin-smoothing';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listModels = async (): Promise<ModelRecord[]> => {
+  const records = await run<ModelRecord[]>('readonly', (store) => store.getAll());
+  return records.sort((a, b) => a.uploadedAt - b.uploadedAt);
+};
+
+export type ModelDetails = Pick<ModelRecord, 'sourceUrl' | 'calibration' | 'format'>;
+
+export const saveModel = async (file: File, details: ModelDetails = {}): Promise<ModelRecord> => {
+  const record: ModelRecord = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    size: file.size,
+    uploadedAt: Date.now(),
+    blob: file,
+    thumbnail: await renderThumbnail(file),
+    ...details,
+  };
+  await run('readwrite', (store) => store.put(record));
+  return record;
+};
+
+export const updateModel = async (id: string, changes: Partial<Omit<ModelRecord, 'id'>>): Promise<ModelRecord> => {
+  const existing = await run<ModelRecord | undefined>('readonly', (store) => store.get(id));
+  if (!existing) throw new Error(`Model ${id} not found`);
+  const updated = { ...existing, ...changes };
+  await run('readwrite', (store) => store.put(updated));
+  return updated;
+};
+
+export const deleteModel = (id: string) => run('readwrite', (store) => store.delete(id));
+
+export const loadSelection = (): ModelSelection => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SELECTION_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        Left: typeof stored.Left === 'string' ? stored.Left : null,
+        Right: typeof stored.Right === 'string' ? stored.Right : null,
+      };
+    }
+  } catch {
+    // Corrupt entry: fall through to the default
+  }
+  return { Left: null, Right: null };
+};
+
+export const saveSelection = (selection: ModelSelection) => {
+  localStorage.setItem(SELECTION_KEY, JSON.stringify(selection));
+};
+
+// The built-in rabbit has no library record, so its calibration lives in localStorage
+export const loadBuiltinCalibration = (): PlacementCalibration | undefined => {
+  try {
+    const stored = localStorage.getItem(BUILTIN_CALIBRATION_KEY);
+    return stored ? sanitizeCalibration(JSON.parse(stored)) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveBuiltinCalibration = (calibration: PlacementCalibration | undefined) => {
+  if (calibration) {
+    localStorage.setItem(BUILTIN_CALIBRATION_KEY, JSON.stringify(calibration));
+  } else {
+    localStorage.removeItem(BUILTIN_CALIBRATION_KEY);
+  }
+};
+
+export const loadBuiltinSmoothing = (): SmoothingConfig | undefined => {
+  try {
+    const stored = localStorage.getItem(BUILTIN_SMOOTHING_KEY);
+    return stored ? sanitizeSmoothing(JSON.parse(stored)) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveBuiltinSmoothing = (smoothing: SmoothingConfig | undefined) => {
+  if (smoothing) {
+    localStorage.setItem(BUILTIN_SMOOTHING_KEY, JSON.stringify(smoothing));
+  } else {
+    localStorage.removeItem(BUILTIN_SMOOTHING_KEY);
+  }
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { MAX_FILE_BYTES, measureModel, validateModelFile } from './modelValidation';
+
+// One triangle; binary files carry its positions in the GLB's BIN chunk
+const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+const triangleBuffer = `data:application/octet-stream;base64,${Buffer.from(positions.buffer).toString('base64')}`;
+
+const gltf = (fields: Record<string, unknown> = {}) => ({
+  asset: { version: '2.0' },
+  scene: 0,
+  scenes: [{ nodes: [0] }],
+  nodes: [{ mesh: 0 }],
+  meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+  accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }],
+  bufferViews: [{ buffer: 0, byteLength: positions.byteLength }],
+  buffers: [{ byteLength: positions.byteLength }],
+  ...fields,
+});
+
+// Chunks are padded to 4 bytes: JSON with spaces, BIN with zeros
+const chunk = (type: number, data: Uint8Array, pad: number) => {
+  const length = Math.ceil(data.byteLength / 4) * 4;
+  const bytes = new Uint8Array(8 + length).fill(pad, 8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, length, true);
+  view.setUint32(4, type, true);
+  bytes.set(data, 8);
+  return bytes;
+};
+
+const glb = (json: unknown) => {
+  const jsonChunk = chunk(0x4e4f534a, new TextEncoder().encode(JSON.stringify(json)), 0x20);
+  const binChunk = chunk(0x004e4942, new Uint8Array(positions.buffer), 0);
+  const header = new DataView(new ArrayBuffer(12));
+  header.setUint32(0, 0x46546c67, true);
+  header.setUint32(4, 2, true);
+  header.setUint32(8, 12 + jsonChunk.byteLength + binChunk.byteLength, true);
+  return new Uint8Array([...new Uint8Array(header.buffer), ...jsonChunk, ...binChunk]);
+};
+
+const file = (name: string, contents: BlobPart) => new File([contents], name);
+
+const jsonFile = (name: string, json: unknown) => file(name, JSON.stringify(json));
+
+describe('validateModelFile', () => {
+  it('accepts a small model and reports its stats', async () => {
+    const result = await validateModelFile(file('tri.glb', glb(gltf())));
+    expect(result).toEqual({ errors: [], warnings: [], stats: { triangles: 1, textureBytes: 0 }, format: 'gltf' });
+  });
+
+  it('tells VRM models apart by their root extension', async () => {
+    const result = await validateModelFile(file('avatar.vrm', glb(gltf({ extensionsUsed: ['VRMC_vrm'] }))));
+    expect(result.errors).toEqual([]);
+    expect(result.format).toBe('vrm');
+  });
+
+  it('rejects .vrm files without VRM data', async () => {
+    const result = await validateModelFile(file('avatar.vrm', glb(gltf())));
+    expect(result.errors).toEqual(['File has a .vrm extension but no VRM data.']);
+  });
+
+  it('rejects models without meshes', async () => {
+    const result = await validateModelFile(jsonFile('empty.gltf', { asset: { version: '2.0' }, scenes: [{ nodes: [] }], scene: 0 }));
+    expect(result.errors).toEqual(['Model contains no meshes.']);
+  });
+
+  it.each([
+    ['an unsupported extension', file('rabbit.obj', 'o Rabbit'), 'Only .glb, .gltf and .vrm files are supported.'],
+    ['a binary file without the glTF header', file('rabbit.glb', 'not a glb at all'), 'missing "glTF" header'],
+    ['a truncated binary file', file('rabbit.glb', 'glTF'), 'missing "glTF" header'],
+    ['invalid JSON', file('rabbit.gltf', '{"asset":'), 'File is not valid glTF JSON.'],
+    ['JSON that is not an object', jsonFile('rabbit.gltf', [1, 2]), 'missing the glTF "asset.version" field'],
+    ['a missing asset version', jsonFile('rabbit.gltf', { asset: {} }), 'missing the glTF "asset.version" field'],
+  ])('rejects %s', async (_, input, message) => {
+    const result = await validateModelFile(input);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain(message);
+    expect(result.stats).toBeNull();
+  });
+
+  it('rejects files over the size limit before reading them', async () => {
+    const large = file('rabbit.glb', '');
+    Object.defineProperty(large, 'size', { value: MAX_FILE_BYTES + 2 * 1024 * 1024 });
+    const result = await validateModelFile(large);
+    expect(result.errors).toEqual(['File is 52.0 MB; the limit is 50.0 MB.']);
+  });
+
+  it('lists external buffers and images, but not embedded ones', async () => {
+    const json = gltf({
+      buffers: [{ byteLength: 36, uri: 'rabbit.bin' }, { byteLength: 36, uri: triangleBuffer }],
+      images: [{ uri: 'textures/fur.png' }, { bufferView: 1 }, null],
+    });
+    const result = await validateModelFile(jsonFile('rabbit.gltf', json));
+    expect(result.errors).toEqual(['Missing external resources: rabbit.bin, textures/fur.png. Embed them or export as .glb.']);
+  });
+});
+
+describe('measureModel', () => {
+  const mesh = (geometry: THREE.BufferGeometry, material: THREE.Material = new THREE.MeshBasicMaterial()) =>
+    new THREE.Mesh(geometry, material);
+
+  it('counts indexed and non-indexed triangles', () => {
+    const root = new THREE.Group();
+    root.add(mesh(new THREE.BoxGeometry()), mesh(new THREE.BoxGeometry().toNonIndexed()));
+    expect(measureModel(root).triangles).toBe(24);
+  });
+
+  it('counts each texture once, with its mip chain', () => {
+    const texture = new THREE.Texture({ width: 512, height: 256 });
+    const material = new THREE.MeshStandardMaterial({ map: texture, emissiveMap: texture });
+    const root = new THREE.Group();
+    root.add(mesh(new THREE.PlaneGeometry(), material), mesh(new THREE.PlaneGeometry(), material));
+    expect(measureModel(root)).toEqual({ triangles: 4, textureBytes: (512 * 256 * 4 * 4) / 3 });
+  });
+});
@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import { GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { createGLTFLoader } from './gltfLoader';
+import { isObject } from '../utils/validation';
+
+export const MAX_FILE_BYTES = 50 * 1024 * 1024;
+export const MAX_TRIANGLES = 300_000;
+export const WARN_TRIANGLES = 100_000;
+// Estimated GPU memory of all textures, mipmaps included
+export const MAX_TEXTURE_BYTES = 256 * 1024 * 1024;
+export const WARN_TEXTURE_BYTES = 64 * 1024 * 1024;
+
+export interface ModelStats {
+  triangles: number;
+  textureBytes: number;
+}
+
+// VRM is binary glTF with a humanoid rig and expressions, loaded by VrmModel
+export type ModelFormat = 'gltf' | 'vrm';
+
+export interface ModelValidationResult {
+  // Any error means the model must not be used
+  errors: string[];
+  warnings: string[];
+  stats: ModelStats | null;
+  // null when the file could not be parsed
+  format: ModelFormat | null;
+}
+
+// Root extensions of VRM 0.x and VRM 1.0
+const VRM_EXTENSIONS = ['VRM', 'VRMC_vrm'];
+
+const GLB_MAGIC = 0x46546c67; // 'glTF' little-endian
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const listOf = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * .gltf files reference buffers and images by URI. Only embedded data: URIs
+ * survive a single-file upload; anything else would 404 from the blob URL.
+ */
+const findExternalResources = (json: Record<string, unknown>): string[] => {
+  const uris = [...listOf(json.buffers), ...listOf(json.images)]
+    .map((entry) => (isObject(entry) ? entry.uri : undefined))
+    .filter((uri): uri is string => typeof uri === 'string');
+  return uris.filter((uri) => !uri.startsWith('data:'));
+};
+
+export const measureModel = (root: THREE.Object3D): ModelStats => {
+  let triangles = 0;
+  const textures = new Map<string, THREE.Texture>();
+
+  root.traverse((obj) => {
+    if (!(obj instanceof THREE.Mesh)) return;
+    const geometry = obj.geometry as THREE.BufferGeometry;
+    const count = geometry.index ? geometry.index.count : geometry.attributes.position?.count ?? 0;
+    triangles += Math.floor(count / 3);
+
+    const materials = Array.isArray(obj.material) ? obj.material : [obj.material];
+    for (const material of materials) {
+      for (const value of Object.values(material)) {
+        if (value instanceof THREE.Texture) textures.set(value.uuid, value);
+      }
+    }
+  });
+
+  let textureBytes = 0;
+  textures.forEach((texture) => {
+    const image = texture.image as { width?: number; height?: number } | undefined;
+    if (image?.width && image?.height) {
+      // RGBA8 plus a full mip chain (~1/3 extra)
+      textureBytes += (image.width * image.height * 4 * 4) / 3;
+    }
+  });
+
+  return { triangles, textureBytes };
+};
+
+const disposeGLTF = (gltf: GLTF) => {
+  gltf.scene.traverse((obj) => {
+    if (obj instanceof THREE.Mesh) {
+      obj.geometry.dispose();
+      const materials = Array.isArray(obj.material) ? obj.material : [obj.material];
+      materials.forEach((material) => {
+        Object.values(material).forEach((value) => {
+          if (value instanceof THREE.Texture) value.dispose();
+        });
+        material.dispose();
+      });
+    }
+  });
+};
+
+/**
+ * Checks an uploaded file before it is stored or rendered: type and magic bytes,
+ * external resources of .gltf files, parse errors, triangle count and texture memory.
+ * Also tells VRM avatars apart from plain glTF.
+ */
+export const validateModelFile = async (file: File): Promise<ModelValidationResult> => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const ext = file.name.toLowerCase().split('.').pop();
+
+  if (ext !== 'glb' && ext !== 'gltf' && ext !== 'vrm') {
+    return { errors: ['Only .glb, .gltf and .vrm files are supported.'], warnings, stats: null, format: null };
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return { errors: [`File is ${formatMB(file.size)}; the limit is ${formatMB(MAX_FILE_BYTES)}.`], warnings, stats: null, format: null };
+  }
+
+  const buffer = await file.arrayBuffer();
+
+  if (ext !== 'gltf') {
+    if (buffer.byteLength < 12 || new DataView(buffer).getUint32(0, true) !== GLB_MAGIC) {
+      return { errors: ['File is not a binary glTF (missing "glTF" header).'], warnings, stats: null, format: null };
+    }
+  } else {
+    let json: unknown;
+    try {
+      json = JSON.parse(new TextDecoder().decode(buffer));
+    } catch {
+      return { errors: ['File is not valid glTF JSON.'], warnings, stats: null, format: null };
+    }
+    if (!isObject(json) || !isObject(json.asset) || !json.asset.version) {
+      return { errors: ['File is missing the glTF "asset.version" field.'], warnings, stats: null, format: null };
+    }
+    const external = findExternalResources(json);
+    if (external.length > 0) {
+      return {
+        errors: [
+          `Missing external resources: ${external.join(', ')}. Embed them or export as .glb.`,
+        ],
+        warnings,
+        stats: null,
+        format: null,
+      };
+    }
+  }
+
+  let gltf: GLTF;
+  try {
+    gltf = await createGLTFLoader().parseAsync(buffer, '');
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { errors: [`Could not parse model: ${msg}`], warnings, stats: null, format: null };
+  }
+
+  const stats = measureModel(gltf.scene);
+  const extensionsUsed: string[] = gltf.parser.json.extensionsUsed ?? [];
+  const format: ModelFormat = VRM_EXTENSIONS.some((name) => extensionsUsed.includes(name)) ? 'vrm' : 'gltf';
+  disposeGLTF(gltf);
+
+  if (ext === 'vrm' && format !== 'vrm') {
+    errors.push('File has a .vrm extension but no VRM data.');
+  }
+
+  if (stats.triangles === 0) {
+    errors.push('Model contains no meshes.');
+  } else if (stats.triangles > MAX_TRIANGLES) {
+    errors.push(`Model has ${stats.triangles.toLocaleString()} triangles; the limit is ${MAX_TRIANGLES.toLocaleString()}.`);
+  } else if (stats.triangles > WARN_TRIANGLES) {
+    warnings.push(`High triangle count (${stats.triangles.toLocaleString()}) may lower the frame rate.`);
+  }
+
+  if (stats.textureBytes > MAX_TEXTURE_BYTES) {
+    errors.push(`Textures need ~${formatMB(stats.textureBytes)} of GPU memory; the limit is ${formatMB(MAX_TEXTURE_BYTES)}.`);
+  } else if (stats.textureBytes > WARN_TEXTURE_BYTES) {
+    warnings.push(`Large textures (~${formatMB(stats.textureBytes)}) may be slow on phones.`);
+  }
+
+  return { errors, warnings, stats, format };
+};
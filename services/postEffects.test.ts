@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { downgradePostEffects, isPostEffectsPreset, POST_EFFECT_ORDER, POST_EFFECT_PRESETS } from './postEffects';
+
+describe('isPostEffectsPreset', () => {
+  it.each(POST_EFFECT_ORDER)('accepts %s', (preset) => {
+    expect(isPostEffectsPreset(preset)).toBe(true);
+  });
+
+  it.each([
+    ['an unknown name', 'sepia'],
+    ['a different case', 'CRT'],
+    ['an inherited key', 'toString'],
+    ['a number', 1],
+    ['null', null],
+    ['a list', ['crt']],
+  ])('rejects %s', (_, value) => {
+    expect(isPostEffectsPreset(value)).toBe(false);
+  });
+});
+
+describe('downgradePostEffects', () => {
+  it('steps down one preset at a time until off', () => {
+    expect(downgradePostEffects('crt')).toBe('neon');
+    expect(downgradePostEffects('neon')).toBe('glow');
+    expect(downgradePostEffects('glow')).toBe('off');
+    expect(downgradePostEffects('off')).toBe('off');
+  });
+
+  it('orders every preset, cheapest first', () => {
+    expect([...POST_EFFECT_ORDER].sort()).toEqual(Object.keys(POST_EFFECT_PRESETS).sort());
+    expect(POST_EFFECT_PRESETS[POST_EFFECT_ORDER[0]].settings).toBeNull();
+  });
+});
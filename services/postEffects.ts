@@ -0,0 +1,69 @@
+/**
+ * Post-processing presets for the 3D layer, from none to the full CRT look.
+ *
+ * Presets are ordered by cost, so when the frame rate can't keep up the app can
+ * step down to the next cheaper one (see downgradePostEffects).
+ */
+
+export type PostEffectsPreset = 'off' | 'glow' | 'neon' | 'crt';
+
+export interface PostEffectsSettings {
+  // Threshold bloom: only HDR pixels (toneMapped={false} emissives) pass a threshold of 1
+  bloom: { intensity: number; threshold: number; radius: number } | null;
+  // Channel offset in UV units
+  chromaticAberration: number | null;
+  scanlines: { density: number; opacity: number } | null;
+  // Short glitch burst when a hand is found or lost
+  glitchBursts: boolean;
+  // MSAA samples of the composer's buffers (the canvas' own antialiasing is bypassed)
+  multisampling: number;
+}
+
+export const POST_EFFECT_PRESETS: Record<PostEffectsPreset, { label: string; settings: PostEffectsSettings | null }> = {
+  off: { label: 'Off', settings: null },
+  glow: {
+    label: 'Glow',
+    settings: {
+      bloom: { intensity: 0.8, threshold: 1, radius: 0.6 },
+      chromaticAberration: null,
+      scanlines: null,
+      glitchBursts: false,
+      multisampling: 0,
+    },
+  },
+  neon: {
+    label: 'Neon',
+    settings: {
+      bloom: { intensity: 1.4, threshold: 1, radius: 0.75 },
+      chromaticAberration: 0.0015,
+      scanlines: null,
+      glitchBursts: true,
+      multisampling: 4,
+    },
+  },
+  crt: {
+    label: 'CRT',
+    settings: {
+      bloom: { intensity: 1.6, threshold: 0.9, radius: 0.8 },
+      chromaticAberration: 0.0025,
+      scanlines: { density: 1.4, opacity: 0.25 },
+      glitchBursts: true,
+      multisampling: 4,
+    },
+  },
+};
+
+// Cheapest first
+export const POST_EFFECT_ORDER: PostEffectsPreset[] = ['off', 'glow', 'neon', 'crt'];
+
+export const DEFAULT_POST_EFFECTS: PostEffectsPreset = 'neon';
+
+export const isPostEffectsPreset = (value: unknown): value is PostEffectsPreset =>
+  typeof value === 'string' && POST_EFFECT_ORDER.includes(value as PostEffectsPreset);
+
+// The next cheaper preset; 'off' stays off
+export const downgradePostEffects = (preset: PostEffectsPreset): PostEffectsPreset =>
+  POST_EFFECT_ORDER[Math.max(0, POST_EFFECT_ORDER.indexOf(preset) - 1)];
+
+// Length of a hand found/lost glitch burst
+export const GLITCH_BURST_MS = 350;
@@ -0,0 +1,226 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { downloadBlob } from './capture';
+import {
+  DEFAULT_RABBIT_SPEC,
+  drawRabbitLabel,
+  LABEL_TEXTURE_SIZE,
+  layoutRabbit,
+  RABBIT_BASE_Y,
+  RABBIT_LIMITS,
+  RABBIT_SPEC_VERSION,
+  RabbitSpec,
+  sanitizeRabbitSpec,
+} from '../utils/rabbitSpec';
+import { isObject } from '../utils/validation';
+
+/**
+ * The rabbit design in use and the user's saved presets (localStorage), plus
+ * JSON and GLB export.
+ */
+
+const SPEC_KEY = 'kana-ar:rabbit';
+const PRESETS_KEY = 'kana-ar:rabbit-presets';
+
+export interface RabbitPreset {
+  name: string;
+  spec: RabbitSpec;
+}
+
+const withChanges = (changes: { [K in keyof RabbitSpec]?: Partial<RabbitSpec[K]> }): RabbitSpec =>
+  sanitizeRabbitSpec({
+    ...DEFAULT_RABBIT_SPEC,
+    colors: { ...DEFAULT_RABBIT_SPEC.colors, ...changes.colors },
+    proportions: { ...DEFAULT_RABBIT_SPEC.proportions, ...changes.proportions },
+    eye: { ...DEFAULT_RABBIT_SPEC.eye, ...changes.eye },
+    accessories: changes.accessories ?? DEFAULT_RABBIT_SPEC.accessories,
+    label: { ...DEFAULT_RABBIT_SPEC.label, ...changes.label },
+  });
+
+export const BUILTIN_RABBIT_PRESETS: RabbitPreset[] = [
+  { name: 'Classic', spec: DEFAULT_RABBIT_SPEC },
+  {
+    name: 'Netrunner',
+    spec: withChanges({
+      colors: { body: '#1b1b2f', head: '#2e2e4d', ears: '#ff00ff', eye: '#00ffff', labelText: '#ff00ff' },
+      eye: { style: 'visor', glow: 4 },
+      accessories: ['headphones'],
+      label: { text: 'NETRUNNER' },
+    }),
+  },
+  {
+    name: 'Chrome',
+    spec: withChanges({
+      colors: { body: '#c0c0c8', head: '#e8e8f0', ears: '#c0c0c8', eye: '#39ff14', label: '#101010', labelText: '#39ff14' },
+      proportions: { head: 0.8, bodyWidth: 0.5, earLength: 0.8, earTilt: 5 },
+      eye: { style: 'twin', glow: 2.5 },
+      accessories: ['antenna'],
+      label: { text: 'UNIT-07' },
+    }),
+  },
+  {
+    name: 'Courier',
+    spec: withChanges({
+      colors: { body: '#ff6f00', head: '#fff3e0', ears: '#ff6f00', eye: '#ff1744', labelText: '#ff6f00' },
+      proportions: { bodyWidth: 0.7, bodyHeight: 0.8, earLength: 0.45, earTilt: 25 },
+      accessories: ['backpack', 'antenna'],
+      label: { text: 'EXPRESS' },
+    }),
+  },
+];
+
+export const loadRabbitSpec = (): RabbitSpec => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SPEC_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') return sanitizeRabbitSpec(stored);
+  } catch {
+    // Corrupt entry: fall through to the default
+  }
+  return DEFAULT_RABBIT_SPEC;
+};
+
+export const saveRabbitSpec = (spec: RabbitSpec) => {
+  localStorage.setItem(SPEC_KEY, JSON.stringify(spec));
+};
+
+export const loadRabbitPresets = (): RabbitPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    if (Array.isArray(stored)) {
+      return stored
+        .filter((preset) => typeof preset?.name === 'string' && preset.name.trim())
+        .map((preset) => ({ name: preset.name, spec: sanitizeRabbitSpec(preset.spec) }));
+    }
+  } catch {
+    // Corrupt entry: fall through to no presets
+  }
+  return [];
+};
+
+/**
+ * Persists the saved presets. Throws when storage is full (label images are the big part).
+ */
+export const saveRabbitPresets = (presets: RabbitPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+export const parseRabbitSpec = (json: string): RabbitSpec => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Character is not valid JSON');
+  }
+  if (!isObject(data)) throw new Error('Character is not an object');
+  if (typeof data.version === 'number' && data.version > RABBIT_SPEC_VERSION) {
+    throw new Error(`Character version ${data.version} needs a newer version of the app`);
+  }
+  if (!data.colors && !data.proportions) throw new Error('File is not a rabbit character');
+  return sanitizeRabbitSpec(data);
+};
+
+const fileSafe = (name: string) => name.trim().replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'rabbit';
+
+export const downloadRabbitSpec = (spec: RabbitSpec, name: string) => {
+  downloadBlob(new Blob([JSON.stringify(spec, null, 2)], { type: 'application/json' }), `kana-ar-rabbit-${fileSafe(name)}.json`);
+};
+
+export const loadLabelImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Label image could not be read'));
+    image.src = dataUrl;
+  });
+
+/**
+ * Crops an uploaded image to the label's aspect and shrinks it to LABEL_TEXTURE_SIZE,
+ * returning a PNG data URL small enough to store with the design.
+ */
+export const readLabelImage = async (file: File): Promise<string> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`${file.name} could not be decoded`);
+  }
+  const { width, height } = LABEL_TEXTURE_SIZE;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas not available');
+  // object-fit: cover
+  const scale = Math.max(width / bitmap.width, height / bitmap.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(bitmap, (bitmap.width - sw) / 2, (bitmap.height - sh) / 2, sw, sh, 0, 0, width, height);
+  bitmap.close();
+
+  const dataUrl = canvas.toDataURL('image/png');
+  if (dataUrl.length > RABBIT_LIMITS.labelImage) throw new Error('Label image is too detailed to store');
+  return dataUrl;
+};
+
+/**
+ * Standalone scene for the spec, bottom at y = 0, as uploaded models are expected.
+ */
+const buildRabbitScene = async (spec: RabbitSpec) => {
+  const canvas = document.createElement('canvas');
+  drawRabbitLabel(canvas, spec, spec.label.image ? await loadLabelImage(spec.label.image) : null);
+  const labelTexture = new THREE.CanvasTexture(canvas);
+  labelTexture.colorSpace = THREE.SRGBColorSpace;
+
+  const root = new THREE.Group();
+  root.name = 'CyberpunkRabbit';
+  for (const part of layoutRabbit(spec)) {
+    const [x, y, z] = part.size;
+    const geometry = part.shape === 'box' ? new THREE.BoxGeometry(x, y, z) : new THREE.PlaneGeometry(x, y);
+    const { color, roughness, metalness, emissiveIntensity, label } = part.material;
+    const material = label
+      ? new THREE.MeshBasicMaterial({ color, map: labelTexture })
+      : new THREE.MeshStandardMaterial({
+          color,
+          // Same fallbacks as CyberpunkRabbit: three's defaults, without undefined-parameter warnings
+          roughness: roughness ?? 1,
+          metalness: metalness ?? 0,
+          emissive: emissiveIntensity ? color : '#000000',
+          emissiveIntensity: emissiveIntensity ?? 1,
+        });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = part.name;
+    mesh.position.fromArray(part.position);
+    if (part.rotation) mesh.rotation.fromArray(part.rotation);
+    mesh.position.y -= RABBIT_BASE_Y;
+    root.add(mesh);
+  }
+  return root;
+};
+
+const disposeScene = (root: THREE.Object3D) => {
+  root.traverse((obj) => {
+    if (!(obj instanceof THREE.Mesh)) return;
+    obj.geometry.dispose();
+    const material = obj.material as THREE.MeshBasicMaterial | THREE.MeshStandardMaterial;
+    material.map?.dispose();
+    material.dispose();
+  });
+};
+
+/**
+ * Binary glTF of the design, loadable back into the app (or any glTF viewer) as a model.
+ */
+export const exportRabbitGlb = async (spec: RabbitSpec): Promise<Blob> => {
+  const root = await buildRabbitScene(spec);
+  try {
+    const glb = await new GLTFExporter().parseAsync(root, { binary: true });
+    return new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' });
+  } finally {
+    disposeScene(root);
+  }
+};
+
+export const downloadRabbitGlb = async (spec: RabbitSpec, name: string) => {
+  downloadBlob(await exportRabbitGlb(spec), `kana-ar-rabbit-${fileSafe(name)}.glb`);
+};
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CALIBRATION } from '../utils/calibration';
+import { DEFAULT_RABBIT_SPEC } from '../utils/rabbitSpec';
+import {
+  decodeSceneConfig,
+  describeSharedScene,
+  DEFAULT_LIGHTING,
+  DEFAULT_SCENE_EFFECTS,
+  encodeSceneConfig,
+  loadSceneLook,
+  parseSceneConfig,
+  saveSceneLook,
+  SCENE_CONFIG_VERSION,
+} from './sceneConfig';
+import { DEFAULT_POST_EFFECTS } from './postEffects';
+
+const LOOK_KEY = 'kana-ar:scene-look';
+
+// Fields set to undefined are left out of the JSON
+const scene = (fields: Record<string, unknown>) =>
+  JSON.stringify({
+    version: SCENE_CONFIG_VERSION,
+    model: { src: null, animation: null },
+    lighting: DEFAULT_LIGHTING,
+    facingMode: 'user',
+    character: DEFAULT_RABBIT_SPEC,
+    ...fields,
+  });
+
+describe('parseSceneConfig', () => {
+  it('fills in optional fields with their defaults', () => {
+    const parsed = parseSceneConfig(scene({ model: { src: 'https://example.com/rabbit.glb' } }));
+    expect(parsed.model).toEqual({ src: 'https://example.com/rabbit.glb', animation: null });
+    expect(parsed.calibration).toEqual(DEFAULT_CALIBRATION);
+    expect(parsed.effects).toEqual(DEFAULT_SCENE_EFFECTS);
+  });
+
+  it('lists every problem in one error', () => {
+    const lighting = { ...DEFAULT_LIGHTING, ambientColor: 'white' };
+    expect(() => parseSceneConfig(scene({ lighting, facingMode: 'front' }))).toThrow(
+      "Invalid scene: lighting.ambientColor must be #rrggbb; facingMode must be 'user' or 'environment'"
+    );
+  });
+
+  it('checks every field of every light', () => {
+    const lighting = { ...DEFAULT_LIGHTING, lights: [{ type: 'spot', position: [0, 0], intensity: '2', color: '#fff' }] };
+    expect(() => parseSceneConfig(scene({ lighting }))).toThrow(
+      'lighting.lights[0].type must be one of directional, point; ' +
+        'lighting.lights[0].position must be three numbers within ±50; ' +
+        'lighting.lights[0].intensity must be between 0 and 20; ' +
+        'lighting.lights[0].color must be #rrggbb'
+    );
+  });
+
+  it('copies the lights rather than keeping the parsed objects', () => {
+    const parsed = parseSceneConfig(scene({ lighting: { ...DEFAULT_LIGHTING, lights: [{ ...DEFAULT_LIGHTING.lights[0], extra: 1 }] } }));
+    expect(parsed.lighting.lights).toEqual([DEFAULT_LIGHTING.lights[0]]);
+  });
+
+  it('fills in missing effects and rejects non-boolean ones', () => {
+    expect(parseSceneConfig(scene({ effects: { shadows: false } })).effects).toEqual({ ...DEFAULT_SCENE_EFFECTS, shadows: false });
+    expect(() => parseSceneConfig(scene({ effects: { occlusion: 'yes' } }))).toThrow('effects.occlusion must be true or false');
+    expect(() => parseSceneConfig(scene({ effects: [] }))).toThrow('effects must be an object');
+  });
+
+  it('rejects unknown post effects presets and malformed clip names', () => {
+    expect(() => parseSceneConfig(scene({ postEffects: 'sepia' }))).toThrow('postEffects must be one of');
+    expect(() => parseSceneConfig(scene({ model: { src: null, animation: 3 } }))).toThrow('model.animation must be a clip name or null');
+  });
+
+  it('only loads models over http(s)', () => {
+    expect(() => parseSceneConfig(scene({ model: { src: 'javascript:alert(1)' } }))).toThrow('model.src must be an http(s) URL');
+  });
+
+  it('keeps the character, clamped to the editor limits', () => {
+    const character = { ...DEFAULT_RABBIT_SPEC, proportions: { ...DEFAULT_RABBIT_SPEC.proportions, earLength: 99 } };
+    const parsed = parseSceneConfig(scene({ character }));
+    expect(parsed.character.colors).toEqual(DEFAULT_RABBIT_SPEC.colors);
+    expect(parsed.character.proportions.earLength).toBeLessThan(99);
+  });
+
+  it('rejects scenes without a character', () => {
+    expect(() => parseSceneConfig(scene({ character: undefined }))).toThrow('character must be an object');
+  });
+
+  it('asks for a newer app for future versions', () => {
+    expect(() => parseSceneConfig(scene({ version: SCENE_CONFIG_VERSION + 1 }))).toThrow('needs a newer version of the app');
+  });
+});
+
+describe('share links', () => {
+  it('round-trip a scene, including non-ASCII clip names', () => {
+    const config = parseSceneConfig(scene({ model: { src: null, animation: 'ぴょん' } }));
+    expect(decodeSceneConfig(encodeSceneConfig(config))).toEqual(config);
+  });
+
+  it('describe what opening a shared scene will do', () => {
+    const remote = parseSceneConfig(scene({ model: { src: 'https://models.example.com/a/rabbit.glb' } }));
+    expect(describeSharedScene(remote)).toContain('downloads a model from models.example.com');
+    expect(describeSharedScene(parseSceneConfig(scene({})))).toContain('shows the built-in rabbit');
+  });
+
+  it('leave the label image out, since it would make the link huge', () => {
+    const image = `data:image/png;base64,${'A'.repeat(150_000)}`;
+    const character = { ...DEFAULT_RABBIT_SPEC, label: { text: 'KANA', image } };
+    const config = parseSceneConfig(scene({ character }));
+    expect(config.character.label.image).toBe(image);
+
+    const encoded = encodeSceneConfig(config);
+    expect(encoded.length).toBeLessThan(5_000);
+    expect(decodeSceneConfig(encoded).character.label).toEqual({ text: 'KANA', image: null });
+  });
+
+  it('reject corrupted links', () => {
+    expect(() => decodeSceneConfig('%%%')).toThrow('Scene link is corrupted');
+  });
+});
+
+describe('saved scene look', () => {
+  let items: Map<string, string>;
+
+  beforeEach(() => {
+    items = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const storeLook = (look: Record<string, unknown>) => items.set(LOOK_KEY, JSON.stringify(look));
+
+  it('round-trips the lighting, effects and post effects preset', () => {
+    const look = { lighting: DEFAULT_LIGHTING, effects: { ...DEFAULT_SCENE_EFFECTS, shadows: false }, postEffects: 'crt' as const };
+    saveSceneLook(look);
+    expect(loadSceneLook()).toEqual(look);
+  });
+
+  it('falls back to the default post effects for unknown presets', () => {
+    storeLook({ lighting: DEFAULT_LIGHTING, effects: DEFAULT_SCENE_EFFECTS, postEffects: 'vhs' });
+    expect(loadSceneLook().postEffects).toBe(DEFAULT_POST_EFFECTS);
+    storeLook({ lighting: DEFAULT_LIGHTING, effects: DEFAULT_SCENE_EFFECTS });
+    expect(loadSceneLook().postEffects).toBe(DEFAULT_POST_EFFECTS);
+  });
+
+  it('falls back to the defaults for corrupt entries', () => {
+    const defaults = { lighting: DEFAULT_LIGHTING, effects: DEFAULT_SCENE_EFFECTS, postEffects: DEFAULT_POST_EFFECTS };
+    expect(loadSceneLook()).toEqual(defaults);
+    items.set(LOOK_KEY, '{"lighting":');
+    expect(loadSceneLook()).toEqual(defaults);
+    storeLook({ lighting: { ...DEFAULT_LIGHTING, ambientIntensity: 'bright' }, postEffects: 'crt' });
+    expect(loadSceneLook()).toEqual(defaults);
+  });
+});
@@ -0,0 +1,352 @@
+import { DEFAULT_CALIBRATION, PlacementCalibration, sanitizeCalibration } from '../utils/calibration';
+import { RabbitSpec, sanitizeRabbitSpec } from '../utils/rabbitSpec';
+import { isObject } from '../utils/validation';
+import { FacingMode } from './cameraDevices';
+import { downloadBlob } from './capture';
+import { DEFAULT_POST_EFFECTS, isPostEffectsPreset, POST_EFFECT_ORDER, PostEffectsPreset } from './postEffects';
+
+/**
+ * A complete, shareable description of a scene: which model, how it sits on the
+ * palm, how the built-in rabbit is designed, how it is lit, which effects are on
+ * and which camera to open.
+ *
+ * Travels as a JSON file or base64url-encoded in the `scene` query parameter.
+ * Only remote models can be shared; uploads live in the local library.
+ */
+
+export const SCENE_CONFIG_VERSION = 1;
+export const SCENE_QUERY_PARAM = 'scene';
+const LOOK_KEY = 'kana-ar:scene-look';
+
+export type SceneLightType = 'directional' | 'point';
+
+export interface SceneLight {
+  type: SceneLightType;
+  // Scene units; the camera sits at z = SCENE_CAMERA.distance
+  position: [number, number, number];
+  intensity: number;
+  // #rrggbb
+  color: string;
+}
+
+export interface LightingRig {
+  ambientIntensity: number;
+  ambientColor: string;
+  lights: SceneLight[];
+}
+
+export interface SceneEffects {
+  // Depth-only hand proxies that let real fingers cover the model
+  occlusion: boolean;
+  // Scale, tint and aim the rig from the camera feed (see lightingEstimator)
+  lightEstimation: boolean;
+  // Key light shadow on a catcher plane at the palm
+  shadows: boolean;
+}
+
+export interface SceneModel {
+  // http(s) URL of a .glb/.gltf/.vrm; null = built-in rabbit
+  src: string | null;
+  // Looping clip; null = automatic idle
+  animation: string | null;
+}
+
+export interface SceneConfig {
+  version: number;
+  model: SceneModel;
+  calibration: PlacementCalibration;
+  // Design of the built-in rabbit, shown on hands without a model
+  character: RabbitSpec;
+  lighting: LightingRig;
+  effects: SceneEffects;
+  // Post-processing preset as chosen; devices may run a cheaper one
+  postEffects: PostEffectsPreset;
+  facingMode: FacingMode;
+}
+
+// The rig the app always shipped with: bright ambient, white key, cyan rim, magenta side
+export const DEFAULT_LIGHTING: LightingRig = {
+  ambientIntensity: 1.5,
+  ambientColor: '#ffffff',
+  lights: [
+    { type: 'directional', position: [0, 5, 10], intensity: 2.5, color: '#ffffff' },
+    { type: 'directional', position: [0, 5, -5], intensity: 1, color: '#00ffff' },
+    { type: 'point', position: [5, -2, 5], intensity: 1, color: '#ff00ff' },
+  ],
+};
+
+export const DEFAULT_SCENE_EFFECTS: SceneEffects = {
+  occlusion: true,
+  lightEstimation: true,
+  shadows: true,
+};
+
+const EFFECT_NAMES = Object.keys(DEFAULT_SCENE_EFFECTS) as (keyof SceneEffects)[];
+
+// Missing or malformed effects take their defaults, so configs from before an effect existed still load
+const readEffects = (value: unknown): SceneEffects => {
+  const effects = isObject(value) ? value : {};
+  const flag = (name: keyof SceneEffects) => {
+    const stored = effects[name];
+    return typeof stored === 'boolean' ? stored : DEFAULT_SCENE_EFFECTS[name];
+  };
+  return { occlusion: flag('occlusion'), lightEstimation: flag('lightEstimation'), shadows: flag('shadows') };
+};
+
+export const SCENE_LIMITS = {
+  intensity: [0, 20],
+  position: [-50, 50],
+  lights: 8,
+} as const;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const LIGHT_TYPES: SceneLightType[] = ['directional', 'point'];
+
+const inRange = (value: unknown, [min, max]: readonly [number, number]): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isIntensity = (value: unknown): value is number => inRange(value, SCENE_LIMITS.intensity);
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && COLOR_PATTERN.test(value);
+
+const isLightType = (value: unknown): value is SceneLightType =>
+  typeof value === 'string' && (LIGHT_TYPES as string[]).includes(value);
+
+const isPosition = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => inRange(v, SCENE_LIMITS.position));
+
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+const isModelSrc = (value: unknown): value is string | null => value === null || (typeof value === 'string' && isHttpUrl(value));
+
+const isClipName = (value: unknown): value is string | null => value === null || typeof value === 'string';
+
+const isFacingMode = (value: unknown): value is FacingMode => value === 'user' || value === 'environment';
+
+// `value` when it passes `guard`, otherwise null with `message` added to `errors`
+const check = <T>(value: unknown, guard: (value: unknown) => value is T, message: string, errors: string[]): T | null => {
+  if (guard(value)) return value;
+  errors.push(message);
+  return null;
+};
+
+const INTENSITY_RANGE = `between ${SCENE_LIMITS.intensity[0]} and ${SCENE_LIMITS.intensity[1]}`;
+
+// The light, or null with its problems added to `errors`
+const readLight = (light: unknown, path: string, errors: string[]): SceneLight | null => {
+  if (!isObject(light)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const type = check(light.type, isLightType, `${path}.type must be one of ${LIGHT_TYPES.join(', ')}`, errors);
+  const position = check(light.position, isPosition, `${path}.position must be three numbers within ±${SCENE_LIMITS.position[1]}`, errors);
+  const intensity = check(light.intensity, isIntensity, `${path}.intensity must be ${INTENSITY_RANGE}`, errors);
+  const color = check(light.color, isColor, `${path}.color must be #rrggbb`, errors);
+  if (!type || !position || intensity === null || !color) return null;
+  return { type, position: [...position], intensity, color };
+};
+
+// The rig, or null with its problems added to `errors`
+const readLighting = (lighting: unknown, errors: string[]): LightingRig | null => {
+  if (!isObject(lighting)) {
+    errors.push('lighting must be an object');
+    return null;
+  }
+  const ambientIntensity = check(lighting.ambientIntensity, isIntensity, `lighting.ambientIntensity must be ${INTENSITY_RANGE}`, errors);
+  const ambientColor = check(lighting.ambientColor, isColor, 'lighting.ambientColor must be #rrggbb', errors);
+  if (!Array.isArray(lighting.lights) || lighting.lights.length > SCENE_LIMITS.lights) {
+    errors.push(`lighting.lights must be a list of at most ${SCENE_LIMITS.lights} lights`);
+    return null;
+  }
+  const lights = lighting.lights.map((light: unknown, i) => readLight(light, `lighting.lights[${i}]`, errors));
+  if (ambientIntensity === null || !ambientColor || !lights.every((light) => light !== null)) return null;
+  return { ambientIntensity, ambientColor, lights };
+};
+
+// The model, or null with its problems added to `errors`
+const readModel = (model: unknown, errors: string[]): SceneModel | null => {
+  if (!isObject(model)) {
+    errors.push('model must be an object');
+    return null;
+  }
+  // null is a valid src and clip, so failures are told apart by the errors they add
+  const before = errors.length;
+  const src = check(model.src, isModelSrc, 'model.src must be an http(s) URL or null', errors);
+  const animation = check(model.animation ?? null, isClipName, 'model.animation must be a clip name or null', errors);
+  return errors.length > before ? null : { src, animation };
+};
+
+/**
+ * Validates parsed JSON against the schema. Throws with every problem listed;
+ * calibration and character values are clamped rather than rejected, like everywhere else.
+ */
+export const validateSceneConfig = (data: unknown): SceneConfig => {
+  if (!isObject(data)) throw new Error('Scene is not an object');
+  if (data.version !== SCENE_CONFIG_VERSION) {
+    throw new Error(
+      typeof data.version === 'number' && data.version > SCENE_CONFIG_VERSION
+        ? `Scene version ${data.version} needs a newer version of the app`
+        : `Unsupported scene version: ${data.version}`
+    );
+  }
+
+  const errors: string[] = [];
+  const model = readModel(data.model, errors);
+  const { calibration, character, effects } = data;
+  if (calibration !== undefined && !isObject(calibration)) errors.push('calibration must be an object');
+  if (!isObject(character)) errors.push('character must be an object');
+  const lighting = readLighting(data.lighting, errors);
+  if (effects !== undefined && !isObject(effects)) {
+    errors.push('effects must be an object');
+  } else if (effects) {
+    for (const name of EFFECT_NAMES) {
+      const value = effects[name];
+      if (value !== undefined && typeof value !== 'boolean') errors.push(`effects.${name} must be true or false`);
+    }
+  }
+  const postEffects = check(
+    data.postEffects ?? DEFAULT_POST_EFFECTS,
+    isPostEffectsPreset,
+    `postEffects must be one of ${POST_EFFECT_ORDER.join(', ')}`,
+    errors
+  );
+  const facingMode = check(data.facingMode, isFacingMode, "facingMode must be 'user' or 'environment'", errors);
+  if (errors.length > 0 || !model || !lighting || !postEffects || !facingMode) {
+    throw new Error(`Invalid scene: ${errors.join('; ')}`);
+  }
+
+  return {
+    version: SCENE_CONFIG_VERSION,
+    model,
+    calibration: calibration ? sanitizeCalibration(calibration) : DEFAULT_CALIBRATION,
+    character: sanitizeRabbitSpec(character),
+    lighting,
+    effects: readEffects(effects),
+    postEffects,
+    facingMode,
+  };
+};
+
+// Lighting and effects have no other home, so the last applied ones persist in localStorage
+export type SceneLook = Pick<SceneConfig, 'lighting' | 'effects' | 'postEffects'>;
+
+export const loadSceneLook = (): SceneLook => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(LOOK_KEY) ?? 'null');
+    const lighting = isObject(stored) ? readLighting(stored.lighting, []) : null;
+    if (isObject(stored) && lighting) {
+      return {
+        lighting,
+        effects: readEffects(stored.effects),
+        postEffects: isPostEffectsPreset(stored.postEffects) ? stored.postEffects : DEFAULT_POST_EFFECTS,
+      };
+    }
+  } catch {
+    // Corrupt entry: fall through to the default
+  }
+  return { lighting: DEFAULT_LIGHTING, effects: DEFAULT_SCENE_EFFECTS, postEffects: DEFAULT_POST_EFFECTS };
+};
+
+export const saveSceneLook = (look: SceneLook) => {
+  localStorage.setItem(LOOK_KEY, JSON.stringify(look));
+};
+
+export const parseSceneConfig = (json: string): SceneConfig => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Scene is not valid JSON');
+  }
+  return validateSceneConfig(data);
+};
+
+// base64url of the UTF-8 JSON, so clip names and URLs survive any characters
+const toBase64Url = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+/**
+ * The scene as a link parameter. The rabbit's label image is left out: a stored one
+ * alone would make a link of hundreds of kilobytes. JSON files keep it.
+ */
+export const encodeSceneConfig = (config: SceneConfig) => {
+  const character = { ...config.character, label: { ...config.character.label, image: null } };
+  return toBase64Url(JSON.stringify({ ...config, character }));
+};
+
+export const decodeSceneConfig = (value: string): SceneConfig => {
+  let json: string;
+  try {
+    json = fromBase64Url(value);
+  } catch {
+    throw new Error('Scene link is corrupted');
+  }
+  return parseSceneConfig(json);
+};
+
+/**
+ * The scene in the page URL, or null when there is none. Throws on a malformed one.
+ */
+export const readSceneFromUrl = (href = window.location.href): SceneConfig | null => {
+  const value = new URL(href).searchParams.get(SCENE_QUERY_PARAM);
+  return value ? decodeSceneConfig(value) : null;
+};
+
+/**
+ * What applying a scene from someone else's link does, for the user to confirm
+ * first: it may download a model and replaces the current setup, saved settings included.
+ */
+export const describeSharedScene = (config: SceneConfig) => {
+  const model = config.model.src
+    ? `downloads a model from ${new URL(config.model.src).host}`
+    : 'shows the built-in rabbit';
+  return (
+    `Open the scene from this link?\n\nIt ${model} and replaces your saved placement, ` +
+    'rabbit design, lighting, effects and camera choice.'
+  );
+};
+
+// Drops the parameter once applied, so a reload keeps local changes
+export const clearSceneFromUrl = () => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(SCENE_QUERY_PARAM)) return;
+  url.searchParams.delete(SCENE_QUERY_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+};
+
+export const buildShareLink = (config: SceneConfig, href = window.location.href) => {
+  const url = new URL(href);
+  url.hash = '';
+  url.searchParams.set(SCENE_QUERY_PARAM, encodeSceneConfig(config));
+  return url.toString();
+};
+
+export const downloadSceneConfig = (config: SceneConfig, fileName = `kana-ar-scene-${Date.now()}.json`) => {
+  downloadBlob(new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' }), fileName);
+};
+
+/**
+ * Downloads a shared scene's model as a File, ready for validation and the library.
+ */
+export const fetchSceneModel = async (src: string): Promise<File> => {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Model download failed (${response.status})`);
+  const blob = await response.blob();
+  const name = decodeURIComponent(new URL(src).pathname.split('/').pop() || '') || 'shared-model.glb';
+  return new File([blob], name, { type: blob.type });
+};
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TelemetryCollector } from './telemetry';
+
+const T0 = 1000;
+
+// A collector whose first interval opens at T0
+const collector = () => {
+  vi.spyOn(performance, 'now').mockReturnValueOnce(T0);
+  return new TelemetryCollector();
+};
+
+describe('TelemetryCollector.sample', () => {
+  it('turns the interval counts into rates and means', () => {
+    const telemetry = collector();
+    for (let i = 0; i < 15; i++) telemetry.recordDetection(i % 2 ? 30 : 10);
+    for (let i = 0; i < 30; i++) telemetry.recordRenderFrame();
+    telemetry.recordHand('Left', 0.8, true);
+    telemetry.recordHand('Right', 0.6, false);
+    telemetry.setDroppedFrames(4);
+    telemetry.sample(T0 + 500);
+
+    const { current, hands } = telemetry.snapshot();
+    expect(current.detectionFps).toBe(30);
+    expect(current.renderFps).toBe(60);
+    expect(current.latencyMs).toBeCloseTo((8 * 10 + 7 * 30) / 15);
+    expect(current.confidence).toBeCloseTo(0.7);
+    expect(current.droppedFrames).toBe(4);
+    expect(hands.Right).toMatchObject({ confidenceCount: 1, labelMismatches: 1 });
+  });
+
+  it('counts dropped frames per interval from the running total', () => {
+    const telemetry = collector();
+    telemetry.setDroppedFrames(4);
+    telemetry.sample(T0 + 500);
+    telemetry.setDroppedFrames(6);
+    telemetry.sample(T0 + 1000);
+    expect(telemetry.snapshot().series.droppedFrames).toEqual([4, 2]);
+  });
+
+  it('leaves metrics without measurements out of the series', () => {
+    const telemetry = collector();
+    telemetry.recordDetection(null);
+    telemetry.sample(T0 + 500);
+    const { current, series } = telemetry.snapshot();
+    expect(current.detectionFps).toBe(2);
+    expect(current.latencyMs).toBeNull();
+    expect(series.latencyMs).toEqual([]);
+  });
+
+  it('ignores empty or backwards intervals', () => {
+    const telemetry = collector();
+    telemetry.recordDetection(10);
+    telemetry.sample(T0);
+    telemetry.sample(T0 - 100);
+    expect(telemetry.snapshot().series.detectionFps).toEqual([]);
+    telemetry.sample(T0 + 1000);
+    expect(telemetry.snapshot().series.detectionFps).toEqual([1]);
+  });
+
+  it('keeps the last minute of samples', () => {
+    const telemetry = collector();
+    for (let i = 1; i <= 130; i++) {
+      telemetry.recordRenderFrame();
+      telemetry.sample(T0 + i * 1000);
+    }
+    const { series } = telemetry.snapshot();
+    expect(series.renderFps).toHaveLength(120);
+  });
+});
+
+describe('TelemetryCollector jitter', () => {
+  it('is zero for motion at constant velocity', () => {
+    const telemetry = collector();
+    for (let i = 0; i < 5; i++) telemetry.recordPose('Left', i * 0.1, 0, 0);
+    telemetry.sample(T0 + 500);
+    expect(telemetry.snapshot().current.jitter).toBeCloseTo(0);
+  });
+
+  it('measures the second difference of consecutive positions', () => {
+    const telemetry = collector();
+    telemetry.recordPose('Left', 0, 0, 0);
+    telemetry.recordPose('Left', 0, 0, 0);
+    telemetry.recordPose('Left', 0, 0.3, 0.4);
+    telemetry.sample(T0 + 500);
+    expect(telemetry.snapshot().current.jitter).toBeCloseTo(0.5);
+  });
+
+  it('starts over after the hand is lost', () => {
+    const telemetry = collector();
+    telemetry.recordPose('Left', 0, 0, 0);
+    telemetry.recordPose('Left', 0, 0, 0);
+    telemetry.recordHandEvent('Left', 'lost');
+    telemetry.recordPose('Left', 1, 1, 1);
+    telemetry.recordPose('Left', 1, 1, 1);
+    telemetry.sample(T0 + 500);
+    expect(telemetry.snapshot().current.jitter).toBeNull();
+    expect(telemetry.snapshot().hands.Left.lost).toBe(1);
+  });
+
+  it('keeps each hand separate', () => {
+    const telemetry = collector();
+    for (const x of [0, 1, 2]) {
+      telemetry.recordPose('Left', x, 0, 0);
+      telemetry.recordPose('Right', 0, 0, 0);
+    }
+    telemetry.sample(T0 + 500);
+    expect(telemetry.snapshot().current.jitter).toBeCloseTo(0);
+  });
+});
+
+describe('TelemetryCollector.report', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { userAgent: 'test', hardwareConcurrency: 4 });
+    vi.stubGlobal('window', { devicePixelRatio: 2, innerWidth: 800, innerHeight: 600 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('summarizes latency percentiles over every detection', () => {
+    const telemetry = collector();
+    for (let latency = 1; latency <= 100; latency++) telemetry.recordDetection(latency);
+    const { summary, totals, environment } = telemetry.report({ model: 'full' });
+    expect(summary.latencyMs).toEqual({ mean: 50.5, p50: 51, p95: 96, max: 100 });
+    expect(totals.detections).toBe(100);
+    expect(environment).toMatchObject({ viewport: '800x600', model: 'full' });
+  });
+
+  it('keeps only the latest latencies once the buffer is full', () => {
+    const telemetry = collector();
+    for (let i = 0; i < 10_000; i++) telemetry.recordDetection(1000);
+    for (let i = 0; i < 5_000; i++) telemetry.recordDetection(10);
+    expect(telemetry.report().summary.latencyMs).toEqual({ mean: 505, p50: 1000, p95: 1000, max: 1000 });
+    for (let i = 0; i < 5_000; i++) telemetry.recordDetection(10);
+    expect(telemetry.report().summary.latencyMs).toEqual({ mean: 10, p50: 10, p95: 10, max: 10 });
+  });
+
+  it('has no summary for metrics that were never measured', () => {
+    expect(collector().report().summary.jitter).toEqual({ mean: null, p50: null, p95: null, max: null });
+  });
+});
@@ -0,0 +1,239 @@
+import { Handedness } from '../types';
+import { HandAnimationTrigger } from '../utils/animationClips';
+import { downloadBlob } from './capture';
+
+/**
+ * Performance and tracking metrics for the HUD and for session reports.
+ *
+ * Events are accumulated as they happen and closed into one sample per
+ * interval by `sample()`; each metric keeps a bounded series of those samples.
+ */
+
+export const TELEMETRY_REPORT_VERSION = 1;
+
+// One sample per interval; 120 × 500 ms keeps the last minute
+export const SAMPLE_INTERVAL_MS = 500;
+const MAX_SAMPLES = 120;
+// Raw latencies kept for session percentiles (~5 minutes at 30 fps)
+const MAX_LATENCIES = 10_000;
+
+export const METRIC_NAMES = ['detectionFps', 'renderFps', 'latencyMs', 'droppedFrames', 'confidence', 'jitter'] as const;
+export type MetricName = (typeof METRIC_NAMES)[number];
+
+export interface HandStats {
+  found: number;
+  lost: number;
+  // Sum and count of handedness scores, for the session mean
+  confidenceSum: number;
+  confidenceCount: number;
+  // How often MediaPipe's label disagreed with the assigned slot
+  labelMismatches: number;
+}
+
+export interface TelemetrySnapshot {
+  // Latest sample per metric; null until something was measured
+  current: Record<MetricName, number | null>;
+  series: Record<MetricName, number[]>;
+  hands: Record<Handedness, HandStats>;
+}
+
+export interface MetricSummary {
+  mean: number | null;
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+}
+
+export interface TelemetryReport {
+  version: number;
+  // Epoch ms
+  startedAt: number;
+  durationMs: number;
+  environment: Record<string, string | number | boolean | null>;
+  summary: Record<MetricName, MetricSummary>;
+  totals: { detections: number; renderFrames: number; droppedFrames: number };
+  hands: Record<Handedness, HandStats>;
+  series: Record<MetricName, number[]>;
+  sampleIntervalMs: number;
+}
+
+const emptyHandStats = (): HandStats => ({ found: 0, lost: 0, confidenceSum: 0, confidenceCount: 0, labelMismatches: 0 });
+
+const emptyMetrics = <T,>(value: () => T) =>
+  Object.fromEntries(METRIC_NAMES.map((name) => [name, value()])) as Record<MetricName, T>;
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const summarize = (values: number[]): MetricSummary => {
+  if (values.length === 0) return { mean: null, p50: null, p95: null, max: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+export class TelemetryCollector {
+  private startedAt = Date.now();
+  private intervalStart = performance.now();
+  private series = emptyMetrics<number[]>(() => []);
+  private current = emptyMetrics<number | null>(() => null);
+  private hands: Record<Handedness, HandStats> = { Left: emptyHandStats(), Right: emptyHandStats() };
+  // Latest MAX_LATENCIES latencies, for session percentiles beyond the series window.
+  // A ring: once full, `latencyWrite` overwrites the oldest entry
+  private latencies: number[] = [];
+  private latencyWrite = 0;
+
+  // Accumulators for the open interval
+  private detections = 0;
+  private renderFrames = 0;
+  private latencySum = 0;
+  private latencyCount = 0;
+  private confidenceSum = 0;
+  private confidenceCount = 0;
+  private jitterSum = 0;
+  private jitterCount = 0;
+  private droppedTotal = 0;
+  private droppedAtIntervalStart = 0;
+
+  private totals = { detections: 0, renderFrames: 0 };
+  // Last two positions per hand, for the second difference
+  private lastPositions: Record<Handedness, [number, number, number][]> = { Left: [], Right: [] };
+
+  // `latency` in ms, null when unknown (e.g. replay)
+  recordDetection(latency: number | null) {
+    this.detections++;
+    this.totals.detections++;
+    if (latency !== null) {
+      this.latencySum += latency;
+      this.latencyCount++;
+      this.latencies[this.latencyWrite] = latency;
+      this.latencyWrite = (this.latencyWrite + 1) % MAX_LATENCIES;
+    }
+  }
+
+  recordRenderFrame() {
+    this.renderFrames++;
+    this.totals.renderFrames++;
+  }
+
+  // Running total of frames skipped because the detector was busy
+  setDroppedFrames(total: number) {
+    this.droppedTotal = total;
+  }
+
+  // `score` is MediaPipe's handedness confidence; `labelMatches` whether its label agreed with the slot
+  recordHand(id: Handedness, score: number | null, labelMatches: boolean) {
+    const stats = this.hands[id];
+    if (score !== null) {
+      stats.confidenceSum += score;
+      stats.confidenceCount++;
+      this.confidenceSum += score;
+      this.confidenceCount++;
+    }
+    if (!labelMatches) stats.labelMismatches++;
+  }
+
+  /**
+   * Pose jitter as the magnitude of the second difference of consecutive raw
+   * positions (scene units). Smooth motion contributes little; detection noise
+   * shows up directly.
+   */
+  recordPose(id: Handedness, x: number, y: number, z: number) {
+    const history = this.lastPositions[id];
+    if (history.length === 2) {
+      const [a, b] = history;
+      this.jitterSum += Math.hypot(x - 2 * b[0] + a[0], y - 2 * b[1] + a[1], z - 2 * b[2] + a[2]);
+      this.jitterCount++;
+      history.shift();
+    }
+    history.push([x, y, z]);
+  }
+
+  recordHandEvent(id: Handedness, type: HandAnimationTrigger) {
+    this.hands[id][type]++;
+    // The next pose after a gap is not comparable to the last one
+    if (type === 'lost') this.lastPositions[id] = [];
+  }
+
+  /**
+   * Closes the current interval into one sample per metric.
+   */
+  sample(now: number) {
+    const seconds = (now - this.intervalStart) / 1000;
+    if (seconds <= 0) return;
+
+    const values: Record<MetricName, number | null> = {
+      detectionFps: this.detections / seconds,
+      renderFps: this.renderFrames / seconds,
+      latencyMs: this.latencyCount ? this.latencySum / this.latencyCount : null,
+      droppedFrames: this.droppedTotal - this.droppedAtIntervalStart,
+      confidence: this.confidenceCount ? this.confidenceSum / this.confidenceCount : null,
+      jitter: this.jitterCount ? this.jitterSum / this.jitterCount : null,
+    };
+
+    for (const name of METRIC_NAMES) {
+      const value = values[name];
+      this.current[name] = value;
+      if (value === null) continue;
+      const series = this.series[name];
+      series.push(value);
+      if (series.length > MAX_SAMPLES) series.shift();
+    }
+
+    this.intervalStart = now;
+    this.detections = 0;
+    this.renderFrames = 0;
+    this.latencySum = 0;
+    this.latencyCount = 0;
+    this.confidenceSum = 0;
+    this.confidenceCount = 0;
+    this.jitterSum = 0;
+    this.jitterCount = 0;
+    this.droppedAtIntervalStart = this.droppedTotal;
+  }
+
+  snapshot(): TelemetrySnapshot {
+    return {
+      current: { ...this.current },
+      series: this.copySeries(),
+      hands: { Left: { ...this.hands.Left }, Right: { ...this.hands.Right } },
+    };
+  }
+
+  report(environment: TelemetryReport['environment'] = {}): TelemetryReport {
+    const summary = emptyMetrics<MetricSummary>(() => summarize([]));
+    for (const name of METRIC_NAMES) {
+      summary[name] = summarize(name === 'latencyMs' ? this.latencies : this.series[name]);
+    }
+    return {
+      version: TELEMETRY_REPORT_VERSION,
+      startedAt: this.startedAt,
+      durationMs: Date.now() - this.startedAt,
+      environment: {
+        userAgent: navigator.userAgent,
+        devicePixelRatio: window.devicePixelRatio,
+        viewport: `${window.innerWidth}x${window.innerHeight}`,
+        hardwareConcurrency: navigator.hardwareConcurrency ?? null,
+        ...environment,
+      },
+      summary,
+      totals: { ...this.totals, droppedFrames: this.droppedTotal },
+      hands: { Left: { ...this.hands.Left }, Right: { ...this.hands.Right } },
+      series: this.copySeries(),
+      sampleIntervalMs: SAMPLE_INTERVAL_MS,
+    };
+  }
+
+  private copySeries() {
+    const copy = emptyMetrics<number[]>(() => []);
+    for (const name of METRIC_NAMES) copy[name] = [...this.series[name]];
+    return copy;
+  }
+}
+
+export const downloadTelemetryReport = (report: TelemetryReport, fileName = `kana-ar-report-${Date.now()}.json`) => {
+  downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), fileName);
+};
@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+import { createGLTFLoader } from './gltfLoader';
+
+const THUMBNAIL_SIZE = 128;
+
+/**
+ * Renders a small preview of a GLB/GLTF file off-screen.
+ * Resolves to null when the model cannot be loaded (e.g. a .gltf whose
+ * external buffers are not available from a blob URL) or WebGL is unavailable.
+ */
+export const renderThumbnail = async (file: Blob): Promise<Blob | null> => {
+  const url = URL.createObjectURL(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  let renderer: THREE.WebGLRenderer | null = null;
+
+  try {
+    // Throws without WebGL (or when the browser is out of contexts)
+    renderer = new THREE.WebGLRenderer({ canvas, alpha: true, antialias: true, preserveDrawingBuffer: true });
+    const gltf = await createGLTFLoader().loadAsync(url);
+    const scene = new THREE.Scene();
+    scene.add(new THREE.AmbientLight(0xffffff, 1.5));
+    const key = new THREE.DirectionalLight(0xffffff, 2.5);
+    key.position.set(1, 2, 3);
+    scene.add(key);
+    scene.add(gltf.scene);
+
+    // Frame the bounding sphere from a slightly elevated front view
+    const sphere = new THREE.Box3().setFromObject(gltf.scene).getBoundingSphere(new THREE.Sphere());
+    const camera = new THREE.PerspectiveCamera(40, 1, 0.01, 1000);
+    const distance = sphere.radius / Math.sin(THREE.MathUtils.degToRad(20)) || 1;
+    camera.position.copy(sphere.center).add(new THREE.Vector3(0, 0.3, 1).normalize().multiplyScalar(distance));
+    camera.near = distance / 100;
+    camera.far = distance * 10;
+    camera.updateProjectionMatrix();
+    camera.lookAt(sphere.center);
+
+    renderer.setClearColor(0x000000, 0);
+    renderer.render(scene, camera);
+
+    scene.traverse((obj) => {
+      if (obj instanceof THREE.Mesh) {
+        obj.geometry.dispose();
+        (Array.isArray(obj.material) ? obj.material : [obj.material]).forEach((m) => m.dispose());
+      }
+    });
+
+    return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  } catch (err) {
+    console.warn('Thumbnail render failed:', err);
+    return null;
+  } finally {
+    renderer?.dispose();
+    renderer?.forceContextLoss();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -1,13 +1,21 @@
-
 export interface HandLandmark {
   x: number;
   y: number;
   z: number;
 }
 
+export type Handedness = 'Left' | 'Right';
+
+export interface HandednessCategory {
+  categoryName: string;
+  score: number;
+}
+
 export interface DetectionResult {
   landmarks: HandLandmark[][];
   worldLandmarks: HandLandmark[][];
+  // One list of categories per detected hand, in the same order as `landmarks`
+  handedness?: HandednessCategory[][];
 }
 
 export enum AppState {
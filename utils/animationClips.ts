@@ -0,0 +1,45 @@
+import * as THREE from 'three';
+
+export type HandAnimationTrigger = 'found' | 'lost';
+
+// One-shot hand event; `id` changes on every occurrence so repeats re-trigger
+export interface HandAnimationEvent {
+  type: HandAnimationTrigger;
+  id: number;
+}
+
+// Clip name fragments tried in order for each hand event (case-insensitive)
+export const HAND_EVENT_CLIPS: Record<HandAnimationTrigger, string[]> = {
+  found: ['appear', 'intro', 'spawn', 'wave', 'hello'],
+  lost: ['disappear', 'outro', 'goodbye', 'bye'],
+};
+
+// VRM expression played for each hand event (VRM 0.x presets are mapped to these names)
+export const HAND_EVENT_EXPRESSIONS: Record<HandAnimationTrigger, string> = {
+  found: 'happy',
+  lost: 'surprised',
+};
+
+const IDLE_PATTERNS = ['idle', 'breath', 'stand', 'loop'];
+
+/**
+ * First clip whose name contains one of `patterns`, trying patterns in priority order.
+ */
+export const findClip = (clips: THREE.AnimationClip[], patterns: string[]) => {
+  for (const pattern of patterns) {
+    const clip = clips.find((c) => c.name.toLowerCase().includes(pattern));
+    if (clip) return clip;
+  }
+  return null;
+};
+
+/**
+ * The clip to loop when nothing is picked: a recognizably named idle clip,
+ * otherwise the first clip that isn't reserved for a hand event.
+ */
+export const pickIdleClip = (clips: THREE.AnimationClip[]) => {
+  const reserved = new Set(
+    Object.values(HAND_EVENT_CLIPS).flatMap((patterns) => clips.filter((c) => patterns.some((p) => c.name.toLowerCase().includes(p))))
+  );
+  return findClip(clips, IDLE_PATTERNS) ?? clips.find((c) => !reserved.has(c)) ?? clips[0] ?? null;
+};
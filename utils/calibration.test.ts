@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { CALIBRATION_LIMITS, DEFAULT_CALIBRATION, sanitizeCalibration } from './calibration';
+
+describe('sanitizeCalibration', () => {
+  it('keeps a valid calibration as it is', () => {
+    const calibration = { anchorRatio: 0.4, offset: [0.1, -0.2, 0.3], scale: 1.5, yaw: -90, orientationMode: 'palm', palmBlend: 0.5 };
+    expect(sanitizeCalibration(calibration)).toEqual(calibration);
+  });
+
+  it('clamps every value into its limits', () => {
+    const sanitized = sanitizeCalibration({ anchorRatio: 2, offset: [-9, 9, 0], scale: 0, yaw: 720, palmBlend: -1 });
+    expect(sanitized).toEqual({
+      anchorRatio: CALIBRATION_LIMITS.anchorRatio[1],
+      offset: [CALIBRATION_LIMITS.offset[0], CALIBRATION_LIMITS.offset[1], 0],
+      scale: CALIBRATION_LIMITS.scale[0],
+      yaw: CALIBRATION_LIMITS.yaw[1],
+      orientationMode: 'billboard',
+      palmBlend: CALIBRATION_LIMITS.palmBlend[0],
+    });
+  });
+
+  it.each([
+    ['undefined', undefined],
+    ['null', null],
+    ['a string', 'palm'],
+    ['a list', [1, 2, 3]],
+    ['an empty object', {}],
+  ])('falls back to the defaults for %s', (_, value) => {
+    expect(sanitizeCalibration(value)).toEqual(DEFAULT_CALIBRATION);
+  });
+
+  it('replaces malformed fields one by one', () => {
+    const sanitized = sanitizeCalibration({
+      anchorRatio: '0.5',
+      offset: [0.5, 'up', null, 1],
+      scale: NaN,
+      yaw: Infinity,
+      orientationMode: 'sideways',
+      palmBlend: 0.25,
+    });
+    expect(sanitized).toEqual({ ...DEFAULT_CALIBRATION, offset: [0.5, 0, 0], palmBlend: 0.25 });
+  });
+
+  it('fills in a short offset with zeros', () => {
+    expect(sanitizeCalibration({ offset: [1] }).offset).toEqual([1, 0, 0]);
+    expect(sanitizeCalibration({ offset: { x: 1 } }).offset).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,53 @@
+import { OrientationMode } from './poseSolver';
+import { clampTo, isObject } from './validation';
+
+/**
+ * Per-model placement on the palm. Stored with each model and applied whenever
+ * that model is selected.
+ */
+export interface PlacementCalibration {
+  // Anchor between wrist (0) and middle finger knuckle (1), fed to the pose solver
+  anchorRatio: number;
+  // Offset inside the hand group, in model units (the model is ~2 units tall)
+  offset: [number, number, number];
+  // Multiplier on top of the solved hand scale
+  scale: number;
+  // Extra rotation around the model's up axis, in degrees
+  yaw: number;
+  orientationMode: OrientationMode;
+  // Palm mode: 0 = upright billboard, 1 = fully attached to the palm
+  palmBlend: number;
+}
+
+export const DEFAULT_CALIBRATION: PlacementCalibration = {
+  anchorRatio: 0,
+  offset: [0, 0, 0],
+  scale: 1,
+  yaw: 0,
+  orientationMode: 'billboard',
+  palmBlend: 1,
+};
+
+export const CALIBRATION_LIMITS = {
+  anchorRatio: [0, 1],
+  offset: [-2, 2],
+  scale: [0.25, 3],
+  yaw: [-180, 180],
+  palmBlend: [0, 1],
+} as const;
+
+/**
+ * Coerces stored or imported data into a valid calibration, filling gaps with defaults.
+ */
+export const sanitizeCalibration = (value: unknown): PlacementCalibration => {
+  const data = isObject(value) ? value : {};
+  const offset: unknown[] = Array.isArray(data.offset) ? data.offset : [];
+  return {
+    anchorRatio: clampTo(data.anchorRatio, CALIBRATION_LIMITS.anchorRatio, DEFAULT_CALIBRATION.anchorRatio),
+    offset: [0, 1, 2].map((i) => clampTo(offset[i], CALIBRATION_LIMITS.offset, 0)) as [number, number, number],
+    scale: clampTo(data.scale, CALIBRATION_LIMITS.scale, DEFAULT_CALIBRATION.scale),
+    yaw: clampTo(data.yaw, CALIBRATION_LIMITS.yaw, DEFAULT_CALIBRATION.yaw),
+    orientationMode: data.orientationMode === 'palm' ? 'palm' : 'billboard',
+    palmBlend: clampTo(data.palmBlend, CALIBRATION_LIMITS.palmBlend, DEFAULT_CALIBRATION.palmBlend),
+  };
+};
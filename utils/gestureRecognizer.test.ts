@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { HandLandmark } from '../types';
+import { DEFAULT_GESTURE_OPTIONS, GestureEvent, GestureName, GestureRecognizer, scoreGestures } from './gestureRecognizer';
+
+type ThumbPose = 'out' | 'in' | 'pinch';
+
+interface HandShape {
+  // index, middle, ring, pinky
+  extended: [boolean, boolean, boolean, boolean];
+  thumb: ThumbPose;
+  // Moves the whole hand, in normalized image units
+  offsetX?: number;
+}
+
+// An upright right hand in image coordinates: wrist at the bottom, palm 0.2 long
+const FINGER_X = [0.44, 0.5, 0.54, 0.58];
+
+const THUMBS: Record<ThumbPose, HandLandmark[]> = {
+  out: [
+    { x: 0.46, y: 0.75, z: 0 },
+    { x: 0.42, y: 0.7, z: 0 },
+    { x: 0.38, y: 0.65, z: 0 },
+    { x: 0.32, y: 0.6, z: 0 },
+  ],
+  in: [
+    { x: 0.46, y: 0.75, z: 0 },
+    { x: 0.42, y: 0.7, z: 0 },
+    { x: 0.38, y: 0.65, z: 0 },
+    { x: 0.5, y: 0.65, z: 0 },
+  ],
+  // Tip resting on the extended index finger's tip
+  pinch: [
+    { x: 0.46, y: 0.75, z: 0 },
+    { x: 0.42, y: 0.62, z: 0 },
+    { x: 0.4, y: 0.5, z: 0 },
+    { x: 0.45, y: 0.41, z: 0 },
+  ],
+};
+
+const hand = ({ extended, thumb, offsetX = 0 }: HandShape): HandLandmark[] => {
+  const points: HandLandmark[] = [{ x: 0.5, y: 0.8, z: 0 }, ...THUMBS[thumb]];
+  FINGER_X.forEach((x, i) => {
+    // mcp, pip, dip, tip; a curled finger folds its tip back onto the palm
+    const tipY = extended[i] ? [0.5, 0.45, 0.4] : [0.5, 0.55, 0.62];
+    points.push({ x, y: 0.6, z: 0 }, ...tipY.map((y) => ({ x, y, z: 0 })));
+  });
+  return points.map((p) => ({ ...p, x: p.x + offsetX }));
+};
+
+const POSES: Record<GestureName, HandLandmark[]> = {
+  open_palm: hand({ extended: [true, true, true, true], thumb: 'out' }),
+  fist: hand({ extended: [false, false, false, false], thumb: 'in' }),
+  point: hand({ extended: [true, false, false, false], thumb: 'in' }),
+  pinch: hand({ extended: [true, true, true, true], thumb: 'pinch' }),
+};
+
+const record = (recognizer: GestureRecognizer) => {
+  const events: GestureEvent[] = [];
+  recognizer.on((event) => events.push(event));
+  return events;
+};
+
+// Feeds `frames` frames of one pose, 33 ms apart, starting at `start`
+const feed = (recognizer: GestureRecognizer, landmarks: HandLandmark[], frames: number, start = 0) => {
+  for (let i = 0; i < frames; i++) recognizer.update('Right', landmarks, false, start + i * 33);
+  return start + frames * 33;
+};
+
+describe('scoreGestures', () => {
+  it.each(Object.keys(POSES) as GestureName[])('scores %s above the confidence threshold', (name) => {
+    expect(scoreGestures(POSES[name])[name]).toBeGreaterThanOrEqual(DEFAULT_GESTURE_OPTIONS.minConfidence);
+  });
+
+  it.each([
+    ['open_palm', ['fist', 'point', 'pinch']],
+    ['fist', ['open_palm', 'point', 'pinch']],
+    ['point', ['open_palm', 'fist', 'pinch']],
+  ] as [GestureName, GestureName[]][])('keeps the other poses below the threshold for %s', (name, others) => {
+    const scores = scoreGestures(POSES[name]);
+    for (const other of others) expect(scores[other]).toBeLessThan(DEFAULT_GESTURE_OPTIONS.minConfidence);
+  });
+
+  it('scales the pinch score with the tip distance relative to the threshold', () => {
+    // Thumb tip 0.2 × 0.35 × 0.5 = 0.035 from the index tip, half the threshold
+    const landmarks = POSES.point.map((p) => ({ ...p }));
+    landmarks[4] = { x: landmarks[8].x + 0.035, y: landmarks[8].y, z: 0 };
+    expect(scoreGestures(landmarks).pinch).toBeCloseTo(0.5, 5);
+    expect(scoreGestures(landmarks, { ...DEFAULT_GESTURE_OPTIONS, pinchThreshold: 0.175 }).pinch).toBeCloseTo(0, 5);
+  });
+});
+
+describe('GestureRecognizer', () => {
+  it('starts a gesture only after activateFrames consecutive frames', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    const t = feed(recognizer, POSES.fist, DEFAULT_GESTURE_OPTIONS.activateFrames - 1);
+    expect(events).toEqual([]);
+    feed(recognizer, POSES.fist, 1, t);
+    expect(events).toMatchObject([{ type: 'start', gesture: 'fist', hand: 'Right' }]);
+    expect(recognizer.getActive('Right')).toBe('fist');
+  });
+
+  it('does not start on frames that alternate between poses', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    for (let i = 0; i < 10; i++) recognizer.update('Right', i % 2 ? POSES.fist : POSES.point, false, i * 33);
+    expect(events).toEqual([]);
+  });
+
+  it('keeps the active gesture through a flicker shorter than releaseFrames', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    let t = feed(recognizer, POSES.fist, 3);
+    t = feed(recognizer, POSES.open_palm, DEFAULT_GESTURE_OPTIONS.releaseFrames - 1, t);
+    t = feed(recognizer, POSES.fist, 1, t);
+    // The counter starts over after the flicker
+    feed(recognizer, POSES.open_palm, DEFAULT_GESTURE_OPTIONS.releaseFrames - 1, t);
+    expect(events.map((e) => e.type)).toEqual(['start']);
+    expect(recognizer.getActive('Right')).toBe('fist');
+  });
+
+  it('ends the gesture after releaseFrames and starts the new one', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    const t = feed(recognizer, POSES.fist, 3);
+    feed(recognizer, POSES.open_palm, DEFAULT_GESTURE_OPTIONS.releaseFrames, t);
+    // Started on the third fist frame (66 ms), ended on the fourth open palm frame (198 ms)
+    expect(events).toMatchObject([
+      { type: 'start', gesture: 'fist', timestamp: 66 },
+      { type: 'end', gesture: 'fist', duration: 132, timestamp: 198 },
+      { type: 'start', gesture: 'open_palm' },
+    ]);
+  });
+
+  it('reports pinch drags in screen space', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    for (let i = 0; i < 3; i++) recognizer.update('Right', POSES.pinch, true, i * 33);
+    recognizer.update('Right', hand({ extended: [true, true, true, true], thumb: 'pinch', offsetX: 0.1 }), true, 99);
+    const drag = events.find((e): e is Extract<GestureEvent, { type: 'pinch_drag' }> => e.type === 'pinch_drag');
+    // Mirrored: moving right in the image moves left on screen
+    expect(drag?.dx).toBeCloseTo(-0.1, 5);
+    expect(drag?.dy).toBeCloseTo(0, 5);
+  });
+
+  it('swipes with a fast open palm, then waits for the cooldown', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    const swipe = (start: number) => {
+      for (let i = 0; i <= 5; i++) {
+        recognizer.update('Right', hand({ extended: [true, true, true, true], thumb: 'out', offsetX: i * 0.06 - 0.15 }), false, start + i * 33);
+      }
+    };
+    swipe(0);
+    swipe(200);
+    expect(events.filter((e) => e.type === 'swipe')).toMatchObject([{ direction: 'right' }]);
+    swipe(200 + DEFAULT_GESTURE_OPTIONS.swipeCooldownMs);
+    expect(events.filter((e) => e.type === 'swipe')).toHaveLength(2);
+  });
+
+  it('does not swipe with a moving fist', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    for (let i = 0; i <= 5; i++) {
+      recognizer.update('Right', hand({ extended: [false, false, false, false], thumb: 'in', offsetX: i * 0.06 - 0.15 }), false, i * 33);
+    }
+    expect(events.some((e) => e.type === 'swipe')).toBe(false);
+  });
+
+  it('ends the active gesture when the hand is lost', () => {
+    const recognizer = new GestureRecognizer();
+    const events = record(recognizer);
+    feed(recognizer, POSES.fist, 3);
+    recognizer.handLost('Right', 500);
+    expect(events.at(-1)).toMatchObject({ type: 'end', gesture: 'fist', duration: 500 - 66, timestamp: 500 });
+    expect(recognizer.getActive('Right')).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+import { Handedness, HandLandmark } from '../types';
+import { MIDDLE_FINGER_MCP, WRIST } from './poseSolver';
+
+export type GestureName = 'pinch' | 'fist' | 'open_palm' | 'point';
+export type SwipeDirection = 'left' | 'right';
+
+export type GestureEvent =
+  | { type: 'start'; gesture: GestureName; hand: Handedness; confidence: number; timestamp: number }
+  | { type: 'end'; gesture: GestureName; hand: Handedness; duration: number; timestamp: number }
+  // Pinch point movement since the pinch started, in normalized screen units (x right, y down)
+  | { type: 'pinch_drag'; hand: Handedness; dx: number; dy: number; timestamp: number }
+  | { type: 'swipe'; hand: Handedness; direction: SwipeDirection; velocity: number; timestamp: number };
+
+export type GestureListener = (event: GestureEvent) => void;
+
+export interface GestureOptions {
+  // Frames a pose must be seen consecutively before it becomes active
+  activateFrames: number;
+  // Frames a different pose must be seen before the active one ends
+  releaseFrames: number;
+  // Minimum confidence for a pose to count as a candidate
+  minConfidence: number;
+  // Thumb tip <-> index tip distance (relative to palm length) below which a pinch registers
+  pinchThreshold: number;
+  // Horizontal palm travel (normalized screen width) within swipeWindowMs that counts as a swipe
+  swipeDistance: number;
+  swipeWindowMs: number;
+  swipeCooldownMs: number;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  activateFrames: 3,
+  releaseFrames: 4,
+  minConfidence: 0.5,
+  pinchThreshold: 0.35,
+  swipeDistance: 0.25,
+  swipeWindowMs: 300,
+  swipeCooldownMs: 700,
+};
+
+// Landmark indices: [mcp, pip, tip] per finger
+const FINGERS = {
+  index: [5, 6, 8],
+  middle: [9, 10, 12],
+  ring: [13, 14, 16],
+  pinky: [17, 18, 20],
+} as const;
+const THUMB_IP = 3;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+
+const dist = (a: HandLandmark, b: HandLandmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+/**
+ * 0 = fully curled, 1 = fully extended. A straight finger's tip is much farther
+ * from the wrist than its PIP joint; a curled one folds back below it.
+ */
+const fingerExtension = (landmarks: HandLandmark[], [, pip, tip]: readonly number[]) => {
+  const wrist = landmarks[WRIST];
+  const ratio = dist(wrist, landmarks[tip]) / Math.max(dist(wrist, landmarks[pip]), 1e-6);
+  return clamp01((ratio - 0.9) / 0.4);
+};
+
+const thumbExtension = (landmarks: HandLandmark[]) => {
+  const pinkyMcp = landmarks[FINGERS.pinky[0]];
+  const ratio = dist(landmarks[THUMB_TIP], pinkyMcp) / Math.max(dist(landmarks[THUMB_IP], pinkyMcp), 1e-6);
+  return clamp01((ratio - 0.95) / 0.3);
+};
+
+export interface GestureScores {
+  pinch: number;
+  fist: number;
+  open_palm: number;
+  point: number;
+}
+
+/**
+ * Per-frame confidence for each static pose, in [0, 1].
+ */
+export const scoreGestures = (landmarks: HandLandmark[], options: GestureOptions = DEFAULT_GESTURE_OPTIONS): GestureScores => {
+  const palmLength = Math.max(dist(landmarks[WRIST], landmarks[MIDDLE_FINGER_MCP]), 1e-6);
+
+  const index = fingerExtension(landmarks, FINGERS.index);
+  const middle = fingerExtension(landmarks, FINGERS.middle);
+  const ring = fingerExtension(landmarks, FINGERS.ring);
+  const pinky = fingerExtension(landmarks, FINGERS.pinky);
+  const thumb = thumbExtension(landmarks);
+
+  const pinchDistance = dist(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palmLength;
+
+  return {
+    pinch: clamp01(1 - pinchDistance / options.pinchThreshold),
+    fist: (1 - index) * (1 - middle) * (1 - ring) * (1 - pinky),
+    open_palm: Math.min(index, middle, ring, pinky, thumb),
+    point: index * (1 - middle) * (1 - ring) * (1 - pinky),
+  };
+};
+
+// Earlier entries win when several poses pass the threshold
+const PRIORITY: GestureName[] = ['pinch', 'point', 'fist', 'open_palm'];
+
+interface HandGestureState {
+  active: GestureName | null;
+  activeSince: number;
+  candidate: GestureName | null;
+  candidateFrames: number;
+  releaseFrames: number;
+  pinchOrigin: { x: number; y: number } | null;
+  history: { x: number; t: number }[];
+  lastSwipe: number;
+}
+
+const createState = (): HandGestureState => ({
+  active: null,
+  activeSince: 0,
+  candidate: null,
+  candidateFrames: 0,
+  releaseFrames: 0,
+  pinchOrigin: null,
+  history: [],
+  lastSwipe: -Infinity,
+});
+
+/**
+ * Turns per-frame landmarks into debounced, typed gesture events per hand.
+ */
+export class GestureRecognizer {
+  private states: Record<Handedness, HandGestureState> = { Left: createState(), Right: createState() };
+  private listeners = new Set<GestureListener>();
+
+  constructor(private options: GestureOptions = DEFAULT_GESTURE_OPTIONS) {}
+
+  on(listener: GestureListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getActive(hand: Handedness) {
+    return this.states[hand].active;
+  }
+
+  /**
+   * Feed one frame of landmarks for a hand. `mirrored` flips X so that
+   * swipe directions and drag deltas match what the user sees on screen.
+   */
+  update(hand: Handedness, landmarks: HandLandmark[], mirrored: boolean, timestamp: number) {
+    const state = this.states[hand];
+    const scores = scoreGestures(landmarks, this.options);
+
+    // --- Static pose debouncing ---
+    const detected = PRIORITY.find((g) => scores[g] >= this.options.minConfidence) ?? null;
+
+    if (detected === state.candidate) {
+      state.candidateFrames++;
+    } else {
+      state.candidate = detected;
+      state.candidateFrames = 1;
+    }
+
+    if (detected === state.active) {
+      state.releaseFrames = 0;
+    } else if (state.active) {
+      state.releaseFrames++;
+      if (state.releaseFrames >= this.options.releaseFrames) {
+        this.end(hand, state, timestamp);
+      }
+    }
+
+    if (!state.active && detected && state.candidateFrames >= this.options.activateFrames) {
+      state.active = detected;
+      state.activeSince = timestamp;
+      state.releaseFrames = 0;
+      this.emit({ type: 'start', gesture: detected, hand, confidence: scores[detected], timestamp });
+    }
+
+    // --- Pinch drag ---
+    const toScreenX = (x: number) => (mirrored ? 1 - x : x);
+    if (state.active === 'pinch') {
+      const thumb = landmarks[THUMB_TIP];
+      const indexTip = landmarks[INDEX_TIP];
+      const point = { x: toScreenX((thumb.x + indexTip.x) / 2), y: (thumb.y + indexTip.y) / 2 };
+      if (!state.pinchOrigin) {
+        state.pinchOrigin = point;
+      } else {
+        this.emit({
+          type: 'pinch_drag',
+          hand,
+          dx: point.x - state.pinchOrigin.x,
+          dy: point.y - state.pinchOrigin.y,
+          timestamp,
+        });
+      }
+    }
+
+    // --- Horizontal swipe ---
+    // Only an open, moving palm swipes; pinching or pointing while moving should not.
+    const palmX = toScreenX((landmarks[WRIST].x + landmarks[MIDDLE_FINGER_MCP].x) / 2);
+    state.history.push({ x: palmX, t: timestamp });
+    while (state.history.length > 0 && timestamp - state.history[0].t > this.options.swipeWindowMs) {
+      state.history.shift();
+    }
+
+    const oldest = state.history[0];
+    const dx = palmX - oldest.x;
+    const dt = timestamp - oldest.t;
+    if (
+      scores.open_palm >= this.options.minConfidence &&
+      Math.abs(dx) >= this.options.swipeDistance &&
+      timestamp - state.lastSwipe >= this.options.swipeCooldownMs &&
+      dt > 0
+    ) {
+      state.lastSwipe = timestamp;
+      state.history = [];
+      this.emit({ type: 'swipe', hand, direction: dx > 0 ? 'right' : 'left', velocity: Math.abs(dx) / dt, timestamp });
+    }
+  }
+
+  /**
+   * Call when a hand is lost so that any active gesture ends cleanly.
+   */
+  handLost(hand: Handedness, timestamp: number) {
+    const state = this.states[hand];
+    if (state.active) this.end(hand, state, timestamp);
+    this.states[hand] = createState();
+  }
+
+  reset(timestamp = performance.now()) {
+    this.handLost('Left', timestamp);
+    this.handLost('Right', timestamp);
+  }
+
+  private end(hand: Handedness, state: HandGestureState, timestamp: number) {
+    const gesture = state.active!;
+    state.active = null;
+    state.releaseFrames = 0;
+    state.pinchOrigin = null;
+    this.emit({ type: 'end', gesture, hand, duration: timestamp - state.activeSince, timestamp });
+  }
+
+  private emit(event: GestureEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
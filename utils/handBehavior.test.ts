@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { createHandPose } from './poseSolver';
+import { createHandBehavior, DEFAULT_BEHAVIOR, HandBehavior, HandBehaviorInput, HandBehaviorOutput } from './handBehavior';
+
+const FRAME_MS = 16;
+
+const input = (overrides: Partial<HandBehaviorInput> = {}): HandBehaviorInput => ({
+  target: createHandPose(),
+  present: true,
+  palmFacing: true,
+  ...overrides,
+});
+
+const createOutput = (): HandBehaviorOutput => ({ ...createHandPose(), opacity: 0 });
+
+// Runs the behavior at 60 fps for `ms`, starting at `start`; returns the end time
+const run = (behavior: HandBehavior, frame: HandBehaviorInput, ms: number, start: number, out = createOutput()) => {
+  let now = start;
+  for (; now < start + ms; now += FRAME_MS) behavior.update(frame, now, FRAME_MS / 1000, out);
+  return now;
+};
+
+describe('createHandBehavior', () => {
+  it('stays hidden and transparent without a hand', () => {
+    const behavior = createHandBehavior();
+    const out = createOutput();
+    expect(behavior.update(input({ present: false }), 0, FRAME_MS / 1000, out)).toBe('hidden');
+    expect(out.opacity).toBe(0);
+  });
+
+  it('hops in from above the palm, then attaches', () => {
+    const behavior = createHandBehavior();
+    const out = createOutput();
+    expect(behavior.update(input(), 0, FRAME_MS / 1000, out)).toBe('entering');
+    expect(out.position.y).toBeGreaterThan(0);
+    expect(out.opacity).toBe(0);
+
+    run(behavior, input(), DEFAULT_BEHAVIOR.hopMs + FRAME_MS, FRAME_MS, out);
+    expect(behavior.state).toBe('attached');
+    expect(out.opacity).toBe(1);
+    expect(out.position.length()).toBeLessThan(1e-6);
+  });
+
+  it('does not enter for a hand showing its back', () => {
+    const behavior = createHandBehavior();
+    run(behavior, input({ palmFacing: false }), 500, 0);
+    expect(behavior.state).toBe('hidden');
+  });
+
+  it('follows the palm with a spring that overshoots and settles', () => {
+    const behavior = createHandBehavior();
+    let now = run(behavior, input(), DEFAULT_BEHAVIOR.hopMs + 2 * FRAME_MS, 0);
+    const target = createHandPose();
+    target.position.set(1, 0, 0);
+
+    const out = createOutput();
+    let maxX = 0;
+    for (const end = now + 1000; now < end; now += FRAME_MS) {
+      behavior.update(input({ target }), now, FRAME_MS / 1000, out);
+      maxX = Math.max(maxX, out.position.x);
+    }
+    expect(maxX).toBeGreaterThan(1);
+    expect(out.position.x).toBeCloseTo(1, 3);
+  });
+
+  it('falls, tumbles and fades out when the hand is lost', () => {
+    const behavior = createHandBehavior();
+    const out = createOutput();
+    let now = run(behavior, input(), DEFAULT_BEHAVIOR.hopMs + 2 * FRAME_MS, 0, out);
+
+    now = run(behavior, input({ present: false }), DEFAULT_BEHAVIOR.fadeOutMs / 2, now, out);
+    expect(behavior.state).toBe('falling');
+    expect(out.position.y).toBeLessThan(0);
+    expect(out.quaternion.angleTo(new THREE.Quaternion())).toBeGreaterThan(0);
+    expect(out.opacity).toBeGreaterThan(0);
+    expect(out.opacity).toBeLessThan(1);
+
+    run(behavior, input({ present: false }), DEFAULT_BEHAVIOR.fadeOutMs, now, out);
+    expect(behavior.state).toBe('hidden');
+    expect(out.opacity).toBe(0);
+  });
+
+  it('ignores a palm flip shorter than flipDelayMs', () => {
+    const behavior = createHandBehavior();
+    let now = run(behavior, input(), DEFAULT_BEHAVIOR.hopMs + 2 * FRAME_MS, 0);
+    now = run(behavior, input({ palmFacing: false }), DEFAULT_BEHAVIOR.flipDelayMs - 2 * FRAME_MS, now);
+    expect(behavior.state).toBe('attached');
+    run(behavior, input({ palmFacing: false }), 3 * FRAME_MS, now);
+    expect(behavior.state).toBe('falling');
+  });
+
+  it('hops back from where it is when the hand returns mid-fall', () => {
+    const behavior = createHandBehavior();
+    const out = createOutput();
+    let now = run(behavior, input(), DEFAULT_BEHAVIOR.hopMs + 2 * FRAME_MS, 0, out);
+    now = run(behavior, input({ present: false }), 200, now, out);
+    const fallenTo = out.position.y;
+
+    expect(behavior.update(input(), now, FRAME_MS / 1000, out)).toBe('entering');
+    // Starts the hop at the fallen position, not from above the palm
+    expect(out.position.y).toBeCloseTo(fallenTo, 1);
+  });
+});
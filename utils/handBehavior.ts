@@ -0,0 +1,172 @@
+import * as THREE from 'three';
+import { HandPose } from './poseSolver';
+
+/**
+ * Behavior layer between the filtered hand pose and the rendered model.
+ *
+ * Instead of toggling visibility, the model moves through a small state machine:
+ *
+ *   hidden --(hand present, palm up)--> entering --(hop done)--> attached
+ *   attached --(hand lost or palm flipped)--> falling --(faded out)--> hidden
+ *   falling --(hand back)--> entering
+ *
+ * While attached the model follows the palm through an underdamped spring, so it
+ * lags and overshoots a little on fast moves; that velocity carries into the fall.
+ */
+
+export type HandBehaviorState = 'hidden' | 'entering' | 'attached' | 'falling';
+
+export interface HandBehaviorParams {
+  // Spring stiffness (1/s²) and damping ratio of the follow spring
+  stiffness: number;
+  damping: number;
+  // Downward acceleration while falling, in scene units/s²
+  gravity: number;
+  // Spin around the model's X axis while falling, in rad/s
+  tumbleSpeed: number;
+  fadeOutMs: number;
+  hopMs: number;
+  // Height of the entrance hop, in multiples of the hand scale
+  hopHeight: number;
+  // How long the palm must face away before the model falls off (filters edge-on flicker)
+  flipDelayMs: number;
+}
+
+export const DEFAULT_BEHAVIOR: HandBehaviorParams = {
+  stiffness: 400,
+  damping: 0.6,
+  gravity: 40,
+  tumbleSpeed: 4,
+  fadeOutMs: 600,
+  hopMs: 350,
+  hopHeight: 1.5,
+  flipDelayMs: 150,
+};
+
+export interface HandBehaviorInput {
+  // Filtered pose of the palm anchor
+  target: HandPose;
+  // Hand is tracked and the model is not hidden by a gesture
+  present: boolean;
+  palmFacing: boolean;
+}
+
+export interface HandBehaviorOutput extends HandPose {
+  // 0..1, to be applied to the model's materials
+  opacity: number;
+}
+
+export interface HandBehavior {
+  readonly state: HandBehaviorState;
+  // `now` in ms, `dt` in seconds
+  update(input: HandBehaviorInput, now: number, dt: number, out: HandBehaviorOutput): HandBehaviorState;
+}
+
+// Overshoots slightly before settling, for the entrance pop
+const easeOutBack = (t: number) => {
+  const c = 1.70158;
+  return 1 + (c + 1) * Math.pow(t - 1, 3) + c * Math.pow(t - 1, 2);
+};
+
+const _accel = new THREE.Vector3();
+const _tumble = new THREE.Quaternion();
+const _xAxis = new THREE.Vector3(1, 0, 0);
+
+export const createHandBehavior = (params: HandBehaviorParams = DEFAULT_BEHAVIOR): HandBehavior => {
+  let state: HandBehaviorState = 'hidden';
+  let stateStart = 0;
+  let flippedSince: number | null = null;
+
+  const position = new THREE.Vector3();
+  const velocity = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3(1, 1, 1);
+  // Where the entrance hop starts, relative to the target
+  const hopFrom = new THREE.Vector3();
+
+  const enter = (to: HandBehaviorState, now: number) => {
+    state = to;
+    stateStart = now;
+  };
+
+  const startEntrance = (target: HandPose, now: number) => {
+    // Falling models hop back from where they are; hidden ones drop in from above
+    if (state === 'falling') {
+      hopFrom.subVectors(position, target.position);
+    } else {
+      hopFrom.set(0, params.hopHeight * target.scale.y, 0);
+    }
+    velocity.set(0, 0, 0);
+    enter('entering', now);
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+
+    update({ target, present, palmFacing }, now, dt, out) {
+      if (present && !palmFacing) {
+        flippedSince ??= now;
+      } else {
+        flippedSince = null;
+      }
+      const flipped = flippedSince !== null && now - flippedSince >= params.flipDelayMs;
+      const onPalm = present && !flipped;
+
+      if ((state === 'hidden' || state === 'falling') && onPalm && palmFacing) {
+        startEntrance(target, now);
+      } else if ((state === 'entering' || state === 'attached') && !onPalm) {
+        enter('falling', now);
+      }
+
+      let opacity = 1;
+      switch (state) {
+        case 'hidden':
+          opacity = 0;
+          break;
+
+        case 'entering': {
+          const t = Math.min(1, (now - stateStart) / params.hopMs);
+          // Straight path from the start point onto the palm, lifted into an arc half a hop high
+          const lift = 2 * t * (1 - t) * params.hopHeight * target.scale.y;
+          position.copy(target.position).addScaledVector(hopFrom, 1 - t);
+          position.y += lift;
+          quaternion.copy(target.quaternion);
+          scale.copy(target.scale).multiplyScalar(0.6 + 0.4 * easeOutBack(t));
+          opacity = t;
+          if (t >= 1) enter('attached', now);
+          break;
+        }
+
+        case 'attached': {
+          // Underdamped spring towards the palm
+          const k = params.stiffness;
+          const c = 2 * params.damping * Math.sqrt(k);
+          _accel.subVectors(target.position, position).multiplyScalar(k).addScaledVector(velocity, -c);
+          velocity.addScaledVector(_accel, dt);
+          position.addScaledVector(velocity, dt);
+          quaternion.copy(target.quaternion);
+          scale.copy(target.scale);
+          break;
+        }
+
+        case 'falling': {
+          velocity.y -= params.gravity * dt;
+          position.addScaledVector(velocity, dt);
+          quaternion.multiply(_tumble.setFromAxisAngle(_xAxis, params.tumbleSpeed * dt));
+          const t = (now - stateStart) / params.fadeOutMs;
+          opacity = Math.max(0, 1 - t);
+          if (t >= 1) enter('hidden', now);
+          break;
+        }
+      }
+
+      out.position.copy(position);
+      out.quaternion.copy(quaternion);
+      out.scale.copy(scale);
+      out.opacity = opacity;
+      return state;
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionResult, Handedness } from '../types';
+import { HandIdentityTracker, readHandednessLabel } from './handIdentity';
+import { HandPoseTracker } from './handPoseTracker';
+
+interface FakeHand {
+  x: number;
+  y: number;
+  // MediaPipe's label, which is the mirror of the anatomical hand
+  label: Handedness;
+  score?: number;
+}
+
+const detection = (...hands: FakeHand[]): DetectionResult => ({
+  landmarks: hands.map(({ x, y }) => Array.from({ length: 21 }, () => ({ x, y, z: 0 }))),
+  worldLandmarks: [],
+  handedness: hands.map(({ label, score = 0.95 }) => [{ categoryName: label, score }]),
+});
+
+const idsByIndex = (assignments: { id: Handedness; index: number }[]) =>
+  [...assignments].sort((a, b) => a.index - b.index).map((a) => a.id);
+
+describe('readHandednessLabel', () => {
+  it('swaps MediaPipe’s selfie-image label for the anatomical hand', () => {
+    expect(readHandednessLabel(detection({ x: 0.5, y: 0.5, label: 'Right' }), 0)).toEqual({ id: 'Left', score: 0.95 });
+    expect(readHandednessLabel(detection({ x: 0.5, y: 0.5, label: 'Left' }), 0)).toEqual({ id: 'Right', score: 0.95 });
+  });
+
+  it('returns null without a handedness label', () => {
+    expect(readHandednessLabel({ landmarks: [[]], worldLandmarks: [] }, 0)).toBeNull();
+  });
+});
+
+describe('handedness on the front and rear cameras', () => {
+  // Both cameras deliver raw, unflipped frames; the front camera is only mirrored on screen
+  it.each([
+    ['front', true],
+    ['rear', false],
+  ])('reads the anatomical hand from MediaPipe’s label on the %s camera', (_camera, mirrored) => {
+    const view = { viewWidth: 1280, viewHeight: 720, videoWidth: 1280, videoHeight: 720, mirrored };
+    for (const [label, hand] of [['Right', 'Left'], ['Left', 'Right']] as [Handedness, Handedness][]) {
+      const found: Handedness[] = [];
+      const tracker = new HandPoseTracker({ onHandFound: (id) => found.push(id) });
+      tracker.process(detection({ x: 0.5, y: 0.5, label }), 0, view);
+      expect(found).toEqual([hand]);
+    }
+  });
+});
+
+describe('HandIdentityTracker', () => {
+  it('assigns new hands by their label', () => {
+    const tracker = new HandIdentityTracker();
+    const assignments = tracker.assign(detection({ x: 0.3, y: 0.5, label: 'Left' }, { x: 0.7, y: 0.5, label: 'Right' }), 0);
+    expect(idsByIndex(assignments)).toEqual(['Right', 'Left']);
+  });
+
+  it('keeps each hand in its slot while the hands cross and the labels flicker', () => {
+    const tracker = new HandIdentityTracker();
+    for (let step = 0; step <= 8; step++) {
+      const a = 0.3 + step * 0.05;
+      const b = 0.7 - step * 0.05;
+      // Around the crossing MediaPipe swaps the labels
+      const flicker = step >= 3 && step <= 5;
+      const assignments = tracker.assign(
+        detection({ x: a, y: 0.3, label: flicker ? 'Left' : 'Right' }, { x: b, y: 0.7, label: flicker ? 'Right' : 'Left' }),
+        step * 33
+      );
+      expect(idsByIndex(assignments)).toEqual(['Left', 'Right']);
+    }
+  });
+
+  it('follows the hands, not the detection order, when MediaPipe reorders them', () => {
+    const tracker = new HandIdentityTracker();
+    tracker.assign(detection({ x: 0.3, y: 0.5, label: 'Right' }, { x: 0.7, y: 0.5, label: 'Left' }), 0);
+    const assignments = tracker.assign(detection({ x: 0.7, y: 0.5, label: 'Left' }, { x: 0.3, y: 0.5, label: 'Right' }), 33);
+    expect(idsByIndex(assignments)).toEqual(['Right', 'Left']);
+  });
+
+  it('ignores a low-confidence label flicker on a tracked hand', () => {
+    const tracker = new HandIdentityTracker();
+    tracker.assign(detection({ x: 0.5, y: 0.5, label: 'Right' }), 0);
+    const assignments = tracker.assign(detection({ x: 0.51, y: 0.5, label: 'Left', score: 0.6 }), 33);
+    expect(idsByIndex(assignments)).toEqual(['Left']);
+  });
+
+  it('trusts the label again once the last position is stale', () => {
+    const tracker = new HandIdentityTracker();
+    tracker.assign(detection({ x: 0.5, y: 0.5, label: 'Right' }), 0);
+    const assignments = tracker.assign(detection({ x: 0.5, y: 0.5, label: 'Left', score: 0.6 }), 1000);
+    expect(idsByIndex(assignments)).toEqual(['Right']);
+  });
+
+  it('forgets positions on reset', () => {
+    const tracker = new HandIdentityTracker();
+    tracker.assign(detection({ x: 0.5, y: 0.5, label: 'Right' }), 0);
+    tracker.reset();
+    const assignments = tracker.assign(detection({ x: 0.5, y: 0.5, label: 'Left', score: 0.6 }), 33);
+    expect(idsByIndex(assignments)).toEqual(['Right']);
+  });
+});
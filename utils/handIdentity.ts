@@ -0,0 +1,95 @@
+import { DetectionResult, Handedness, HandLandmark } from '../types';
+import { MIDDLE_FINGER_MCP, WRIST } from './poseSolver';
+
+export const HAND_IDS: Handedness[] = ['Left', 'Right'];
+
+export interface HandAssignment {
+  id: Handedness;
+  // Index into DetectionResult.landmarks
+  index: number;
+}
+
+// How long a hand's last position is trusted for matching, in ms
+const POSITION_MEMORY_MS = 500;
+// Cost of contradicting MediaPipe's handedness label (scaled by its score)
+const LABEL_WEIGHT = 0.15;
+// Distance cost used when there is no recent position for a slot
+const UNKNOWN_DISTANCE = 0.1;
+
+interface SlotMemory {
+  x: number;
+  y: number;
+  time: number;
+}
+
+const palmCenter = (landmarks: HandLandmark[]) => ({
+  x: (landmarks[WRIST].x + landmarks[MIDDLE_FINGER_MCP].x) / 2,
+  y: (landmarks[WRIST].y + landmarks[MIDDLE_FINGER_MCP].y) / 2,
+});
+
+/**
+ * MediaPipe's handedness label for one detected hand, as the anatomical hand.
+ *
+ * MediaPipe labels assume a horizontally flipped (selfie) input image. We always
+ * feed raw camera frames (mirroring is CSS only), so the label is swapped for both cameras.
+ */
+export const readHandednessLabel = (result: DetectionResult, index: number): { id: Handedness; score: number } | null => {
+  const top = result.handedness?.[index]?.[0];
+  if (!top || (top.categoryName !== 'Left' && top.categoryName !== 'Right')) return null;
+
+  const id: Handedness = top.categoryName === 'Left' ? 'Right' : 'Left';
+  return { id, score: top.score };
+};
+
+/**
+ * Assigns detected hands to stable Left/Right slots.
+ *
+ * MediaPipe's handedness label flickers when hands cross or are seen edge-on,
+ * so the label is only one term of the matching cost; the other is the distance
+ * to where each slot's hand was last seen. With at most two hands, both possible
+ * assignments are scored and the cheaper one wins.
+ */
+export class HandIdentityTracker {
+  private memory: Record<Handedness, SlotMemory | null> = { Left: null, Right: null };
+
+  reset() {
+    this.memory = { Left: null, Right: null };
+  }
+
+  assign(result: DetectionResult, timestamp: number): HandAssignment[] {
+    const hands = result.landmarks.slice(0, HAND_IDS.length);
+    if (hands.length === 0) return [];
+
+    const centers = hands.map(palmCenter);
+    const labels = hands.map((_, i) => readHandednessLabel(result, i));
+
+    const cost = (index: number, id: Handedness) => {
+      const label = labels[index];
+      const labelCost = label && label.id !== id ? label.score * LABEL_WEIGHT : 0;
+
+      const mem = this.memory[id];
+      let distCost = UNKNOWN_DISTANCE;
+      if (mem && timestamp - mem.time < POSITION_MEMORY_MS) {
+        distCost = Math.hypot(centers[index].x - mem.x, centers[index].y - mem.y);
+      }
+      return labelCost + distCost;
+    };
+
+    let assignments: HandAssignment[];
+    if (hands.length === 1) {
+      const id = cost(0, 'Left') <= cost(0, 'Right') ? 'Left' : 'Right';
+      assignments = [{ id, index: 0 }];
+    } else {
+      const straight = cost(0, 'Left') + cost(1, 'Right');
+      const crossed = cost(0, 'Right') + cost(1, 'Left');
+      assignments = straight <= crossed
+        ? [{ id: 'Left', index: 0 }, { id: 'Right', index: 1 }]
+        : [{ id: 'Right', index: 0 }, { id: 'Left', index: 1 }];
+    }
+
+    for (const { id, index } of assignments) {
+      this.memory[id] = { ...centers[index], time: timestamp };
+    }
+    return assignments;
+  }
+}
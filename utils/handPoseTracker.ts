@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import { DetectionResult, Handedness } from '../types';
+import { createHandJoints, DEFAULT_POSE_PARAMS, estimateVideoFov, HandJoints, solveHandJoints, solveHandPose } from './poseSolver';
+import { HandIdentityTracker, HAND_IDS } from './handIdentity';
+import { GestureEvent, GestureRecognizer } from './gestureRecognizer';
+import { DEFAULT_CALIBRATION, PlacementCalibration } from './calibration';
+import { videoAspect, ViewMapping } from './viewMapping';
+
+/**
+ * Turns detection results into per-hand poses: stable hand identities, pose and
+ * joints, gestures and found/lost hysteresis. Shared by App and HandTrackingSession.
+ */
+
+// Per-hand pose refs, shaped for ARCanvas' TrackedHand
+export interface TrackedHandPose {
+  positionRef: { current: THREE.Vector3 };
+  scaleRef: { current: THREE.Vector3 };
+  rotationRef: { current: THREE.Quaternion };
+  timestampRef: { current: number };
+  palmFacingRef: { current: boolean };
+  jointsRef: { current: HandJoints };
+  detected: boolean;
+}
+
+export interface HandPoseTrackerOptions {
+  // Read on every detection, so changes apply immediately
+  getCalibration?: (hand: Handedness) => PlacementCalibration;
+  // After a hand's pose is solved, e.g. to scale it further or record telemetry
+  onHandSolved?: (hand: Handedness, result: DetectionResult, index: number) => void;
+  onHandFound?: (hand: Handedness) => void;
+  onHandLost?: (hand: Handedness) => void;
+  onGesture?: (event: GestureEvent) => void;
+}
+
+// A hand counts as lost after this long without a detection
+const LOST_AFTER_MS = 50;
+
+const createTrackedHandPose = (): TrackedHandPose => ({
+  positionRef: { current: new THREE.Vector3() },
+  scaleRef: { current: new THREE.Vector3(1, 1, 1) },
+  rotationRef: { current: new THREE.Quaternion() },
+  timestampRef: { current: 0 },
+  palmFacingRef: { current: true },
+  jointsRef: { current: createHandJoints() },
+  detected: false,
+});
+
+export class HandPoseTracker {
+  readonly hands: Record<Handedness, TrackedHandPose> = { Left: createTrackedHandPose(), Right: createTrackedHandPose() };
+
+  private identity = new HandIdentityTracker();
+  private gestures = new GestureRecognizer();
+
+  constructor(private options: HandPoseTrackerOptions = {}) {
+    this.gestures.on((event) => this.options.onGesture?.(event));
+  }
+
+  /**
+   * Applies one detection result. `now` is the capture time of the frame it came
+   * from; `view` maps that frame onto the screen.
+   */
+  process(result: DetectionResult, now: number, view: ViewMapping) {
+    const params = { ...DEFAULT_POSE_PARAMS, view, videoFov: estimateVideoFov(videoAspect(view)) };
+    const assignments = this.identity.assign(result, now);
+
+    for (const { id, index } of assignments) {
+      const hand = this.hands[id];
+      const calibration = this.options.getCalibration?.(id) ?? DEFAULT_CALIBRATION;
+      const handParams = {
+        ...params,
+        anchorRatio: calibration.anchorRatio,
+        orientationMode: calibration.orientationMode,
+        palmBlend: calibration.palmBlend,
+        handedness: id,
+      };
+
+      hand.timestampRef.current = now;
+      const pose = solveHandPose(result, handParams, index, {
+        position: hand.positionRef.current,
+        scale: hand.scaleRef.current,
+        quaternion: hand.rotationRef.current,
+      });
+      hand.palmFacingRef.current = pose?.palmFacing ?? true;
+      solveHandJoints(result, handParams, index, hand.jointsRef.current);
+      this.options.onHandSolved?.(id, result, index);
+      this.gestures.update(id, result.landmarks[index], view.mirrored, now);
+
+      if (!hand.detected) {
+        hand.detected = true;
+        this.options.onHandFound?.(id);
+      }
+    }
+
+    for (const id of HAND_IDS) {
+      const hand = this.hands[id];
+      if (hand.detected && !assignments.some((a) => a.id === id) && now - hand.timestampRef.current > LOST_AFTER_MS) {
+        this.markLost(id, now);
+      }
+    }
+  }
+
+  /**
+   * Reports every detected hand as lost, e.g. when the camera stops.
+   */
+  loseAll(now: number) {
+    for (const id of HAND_IDS) {
+      if (this.hands[id].detected) this.markLost(id, now);
+    }
+    this.reset();
+  }
+
+  /**
+   * Forgets all hands without reporting them lost.
+   */
+  reset() {
+    for (const id of HAND_IDS) this.hands[id].detected = false;
+    this.identity.reset();
+    this.gestures.reset();
+  }
+
+  private markLost(id: Handedness, now: number) {
+    this.hands[id].detected = false;
+    this.gestures.handLost(id, now);
+    this.options.onHandLost?.(id);
+  }
+}
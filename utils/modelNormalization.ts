@@ -0,0 +1,19 @@
+import * as THREE from 'three';
+
+// Height (in hand-group units) uploaded models are scaled to; matches the built-in rabbit
+export const DEFAULT_MODEL_HEIGHT = 2;
+
+/**
+ * Uniform scale that makes `object` `targetHeight` tall. Flat models (e.g. a
+ * rug) would explode when scaled by height alone, so the largest dimension is
+ * also capped at twice the target.
+ */
+export const computeNormalizedScale = (object: THREE.Object3D, targetHeight = DEFAULT_MODEL_HEIGHT) => {
+  const size = new THREE.Box3().setFromObject(object).getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z);
+  if (!Number.isFinite(maxDim) || maxDim <= 0) return 1;
+
+  const byHeight = size.y > 0 ? targetHeight / size.y : Infinity;
+  const byMaxDim = (targetHeight * 2) / maxDim;
+  return Math.min(byHeight, byMaxDim);
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { createHandPose, HandPose } from './poseSolver';
+import { createPoseFilter, KALMAN_DEFAULTS, ONE_EURO_DEFAULTS, PoseFilter, sanitizeSmoothing, SMOOTHING_LIMITS } from './poseFilter';
+
+const pose = (x: number, angle = 0): HandPose => ({
+  position: new THREE.Vector3(x, 0, 0),
+  scale: new THREE.Vector3(1, 1, 1),
+  quaternion: new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), angle),
+});
+
+const sampleAt = (filter: PoseFilter, timestamp: number) => {
+  const out = createHandPose();
+  filter.sample(timestamp, out);
+  return out;
+};
+
+describe.each([ONE_EURO_DEFAULTS, KALMAN_DEFAULTS])('$type pose filter', (config) => {
+  it('leaves the output untouched before the first measurement', () => {
+    const filter = createPoseFilter(config);
+    const out = pose(7);
+    filter.sample(0, out);
+    expect(filter.hasMeasurement).toBe(false);
+    expect(out.position.x).toBe(7);
+  });
+
+  it('snaps to the first measurement', () => {
+    const filter = createPoseFilter(config);
+    filter.update(pose(2, 0.5), 1000);
+    const out = sampleAt(filter, 1000);
+    expect(out.position.x).toBeCloseTo(2, 6);
+    expect(out.quaternion.angleTo(pose(2, 0.5).quaternion)).toBeLessThan(1e-6);
+  });
+
+  it('ignores a second measurement with the same timestamp (dt = 0)', () => {
+    const filter = createPoseFilter(config);
+    filter.update(pose(0), 1000);
+    filter.update(pose(1), 1033);
+    const before = sampleAt(filter, 1033);
+    filter.update(pose(5), 1033);
+    const after = sampleAt(filter, 1033);
+    expect(after.position.toArray().every(Number.isFinite)).toBe(true);
+    expect(after.position.x).toBe(before.position.x);
+  });
+
+  it('moves part of the way towards a step and settles on it', () => {
+    const filter = createPoseFilter(config);
+    filter.update(pose(0), 0);
+    filter.update(pose(1), 33);
+    const first = sampleAt(filter, 33).position.x;
+    expect(first).toBeGreaterThan(0);
+    expect(first).toBeLessThan(1);
+
+    for (let t = 66; t <= 3000; t += 33) filter.update(pose(1), t);
+    expect(sampleAt(filter, 3000).position.x).toBeCloseTo(1, 2);
+  });
+
+  it('snaps instead of smoothing after a long gap', () => {
+    const filter = createPoseFilter(config);
+    filter.update(pose(0), 0);
+    filter.update(pose(3), 1000);
+    expect(sampleAt(filter, 1000).position.x).toBeCloseTo(3, 6);
+  });
+
+  it('extrapolates along the velocity, at most 100 ms ahead', () => {
+    const filter = createPoseFilter(config);
+    // 1 unit per second
+    for (let t = 0; t <= 2000; t += 33) filter.update(pose(t / 1000), t);
+    // Last measurement at 1980 ms
+    const now = sampleAt(filter, 1980).position.x;
+    expect(sampleAt(filter, 2030).position.x).toBeGreaterThan(now + 0.04);
+    expect(sampleAt(filter, 5000).position.x).toBeCloseTo(sampleAt(filter, 2080).position.x, 6);
+  });
+
+  it('treats q and -q as the same rotation', () => {
+    const filter = createPoseFilter(config);
+    const measurement = pose(0, 1);
+    filter.update(measurement, 0);
+    for (let t = 33; t <= 330; t += 33) {
+      const flipped = pose(0, 1);
+      if ((t / 33) % 2) flipped.quaternion.set(-flipped.quaternion.x, -flipped.quaternion.y, -flipped.quaternion.z, -flipped.quaternion.w);
+      filter.update(flipped, t);
+    }
+    expect(sampleAt(filter, 330).quaternion.angleTo(measurement.quaternion)).toBeLessThan(1e-3);
+  });
+
+  it('starts over after reset', () => {
+    const filter = createPoseFilter(config);
+    filter.update(pose(0), 0);
+    filter.reset();
+    expect(filter.hasMeasurement).toBe(false);
+    filter.update(pose(4), 33);
+    expect(sampleAt(filter, 33).position.x).toBeCloseTo(4, 6);
+  });
+});
+
+describe('sanitizeSmoothing', () => {
+  it('falls back to the One Euro defaults for unknown data', () => {
+    expect(sanitizeSmoothing(null)).toEqual(ONE_EURO_DEFAULTS);
+    expect(sanitizeSmoothing({ type: 'median' })).toEqual(ONE_EURO_DEFAULTS);
+  });
+
+  it('clamps stored values and fills missing channels from the type defaults', () => {
+    const config = sanitizeSmoothing({ type: 'kalman', predictionMs: 500, params: { position: { processNoise: -1 } } });
+    expect(config.type).toBe('kalman');
+    expect(config.predictionMs).toBe(SMOOTHING_LIMITS.predictionMs[1]);
+    expect(config.params.position).toEqual({ processNoise: SMOOTHING_LIMITS.processNoise[0], measurementNoise: 0.002 });
+    expect(config.params.rotation).toEqual(KALMAN_DEFAULTS.params.rotation);
+  });
+});
@@ -0,0 +1,324 @@
+import * as THREE from 'three';
+import { HandPose } from './poseSolver';
+import { clampTo, isObject } from './validation';
+
+/**
+ * Time-based smoothing for hand poses.
+ *
+ * Measurements arrive at detection rate with their detection timestamps
+ * (performance.now() ms); the render loop samples the filter at its own rate.
+ * Because every step uses real elapsed time, the result no longer depends on
+ * the display refresh rate. Sampling extrapolates along the estimated velocity
+ * from the last measurement to render time (+ optional prediction) to hide
+ * detection latency.
+ */
+
+export interface OneEuroParams {
+  // Cutoff frequency (Hz) when still; lower = less jitter
+  minCutoff: number;
+  // Speed coefficient; higher = less lag on fast moves
+  beta: number;
+  // Cutoff frequency (Hz) for the derivative estimate
+  dCutoff: number;
+}
+
+export interface KalmanParams {
+  // Acceleration noise spectral density of the constant-velocity model
+  processNoise: number;
+  // Variance of a single measurement
+  measurementNoise: number;
+}
+
+export interface ChannelParams<T> {
+  position: T;
+  scale: T;
+  rotation: T;
+}
+
+export type SmoothingConfig =
+  | { type: 'one_euro'; params: ChannelParams<OneEuroParams>; predictionMs: number }
+  | { type: 'kalman'; params: ChannelParams<KalmanParams>; predictionMs: number };
+
+export const ONE_EURO_DEFAULTS: SmoothingConfig = {
+  type: 'one_euro',
+  params: {
+    position: { minCutoff: 1.0, beta: 0.4, dCutoff: 1.0 },
+    scale: { minCutoff: 0.6, beta: 0.3, dCutoff: 1.0 },
+    rotation: { minCutoff: 0.8, beta: 1.5, dCutoff: 1.0 },
+  },
+  predictionMs: 0,
+};
+
+export const KALMAN_DEFAULTS: SmoothingConfig = {
+  type: 'kalman',
+  params: {
+    position: { processNoise: 20, measurementNoise: 0.002 },
+    scale: { processNoise: 5, measurementNoise: 0.001 },
+    rotation: { processNoise: 10, measurementNoise: 0.0005 },
+  },
+  predictionMs: 0,
+};
+
+export const DEFAULT_SMOOTHING = ONE_EURO_DEFAULTS;
+
+export type SmoothingType = SmoothingConfig['type'];
+
+export const SMOOTHING_DEFAULTS: Record<SmoothingType, SmoothingConfig> = {
+  one_euro: ONE_EURO_DEFAULTS,
+  kalman: KALMAN_DEFAULTS,
+};
+
+export const SMOOTHING_LIMITS = {
+  minCutoff: [0.05, 5],
+  beta: [0, 5],
+  dCutoff: [0.1, 5],
+  processNoise: [0.5, 100],
+  measurementNoise: [0.0001, 0.01],
+  predictionMs: [0, 60],
+} as const;
+
+const CHANNELS = ['position', 'scale', 'rotation'] as const;
+
+/**
+ * Coerces stored data into a valid smoothing config, filling gaps with the
+ * defaults of its filter type.
+ */
+export const sanitizeSmoothing = (value: unknown): SmoothingConfig => {
+  const data = isObject(value) ? value : {};
+  const storedParams = isObject(data.params) ? data.params : {};
+  const storedChannel = (channel: (typeof CHANNELS)[number]) => {
+    const stored = storedParams[channel];
+    return isObject(stored) ? stored : {};
+  };
+  const predictionMs = clampTo(data.predictionMs, SMOOTHING_LIMITS.predictionMs, 0);
+  if (data.type === 'kalman') {
+    const defaults = KALMAN_DEFAULTS.params as ChannelParams<KalmanParams>;
+    const params = {} as ChannelParams<KalmanParams>;
+    for (const channel of CHANNELS) {
+      const stored = storedChannel(channel);
+      params[channel] = {
+        processNoise: clampTo(stored.processNoise, SMOOTHING_LIMITS.processNoise, defaults[channel].processNoise),
+        measurementNoise: clampTo(stored.measurementNoise, SMOOTHING_LIMITS.measurementNoise, defaults[channel].measurementNoise),
+      };
+    }
+    return { type: 'kalman', params, predictionMs };
+  }
+  const defaults = ONE_EURO_DEFAULTS.params as ChannelParams<OneEuroParams>;
+  const params = {} as ChannelParams<OneEuroParams>;
+  for (const channel of CHANNELS) {
+    const stored = storedChannel(channel);
+    params[channel] = {
+      minCutoff: clampTo(stored.minCutoff, SMOOTHING_LIMITS.minCutoff, defaults[channel].minCutoff),
+      beta: clampTo(stored.beta, SMOOTHING_LIMITS.beta, defaults[channel].beta),
+      dCutoff: clampTo(stored.dCutoff, SMOOTHING_LIMITS.dCutoff, defaults[channel].dCutoff),
+    };
+  }
+  return { type: 'one_euro', params, predictionMs };
+};
+
+// Gaps longer than this (e.g. hand lost and found again) snap instead of smoothing
+const RESET_AFTER_MS = 300;
+// Extrapolation beyond this horizon gets unstable, so it is clamped
+const MAX_HORIZON_MS = 100;
+
+/**
+ * Filters a fixed-size vector of components sharing one timebase.
+ */
+interface VectorFilter {
+  update(values: number[], dt: number): void;
+  // Writes value + velocity * horizon (seconds) into out
+  sample(horizon: number, out: number[]): void;
+  reset(values: number[]): void;
+}
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+class OneEuroVector implements VectorFilter {
+  private value: number[];
+  private velocity: number[];
+
+  constructor(size: number, private params: OneEuroParams) {
+    this.value = new Array(size).fill(0);
+    this.velocity = new Array(size).fill(0);
+  }
+
+  reset(values: number[]) {
+    this.value = values.slice();
+    this.velocity.fill(0);
+  }
+
+  update(values: number[], dt: number) {
+    const { minCutoff, beta, dCutoff } = this.params;
+    const aD = smoothingFactor(dCutoff, dt);
+
+    // Cutoff adapts to the speed of the whole vector, not per component,
+    // so e.g. a horizontal move doesn't leave Y lagging behind
+    let speedSq = 0;
+    for (let i = 0; i < values.length; i++) {
+      const raw = (values[i] - this.value[i]) / dt;
+      this.velocity[i] += aD * (raw - this.velocity[i]);
+      speedSq += this.velocity[i] * this.velocity[i];
+    }
+
+    const a = smoothingFactor(minCutoff + beta * Math.sqrt(speedSq), dt);
+    for (let i = 0; i < values.length; i++) {
+      this.value[i] += a * (values[i] - this.value[i]);
+    }
+  }
+
+  sample(horizon: number, out: number[]) {
+    for (let i = 0; i < this.value.length; i++) {
+      out[i] = this.value[i] + this.velocity[i] * horizon;
+    }
+  }
+}
+
+/**
+ * Independent constant-velocity Kalman filters per component.
+ * State [p, v] with covariance [[p00, p01], [p01, p11]].
+ */
+class KalmanVector implements VectorFilter {
+  private p: number[];
+  private v: number[];
+  private p00: number[];
+  private p01: number[];
+  private p11: number[];
+
+  constructor(private size: number, private params: KalmanParams) {
+    this.p = new Array(size).fill(0);
+    this.v = new Array(size).fill(0);
+    this.p00 = new Array(size).fill(1);
+    this.p01 = new Array(size).fill(0);
+    this.p11 = new Array(size).fill(1);
+  }
+
+  reset(values: number[]) {
+    this.p = values.slice();
+    this.v.fill(0);
+    this.p00.fill(this.params.measurementNoise);
+    this.p01.fill(0);
+    this.p11.fill(1);
+  }
+
+  update(values: number[], dt: number) {
+    const q = this.params.processNoise;
+    const r = this.params.measurementNoise;
+    const dt2 = dt * dt;
+
+    for (let i = 0; i < this.size; i++) {
+      // Predict
+      this.p[i] += this.v[i] * dt;
+      const p00 = this.p00[i] + dt * (2 * this.p01[i] + dt * this.p11[i]) + (q * dt2 * dt) / 3;
+      const p01 = this.p01[i] + dt * this.p11[i] + (q * dt2) / 2;
+      const p11 = this.p11[i] + q * dt;
+
+      // Correct
+      const s = p00 + r;
+      const k0 = p00 / s;
+      const k1 = p01 / s;
+      const innovation = values[i] - this.p[i];
+      this.p[i] += k0 * innovation;
+      this.v[i] += k1 * innovation;
+
+      this.p00[i] = (1 - k0) * p00;
+      this.p01[i] = (1 - k0) * p01;
+      this.p11[i] = p11 - k1 * p01;
+    }
+  }
+
+  sample(horizon: number, out: number[]) {
+    for (let i = 0; i < this.size; i++) {
+      out[i] = this.p[i] + this.v[i] * horizon;
+    }
+  }
+}
+
+export interface PoseFilter {
+  readonly hasMeasurement: boolean;
+  // Feed a raw pose measured at `timestamp` (ms)
+  update(pose: HandPose, timestamp: number): void;
+  // Write the filtered pose at render time `timestamp` (ms) into `out`
+  sample(timestamp: number, out: HandPose): void;
+  reset(): void;
+}
+
+const createVectorFilter = <T extends OneEuroParams | KalmanParams>(
+  config: SmoothingConfig,
+  size: number,
+  params: T
+): VectorFilter =>
+  config.type === 'one_euro'
+    ? new OneEuroVector(size, params as OneEuroParams)
+    : new KalmanVector(size, params as KalmanParams);
+
+class ChannelPoseFilter implements PoseFilter {
+  private position: VectorFilter;
+  private scale: VectorFilter;
+  private rotation: VectorFilter;
+  private lastTimestamp = -Infinity;
+  private lastQuaternion = new THREE.Quaternion();
+  private buffer3 = [0, 0, 0];
+  private buffer4 = [0, 0, 0, 0];
+
+  constructor(private config: SmoothingConfig) {
+    const { params } = config;
+    this.position = createVectorFilter(config, 3, params.position);
+    this.scale = createVectorFilter(config, 3, params.scale);
+    this.rotation = createVectorFilter(config, 4, params.rotation);
+  }
+
+  get hasMeasurement() {
+    return this.lastTimestamp > -Infinity;
+  }
+
+  reset() {
+    this.lastTimestamp = -Infinity;
+  }
+
+  update(pose: HandPose, timestamp: number) {
+    const q = pose.quaternion;
+    // q and -q are the same rotation; keep the measurement in the hemisphere of
+    // the previous one so component-wise filtering doesn't average across it
+    const sign = this.hasMeasurement && this.lastQuaternion.dot(q) < 0 ? -1 : 1;
+    const quat = [q.x * sign, q.y * sign, q.z * sign, q.w * sign];
+    const position = pose.position.toArray();
+    const scale = pose.scale.toArray();
+
+    const gap = timestamp - this.lastTimestamp;
+    if (gap > RESET_AFTER_MS) {
+      this.position.reset(position);
+      this.scale.reset(scale);
+      this.rotation.reset(quat);
+    } else if (gap > 0) {
+      const dt = gap / 1000;
+      this.position.update(position, dt);
+      this.scale.update(scale, dt);
+      this.rotation.update(quat, dt);
+    } else {
+      // Duplicate timestamp: nothing new to learn
+      return;
+    }
+
+    this.lastQuaternion.set(quat[0], quat[1], quat[2], quat[3]);
+    this.lastTimestamp = timestamp;
+  }
+
+  sample(timestamp: number, out: HandPose) {
+    if (!this.hasMeasurement) return;
+
+    const horizonMs = THREE.MathUtils.clamp(timestamp - this.lastTimestamp + this.config.predictionMs, 0, MAX_HORIZON_MS);
+    const horizon = horizonMs / 1000;
+
+    this.position.sample(horizon, this.buffer3);
+    out.position.fromArray(this.buffer3);
+    this.scale.sample(horizon, this.buffer3);
+    out.scale.fromArray(this.buffer3);
+    this.rotation.sample(horizon, this.buffer4);
+    out.quaternion.fromArray(this.buffer4).normalize();
+  }
+}
+
+export const createPoseFilter = (config: SmoothingConfig = DEFAULT_SMOOTHING): PoseFilter => new ChannelPoseFilter(config);
@@ -0,0 +1,235 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { DetectionResult, Handedness, HandLandmark } from '../types';
+import {
+  DEFAULT_POSE_PARAMS,
+  PoseSolverParams,
+  solveDepth,
+  solveHandPose,
+  solvePalmNormal,
+  solvePalmRotation,
+  solveRotation,
+  WRIST,
+} from './poseSolver';
+import { SCENE_CAMERA, videoToView } from './viewMapping';
+
+interface PoseFixture extends DetectionResult {
+  name: string;
+  // Wrist distance from the camera, in metres
+  depth: number;
+}
+
+const fixtureFile = JSON.parse(readFileSync(new URL('./__fixtures__/handPoses.json', import.meta.url), 'utf8'));
+const fixtures: Record<string, PoseFixture> = Object.fromEntries(
+  fixtureFile.fixtures.map((fixture: PoseFixture) => [fixture.name, fixture])
+);
+
+const params: PoseSolverParams = {
+  ...DEFAULT_POSE_PARAMS,
+  view: { viewWidth: 1280, viewHeight: 720, videoWidth: fixtureFile.videoWidth, videoHeight: fixtureFile.videoHeight, mirrored: true },
+  videoFov: fixtureFile.videoFov,
+};
+
+const solve = (fixture: PoseFixture, overrides: Partial<PoseSolverParams> = {}) => {
+  const pose = solveHandPose(fixture, { ...params, ...overrides });
+  if (!pose) throw new Error(`No pose for ${fixture.name}`);
+  return pose;
+};
+
+// Where a scene point lands in the view, in normalized view coordinates
+const projectToView = (point: THREE.Vector3, view = params.view) => {
+  const camera = new THREE.PerspectiveCamera(SCENE_CAMERA.fov, view.viewWidth / view.viewHeight, 0.1, 1000);
+  camera.position.set(0, 0, SCENE_CAMERA.distance);
+  camera.updateMatrixWorld();
+  const ndc = point.clone().project(camera);
+  return { x: (ndc.x + 1) / 2, y: (1 - ndc.y) / 2 };
+};
+
+const axis = (quaternion: THREE.Quaternion, x: number, y: number, z: number) => new THREE.Vector3(x, y, z).applyQuaternion(quaternion);
+
+describe('solveHandPose', () => {
+  it('returns null when the hand is missing', () => {
+    expect(solveHandPose({ landmarks: [], worldLandmarks: [] }, params)).toBeNull();
+    expect(solveHandPose(fixtures['stop-sign-center'], params, 1)).toBeNull();
+  });
+
+  it.each(['stop-sign-center', 'stop-sign-far', 'reaching-away-left'])('recovers the metric depth of %s', (name) => {
+    const fixture = fixtures[name];
+    const depth = solveDepth(fixture.landmarks[0], fixture.worldLandmarks[0], params);
+    expect(depth).toBeGreaterThan(fixture.depth * 0.9);
+    expect(depth).toBeLessThan(fixture.depth * 1.1);
+  });
+
+  it.each(['stop-sign-center', 'stop-sign-far', 'reaching-away-left'])('keeps %s on the wrist on screen', (name) => {
+    const fixture = fixtures[name];
+    const pose = solve(fixture);
+    const wrist = fixture.landmarks[0][WRIST];
+    const expected = videoToView(wrist.x, wrist.y, params.view, { x: 0, y: 0 });
+    const actual = projectToView(pose.position);
+    expect(actual.x).toBeCloseTo(expected.x, 4);
+    expect(actual.y).toBeCloseTo(expected.y, 4);
+  });
+
+  it.each([true, false])('keeps the wrist on screen through a portrait crop (mirrored: %s)', (mirrored) => {
+    const fixture = fixtures['reaching-away-left'];
+    const view = { ...params.view, viewWidth: 720, viewHeight: 1280, mirrored };
+    const pose = solve(fixture, { view });
+    const wrist = fixture.landmarks[0][WRIST];
+    const expected = videoToView(wrist.x, wrist.y, view, { x: 0, y: 0 });
+    const actual = projectToView(pose.position, view);
+    expect(actual.x).toBeCloseTo(expected.x, 4);
+    expect(actual.y).toBeCloseTo(expected.y, 4);
+  });
+
+  it('pushes the hand back along Z by its real depth', () => {
+    const near = solve(fixtures['stop-sign-center']);
+    const far = solve(fixtures['stop-sign-far']);
+    const depth = solveDepth(fixtures['stop-sign-center'].landmarks[0], fixtures['stop-sign-center'].worldLandmarks[0], params);
+    expect(near.position.z).toBeCloseTo(SCENE_CAMERA.distance - depth * params.unitsPerMeter, 5);
+    // Twice as far away, roughly twice as deep into the scene
+    expect(SCENE_CAMERA.distance - far.position.z).toBeCloseTo(2 * (SCENE_CAMERA.distance - near.position.z), 0);
+  });
+
+  it('sizes the model from the metric palm, independent of distance', () => {
+    const near = solve(fixtures['stop-sign-center']);
+    const far = solve(fixtures['stop-sign-far']);
+    expect(far.scale.x).toBeCloseTo(near.scale.x, 5);
+    expect(near.scale.x).toBe(near.scale.y);
+
+    const world = fixtures['stop-sign-center'].worldLandmarks[0];
+    const palmLength = Math.hypot(world[9].x - world[0].x, world[9].y - world[0].y, world[9].z - world[0].z);
+    const fovRatio = Math.tan(THREE.MathUtils.degToRad(SCENE_CAMERA.fov / 2)) / Math.tan(THREE.MathUtils.degToRad(params.videoFov / 2));
+    expect(near.scale.x).toBeCloseTo(palmLength * params.unitsPerMeter * fovRatio * params.scaleMultiplier, 5);
+  });
+
+  it('falls back to the average palm without world landmarks', () => {
+    const fixture = fixtures['stop-sign-center'];
+    const pose = solve({ ...fixture, worldLandmarks: [] });
+    expect(Number.isFinite(pose.position.z)).toBe(true);
+    expect(pose.scale.x).toBeGreaterThan(0);
+  });
+});
+
+describe('solveRotation', () => {
+  it('uses the palm normal for a stop-sign hand', () => {
+    const quaternion = solveRotation(fixtures['stop-sign-center'].landmarks[0], params, new THREE.Quaternion());
+    expect([quaternion.x, quaternion.y, quaternion.z, quaternion.w].every(Number.isFinite)).toBe(true);
+    // Upright, facing the camera like the palm
+    expect(axis(quaternion, 0, 1, 0).y).toBeCloseTo(1, 5);
+    expect(axis(quaternion, 0, 0, 1).z).toBeGreaterThan(0.99);
+  });
+
+  it('stays upright and faces along the wrist for a reaching hand', () => {
+    const quaternion = solveRotation(fixtures['reaching-away-left'].landmarks[0], params, new THREE.Quaternion());
+    expect(axis(quaternion, 0, 1, 0).y).toBeCloseTo(1, 5);
+    expect(axis(quaternion, 0, 0, 1).z).toBeGreaterThan(0.9);
+  });
+
+  it('is unaffected by mirroring for a centred stop sign', () => {
+    const mirrored = solveRotation(fixtures['stop-sign-center'].landmarks[0], params, new THREE.Quaternion());
+    const unmirrored = solveRotation(
+      fixtures['stop-sign-center'].landmarks[0],
+      { ...params, view: { ...params.view, mirrored: false } },
+      new THREE.Quaternion()
+    );
+    expect(mirrored.angleTo(unmirrored)).toBeLessThan(0.05);
+  });
+});
+
+// The fixtures are an anatomical left hand (MediaPipe labels it 'Right', see handIdentity)
+const FIXTURE_HAND: Handedness = 'Left';
+
+// The same pose made by the other hand: mirrored across the frame's vertical centre line
+const otherHand = (fixture: PoseFixture): PoseFixture => ({
+  ...fixture,
+  landmarks: fixture.landmarks.map((hand) => hand.map((p) => ({ ...p, x: 1 - p.x }))),
+  worldLandmarks: fixture.worldLandmarks.map((hand) => hand.map((p) => ({ ...p, x: -p.x }))),
+});
+
+// The same hand turned half a turn around the vertical through its wrist, back to the camera
+const backOfHand = (fixture: PoseFixture): PoseFixture => {
+  const turn = (hand: HandLandmark[]) => hand.map((p) => ({ x: 2 * hand[WRIST].x - p.x, y: p.y, z: -p.z }));
+  return {
+    ...fixture,
+    landmarks: fixture.landmarks.map(turn),
+    worldLandmarks: fixture.worldLandmarks.map((hand) => hand.map((p) => ({ x: -p.x, y: p.y, z: -p.z }))),
+  };
+};
+
+const handFixture = (name: string, hand: Handedness) =>
+  hand === FIXTURE_HAND ? fixtures[name] : otherHand(fixtures[name]);
+
+const palmParams = (overrides: Partial<PoseSolverParams> = {}): PoseSolverParams => ({
+  ...params,
+  orientationMode: 'palm',
+  handedness: FIXTURE_HAND,
+  ...overrides,
+});
+
+const palmNormal = (fixture: PoseFixture, solverParams: PoseSolverParams) => {
+  const normal = new THREE.Vector3();
+  solvePalmNormal(fixture.landmarks[0], fixture.worldLandmarks[0], solverParams, normal);
+  return normal;
+};
+
+describe('solvePalmRotation', () => {
+  it.each(['stop-sign-center', 'reaching-away-left'])('points the up axis along the palm normal of %s at palmBlend 1', (name) => {
+    const fixture = fixtures[name];
+    const quaternion = new THREE.Quaternion();
+    const palmFacing = solvePalmRotation(fixture.landmarks[0], fixture.worldLandmarks[0], palmParams(), quaternion);
+    expect(palmFacing).toBe(true);
+    expect(axis(quaternion, 0, 1, 0).dot(palmNormal(fixture, palmParams()))).toBeGreaterThan(0.999);
+  });
+
+  it('faces the wrist with the front axis, perpendicular to the palm normal', () => {
+    const fixture = fixtures['reaching-away-left'];
+    const quaternion = new THREE.Quaternion();
+    solvePalmRotation(fixture.landmarks[0], fixture.worldLandmarks[0], palmParams(), quaternion);
+    expect(axis(quaternion, 0, 0, 1).dot(palmNormal(fixture, palmParams()))).toBeCloseTo(0, 5);
+  });
+
+  it.each(['stop-sign-center', 'reaching-away-left'])('matches the billboard orientation of %s at palmBlend 0', (name) => {
+    const fixture = fixtures[name];
+    const quaternion = new THREE.Quaternion();
+    solvePalmRotation(fixture.landmarks[0], fixture.worldLandmarks[0], palmParams({ palmBlend: 0 }), quaternion);
+    const billboard = solveRotation(fixture.landmarks[0], params, new THREE.Quaternion());
+    expect(quaternion.angleTo(billboard)).toBeLessThan(1e-5);
+  });
+
+  it('is used by solveHandPose in palm mode only', () => {
+    const fixture = fixtures['reaching-away-left'];
+    const palm = solve(fixture, palmParams());
+    const billboard = solve(fixture, { orientationMode: 'billboard' });
+    expect(axis(palm.quaternion, 0, 1, 0).dot(palmNormal(fixture, palmParams()))).toBeGreaterThan(0.999);
+    expect(axis(billboard.quaternion, 0, 1, 0).y).toBeCloseTo(1, 5);
+  });
+
+  describe.each([
+    ['Left', true],
+    ['Left', false],
+    ['Right', true],
+    ['Right', false],
+  ] as [Handedness, boolean][])('%s hand, mirrored: %s', (hand, mirrored) => {
+    const handParams = palmParams({ handedness: hand, view: { ...params.view, mirrored } });
+
+    it('reports the palm facing the camera', () => {
+      const fixture = handFixture('stop-sign-center', hand);
+      const quaternion = new THREE.Quaternion();
+      expect(solvePalmRotation(fixture.landmarks[0], fixture.worldLandmarks[0], handParams, quaternion)).toBe(true);
+      expect(axis(quaternion, 0, 1, 0).z).toBeGreaterThan(0.99);
+    });
+
+    it('moves the model onto the back of the hand when it faces the camera', () => {
+      const fixture = backOfHand(handFixture('stop-sign-center', hand));
+      const normal = palmNormal(fixture, handParams);
+      expect(normal.z).toBeLessThan(-0.99);
+
+      const quaternion = new THREE.Quaternion();
+      expect(solvePalmRotation(fixture.landmarks[0], fixture.worldLandmarks[0], handParams, quaternion)).toBe(false);
+      // Up is out of the back of the hand, towards the camera, not upside down behind the palm
+      expect(axis(quaternion, 0, 1, 0).dot(normal)).toBeLessThan(-0.999);
+      expect(solve(fixture, handParams).palmFacing).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import * as THREE from 'three';
+import { DetectionResult, Handedness, HandLandmark } from '../types';
+import { coverSpan, SCENE_CAMERA, videoAspect, videoToView, viewAspect, ViewMapping } from './viewMapping';
+
+// MediaPipe hand landmark indices used by the solver
+export const WRIST = 0;
+export const INDEX_FINGER_MCP = 5;
+export const MIDDLE_FINGER_MCP = 9;
+export const PINKY_MCP = 17;
+
+/**
+ * - billboard: the model stays upright and only turns around world Y
+ * - palm: the model's up axis follows the palm normal, blended by `palmBlend`
+ */
+export type OrientationMode = 'billboard' | 'palm';
+
+export interface PoseSolverParams {
+  // Crop, mirroring and sizes of the displayed video
+  view: ViewMapping;
+  // Vertical field of view of the rendering camera, in degrees
+  cameraFov: number;
+  // Rendering camera Z; it sits on the Z axis looking towards -Z
+  cameraDistance: number;
+  // Estimated vertical field of view of the physical camera, in degrees
+  videoFov: number;
+  // Scene units per metre of real depth
+  unitsPerMeter: number;
+  // Anchor point between wrist (0) and middle finger knuckle (1)
+  anchorRatio: number;
+  // Model scale per scene unit of palm length (wrist -> middle knuckle)
+  scaleMultiplier: number;
+  orientationMode: OrientationMode;
+  // Palm mode only: 0 = upright billboard, 1 = fully attached to the palm
+  palmBlend: number;
+  // Anatomical hand, needed to tell the palm side from the back of the hand.
+  // Without it the palm is assumed to face the camera.
+  handedness: Handedness | null;
+}
+
+export const DEFAULT_POSE_PARAMS: PoseSolverParams = {
+  view: { viewWidth: 1280, viewHeight: 720, videoWidth: 1280, videoHeight: 720, mirrored: true },
+  cameraFov: SCENE_CAMERA.fov,
+  cameraDistance: SCENE_CAMERA.distance,
+  videoFov: 38,
+  // A hand at arm's length (~0.5 m) lands 15 units in front of the camera
+  unitsPerMeter: 30,
+  anchorRatio: 0,
+  scaleMultiplier: 0.85,
+  orientationMode: 'billboard',
+  palmBlend: 1,
+  handedness: null,
+};
+
+// Typical horizontal field of view of laptop and phone cameras, in degrees.
+// Browsers do not expose camera intrinsics, so this is the best available guess.
+export const DEFAULT_CAMERA_HFOV = 63;
+
+/**
+ * Vertical field of view of a camera with the given horizontal field of view
+ * and frame aspect (width / height).
+ */
+export const estimateVideoFov = (videoAspect: number, horizontalFov = DEFAULT_CAMERA_HFOV) => {
+  const tanHalf = Math.tan(THREE.MathUtils.degToRad(horizontalFov) / 2);
+  return THREE.MathUtils.radToDeg(2 * Math.atan(tanHalf / videoAspect));
+};
+
+// Typical adult wrist -> middle knuckle distance in metres, used without worldLandmarks
+export const AVERAGE_PALM_LENGTH = 0.09;
+// Plausible hand distances from the camera, in metres
+export const DEPTH_RANGE = [0.15, 3] as const;
+
+// Palm segments whose lengths are compared between metric and image space
+const PALM_SEGMENTS: [number, number][] = [
+  [WRIST, INDEX_FINGER_MCP],
+  [WRIST, MIDDLE_FINGER_MCP],
+  [WRIST, PINKY_MCP],
+  [INDEX_FINGER_MCP, PINKY_MCP],
+];
+
+export const HAND_LANDMARK_COUNT = 21;
+
+/**
+ * All hand landmarks in scene space, used to build the occluder proxy.
+ */
+export interface HandJoints {
+  points: THREE.Vector3[];
+  // Scene units per metre for sizes measured across the view (bone radii)
+  unitScale: number;
+}
+
+export const createHandJoints = (): HandJoints => ({
+  points: Array.from({ length: HAND_LANDMARK_COUNT }, () => new THREE.Vector3()),
+  unitScale: 1,
+});
+
+export interface HandPose {
+  position: THREE.Vector3;
+  scale: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  // False when the back of the hand faces the camera (set by solveHandPose)
+  palmFacing?: boolean;
+}
+
+export const createHandPose = (): HandPose => ({
+  position: new THREE.Vector3(),
+  scale: new THREE.Vector3(1, 1, 1),
+  quaternion: new THREE.Quaternion(),
+});
+
+// Scratch objects reused across calls to avoid per-frame allocations
+const _vWrist = new THREE.Vector3();
+const _vMiddle = new THREE.Vector3();
+const _vIndex = new THREE.Vector3();
+const _vPinky = new THREE.Vector3();
+const _vecToUser = new THREE.Vector3();
+const _palmAcross = new THREE.Vector3();
+const _fingerDir = new THREE.Vector3();
+const _palmNormal = new THREE.Vector3();
+const _targetX = new THREE.Vector3();
+const _targetY = new THREE.Vector3();
+const _targetZ = new THREE.Vector3();
+const _matrix = new THREE.Matrix4();
+const _billboard = new THREE.Quaternion();
+const _attached = new THREE.Quaternion();
+
+const toRotationSpace = (point: HandLandmark, params: PoseSolverParams, target: THREE.Vector3) => {
+  const xVal = params.view.mirrored ? (1 - point.x) : point.x;
+  // Normalized x and z are in units of frame width
+  const aspect = videoAspect(params.view);
+  // Z is depth away from camera
+  return target.set(xVal * aspect, -point.y, -point.z * aspect);
+};
+
+const hasWorldLandmarks = (worldLandmarks: HandLandmark[] | undefined): worldLandmarks is HandLandmark[] =>
+  !!worldLandmarks && worldLandmarks.length > PINKY_MCP;
+
+/**
+ * Distance of the hand from the physical camera, in metres.
+ *
+ * `worldLandmarks` share the camera's X/Y axes, so the X/Y extent of a metric palm
+ * segment projects to `focal * extent / depth` in the image. Summing several
+ * segments before dividing keeps the estimate stable when one is foreshortened.
+ * Without world landmarks an average palm length stands in for the metric size.
+ */
+export const solveDepth = (
+  landmarks: HandLandmark[],
+  worldLandmarks: HandLandmark[] | undefined,
+  params: PoseSolverParams
+) => {
+  const focal = videoFocalLength(params);
+  const aspect = videoAspect(params.view);
+  const imageLength = (a: number, b: number) =>
+    Math.hypot((landmarks[a].x - landmarks[b].x) * aspect, landmarks[a].y - landmarks[b].y);
+
+  let metric = 0;
+  let image = 0;
+  if (hasWorldLandmarks(worldLandmarks)) {
+    for (const [a, b] of PALM_SEGMENTS) {
+      metric += Math.hypot(worldLandmarks[a].x - worldLandmarks[b].x, worldLandmarks[a].y - worldLandmarks[b].y);
+      image += imageLength(a, b);
+    }
+  } else {
+    metric = AVERAGE_PALM_LENGTH;
+    image = imageLength(WRIST, MIDDLE_FINGER_MCP);
+  }
+
+  if (image < 1e-6 || metric < 1e-6) return DEPTH_RANGE[1];
+  return THREE.MathUtils.clamp((focal * metric) / image, DEPTH_RANGE[0], DEPTH_RANGE[1]);
+};
+
+// Focal length of the physical camera in units of video height
+const videoFocalLength = (params: PoseSolverParams) => 0.5 / Math.tan(THREE.MathUtils.degToRad(params.videoFov) / 2);
+
+// Corrects metric sizes for the rendering camera seeing a different field of view
+// than the visible part of the video (the physical camera's, narrowed by the crop)
+const fovRatio = (params: PoseSolverParams) =>
+  (Math.tan(THREE.MathUtils.degToRad(params.cameraFov) / 2) * coverSpan(params.view).y) /
+  Math.tan(THREE.MathUtils.degToRad(params.videoFov) / 2);
+
+const _viewPoint = { x: 0, y: 0 };
+
+/**
+ * Places a normalized image point at `depth` metres along the rendering camera's
+ * view ray through it, so it lands on the same spot on screen as in the video.
+ */
+const projectToScene = (x: number, y: number, depth: number, params: PoseSolverParams, target: THREE.Vector3) => {
+  const view = videoToView(x, y, params.view, _viewPoint);
+
+  // Frustum half-extents one unit in front of the camera
+  const halfHeight = Math.tan(THREE.MathUtils.degToRad(params.cameraFov) / 2);
+  const halfWidth = halfHeight * viewAspect(params.view);
+
+  const distance = depth * params.unitsPerMeter;
+  return target.set(
+    (view.x * 2 - 1) * halfWidth * distance,
+    // Y: Invert for WebGL coords
+    -(view.y * 2 - 1) * halfHeight * distance,
+    params.cameraDistance - distance
+  );
+};
+
+/**
+ * Computes the palm anchor position in world coordinates.
+ * The anchor is found on the screen from the normalized landmarks, then pushed
+ * along the rendering camera's view ray to `depth` metres (see solveDepth), so it
+ * stays on the palm on screen while moving in Z with the real hand.
+ */
+export const solvePosition = (landmarks: HandLandmark[], params: PoseSolverParams, depth: number, target: THREE.Vector3) => {
+  const wrist = landmarks[WRIST];
+  const middleFingerMCP = landmarks[MIDDLE_FINGER_MCP];
+
+  const ratio = params.anchorRatio;
+  const palmX = wrist.x * (1 - ratio) + middleFingerMCP.x * ratio;
+  const palmY = wrist.y * (1 - ratio) + middleFingerMCP.y * ratio;
+
+  return projectToScene(palmX, palmY, depth, params, target);
+};
+
+/**
+ * Uniform scale from the metric palm length.
+ * The rendering camera's field of view differs from the physical camera's, so
+ * the metric size is corrected by the ratio of the two to keep the model's size
+ * on screen proportional to the hand's.
+ */
+export const solveScale = (
+  worldLandmarks: HandLandmark[] | undefined,
+  params: PoseSolverParams,
+  target: THREE.Vector3
+) => {
+  const palmLength = hasWorldLandmarks(worldLandmarks)
+    ? Math.hypot(
+        worldLandmarks[WRIST].x - worldLandmarks[MIDDLE_FINGER_MCP].x,
+        worldLandmarks[WRIST].y - worldLandmarks[MIDDLE_FINGER_MCP].y,
+        worldLandmarks[WRIST].z - worldLandmarks[MIDDLE_FINGER_MCP].z
+      )
+    : AVERAGE_PALM_LENGTH;
+
+  const s = palmLength * params.unitsPerMeter * fovRatio(params) * params.scaleMultiplier;
+
+  return target.set(s, s, s);
+};
+
+/**
+ * Billboard-style orientation: the model stays upright (world up) and turns
+ * around Y to face along the wrist direction projected onto the horizontal plane.
+ * When the hand is vertical ("stop sign") that projection degenerates and the
+ * palm normal is used as forward instead.
+ */
+export const solveRotation = (landmarks: HandLandmark[], params: PoseSolverParams, target: THREE.Quaternion) => {
+  const vWrist = toRotationSpace(landmarks[WRIST], params, _vWrist);
+  const vMiddle = toRotationSpace(landmarks[MIDDLE_FINGER_MCP], params, _vMiddle);
+  const vIndex = toRotationSpace(landmarks[INDEX_FINGER_MCP], params, _vIndex);
+  const vPinky = toRotationSpace(landmarks[PINKY_MCP], params, _vPinky);
+
+  // Finger Direction: Wrist -> Middle (Points towards user in most poses)
+  _vecToUser.subVectors(vWrist, vMiddle);
+
+  // Palm Across: Index -> Pinky (Right)
+  _palmAcross.subVectors(vPinky, vIndex).normalize();
+
+  // Palm Normal (Out of hand) - Used as fallback
+  _fingerDir.subVectors(vMiddle, vWrist).normalize();
+  _palmNormal.crossVectors(_palmAcross, _fingerDir).normalize();
+  if (_palmNormal.z < 0) _palmNormal.negate(); // Ensure normal points towards camera
+
+  // Project onto the horizontal plane (y=0) to keep the model upright
+  _targetZ.set(_vecToUser.x, 0, _vecToUser.z);
+
+  // Stop sign fallback
+  if (_targetZ.lengthSq() < 0.01) {
+    _targetZ.set(_palmNormal.x, 0, _palmNormal.z);
+  }
+  _targetZ.normalize();
+
+  _targetY.set(0, 1, 0);
+  _targetX.crossVectors(_targetY, _targetZ).normalize();
+  // Re-orthogonalize Z
+  _targetZ.crossVectors(_targetX, _targetY).normalize();
+
+  _matrix.makeBasis(_targetX, _targetY, _targetZ);
+  return target.setFromRotationMatrix(_matrix);
+};
+
+// World landmarks are metric, centered on the hand and share the image axes
+const worldToRotationSpace = (point: HandLandmark, params: PoseSolverParams, target: THREE.Vector3) =>
+  target.set(params.view.mirrored ? -point.x : point.x, -point.y, -point.z);
+
+/**
+ * Normal pointing out of the palm side of the hand, written to `target`.
+ * Uses `worldLandmarks` when available since their depth is metric rather than
+ * relative. Returns whether the palm faces the camera.
+ *
+ * The cross product of the palm axes points out of the palm for one hand and out
+ * of the back for the other; mirroring the display flips it once more.
+ */
+export const solvePalmNormal = (
+  landmarks: HandLandmark[],
+  worldLandmarks: HandLandmark[] | undefined,
+  params: PoseSolverParams,
+  target: THREE.Vector3
+): boolean => {
+  const useWorld = hasWorldLandmarks(worldLandmarks);
+  const points = useWorld ? worldLandmarks : landmarks;
+  const convert = useWorld ? worldToRotationSpace : toRotationSpace;
+
+  const vWrist = convert(points[WRIST], params, _vWrist);
+  const vMiddle = convert(points[MIDDLE_FINGER_MCP], params, _vMiddle);
+  const vIndex = convert(points[INDEX_FINGER_MCP], params, _vIndex);
+  const vPinky = convert(points[PINKY_MCP], params, _vPinky);
+
+  _palmAcross.subVectors(vPinky, vIndex);
+  _fingerDir.subVectors(vMiddle, vWrist);
+  target.crossVectors(_palmAcross, _fingerDir).normalize();
+
+  if (!params.handedness) {
+    if (target.z < 0) target.negate();
+    return true;
+  }
+
+  // Unmirrored, a right palm facing the camera yields a normal pointing away from it
+  const sign = (params.handedness === 'Right' ? -1 : 1) * (params.view.mirrored ? -1 : 1);
+  target.multiplyScalar(sign);
+  return target.z >= 0;
+};
+
+/**
+ * Palm-aligned orientation: the model's up axis follows the palm normal and its
+ * front faces the wrist. When the back of the hand faces the camera the model
+ * moves to the back of the hand instead of standing upside down behind it.
+ * `palmBlend` slerps from the billboard rotation towards this one.
+ * Returns whether the palm faces the camera.
+ */
+export const solvePalmRotation = (
+  landmarks: HandLandmark[],
+  worldLandmarks: HandLandmark[] | undefined,
+  params: PoseSolverParams,
+  target: THREE.Quaternion
+): boolean => {
+  solveRotation(landmarks, params, _billboard);
+
+  const palmFacing = solvePalmNormal(landmarks, worldLandmarks, params, _targetY);
+  if (!palmFacing) _targetY.negate();
+
+  // _vWrist/_vMiddle hold the points solvePalmNormal just converted
+  _vecToUser.subVectors(_vWrist, _vMiddle);
+  _targetZ.copy(_vecToUser).addScaledVector(_targetY, -_vecToUser.dot(_targetY));
+  if (_targetZ.lengthSq() < 1e-8) {
+    target.copy(_billboard);
+    return palmFacing;
+  }
+  _targetZ.normalize();
+  _targetX.crossVectors(_targetY, _targetZ).normalize();
+
+  _matrix.makeBasis(_targetX, _targetY, _targetZ);
+  _attached.setFromRotationMatrix(_matrix);
+  target.slerpQuaternions(_billboard, _attached, THREE.MathUtils.clamp(params.palmBlend, 0, 1));
+  return palmFacing;
+};
+
+/**
+ * Solves position, scale and rotation for one hand of a detection result.
+ * Returns null when the requested hand is not present.
+ * Pass `out` to write into existing objects (e.g. the refs read by ARCanvas).
+ */
+export const solveHandPose = (
+  result: DetectionResult,
+  params: PoseSolverParams,
+  handIndex = 0,
+  out: HandPose = createHandPose()
+): HandPose | null => {
+  const landmarks = result.landmarks[handIndex];
+  if (!landmarks || landmarks.length <= PINKY_MCP) return null;
+
+  const worldLandmarks = result.worldLandmarks?.[handIndex];
+  solvePosition(landmarks, params, solveDepth(landmarks, worldLandmarks, params), out.position);
+  solveScale(worldLandmarks, params, out.scale);
+  if (params.orientationMode === 'palm') {
+    out.palmFacing = solvePalmRotation(landmarks, worldLandmarks, params, out.quaternion);
+  } else {
+    solveRotation(landmarks, params, out.quaternion);
+    out.palmFacing = solvePalmNormal(landmarks, worldLandmarks, params, _palmNormal);
+  }
+
+  return out;
+};
+
+/**
+ * Places every landmark of one hand in scene space. Each joint sits on its own
+ * view ray at the hand depth plus its metric depth relative to the hand centre,
+ * so the proxy lines up with the fingers in the video.
+ * Returns null when the requested hand is not present.
+ */
+export const solveHandJoints = (
+  result: DetectionResult,
+  params: PoseSolverParams,
+  handIndex = 0,
+  out: HandJoints = createHandJoints()
+): HandJoints | null => {
+  const landmarks = result.landmarks[handIndex];
+  if (!landmarks || landmarks.length < HAND_LANDMARK_COUNT) return null;
+
+  const worldLandmarks = result.worldLandmarks?.[handIndex];
+  const useWorld = hasWorldLandmarks(worldLandmarks) && worldLandmarks.length >= HAND_LANDMARK_COUNT;
+  const depth = solveDepth(landmarks, worldLandmarks, params);
+  // Image z shares the scale of image x; convert it to metres at the hand's depth
+  const imageZToMeters = (videoAspect(params.view) * depth) / videoFocalLength(params);
+
+  for (let i = 0; i < HAND_LANDMARK_COUNT; i++) {
+    const jointDepth = depth + (useWorld ? worldLandmarks[i].z : landmarks[i].z * imageZToMeters);
+    projectToScene(landmarks[i].x, landmarks[i].y, Math.max(DEPTH_RANGE[0], jointDepth), params, out.points[i]);
+  }
+  out.unitScale = params.unitsPerMeter * fovRatio(params);
+
+  return out;
+};
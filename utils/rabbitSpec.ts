@@ -0,0 +1,317 @@
+import { clampTo, isObject } from './validation';
+
+/**
+ * Parametric description of the built-in CyberpunkRabbit: colors, proportions,
+ * eye style, accessories and the chest label.
+ *
+ * layoutRabbit turns a spec into boxes and planes; both the live model and the
+ * GLB export are built from that one layout, so they always match.
+ */
+
+export const RABBIT_SPEC_VERSION = 1;
+
+export type RabbitEyeStyle = 'cyber' | 'twin' | 'visor';
+export type RabbitAccessory = 'antenna' | 'headphones' | 'backpack';
+
+export interface RabbitSpec {
+  version: number;
+  // #rrggbb
+  colors: {
+    body: string;
+    head: string;
+    ears: string;
+    eye: string;
+    label: string;
+    labelText: string;
+  };
+  // Model units; the default rabbit is ~2 units tall
+  proportions: {
+    head: number;
+    bodyWidth: number;
+    bodyHeight: number;
+    earLength: number;
+    // Degrees each ear leans in
+    earTilt: number;
+  };
+  eye: {
+    style: RabbitEyeStyle;
+    // Emissive intensity; above 1 it blooms
+    glow: number;
+  };
+  accessories: RabbitAccessory[];
+  label: {
+    text: string;
+    // PNG data URL at LABEL_TEXTURE_SIZE; replaces the text when set
+    image: string | null;
+  };
+}
+
+// The rabbit as originally modelled
+export const DEFAULT_RABBIT_SPEC: RabbitSpec = {
+  version: RABBIT_SPEC_VERSION,
+  colors: {
+    body: '#ffd700',
+    head: '#f0f0f0',
+    ears: '#f0f0f0',
+    eye: '#ff0033',
+    label: '#000000',
+    labelText: '#00ffff',
+  },
+  proportions: {
+    head: 0.7,
+    bodyWidth: 0.6,
+    bodyHeight: 0.7,
+    earLength: 0.6,
+    earTilt: 11.5,
+  },
+  eye: { style: 'cyber', glow: 3 },
+  accessories: [],
+  label: { text: '', image: null },
+};
+
+export const RABBIT_LIMITS = {
+  head: [0.4, 1],
+  bodyWidth: [0.3, 1],
+  bodyHeight: [0.4, 1],
+  earLength: [0.2, 1],
+  earTilt: [-30, 45],
+  glow: [0, 6],
+  labelText: 12,
+  // Characters of the label image data URL, to keep presets within localStorage
+  labelImage: 200_000,
+} as const;
+
+export const RABBIT_EYE_STYLES: RabbitEyeStyle[] = ['cyber', 'twin', 'visor'];
+export const RABBIT_ACCESSORIES: RabbitAccessory[] = ['antenna', 'headphones', 'backpack'];
+
+// Label texture in pixels; 4:1 like the label plane
+export const LABEL_TEXTURE_SIZE = { width: 256, height: 64 } as const;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const colorOr = (value: unknown, fallback: string) => (typeof value === 'string' && COLOR_PATTERN.test(value) ? value : fallback);
+
+// The object at `value`, or an empty one so missing sections fall back to defaults
+const objectOr = (value: unknown): Record<string, unknown> => (isObject(value) ? value : {});
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+/**
+ * Coerces stored or imported data into a valid spec, filling gaps with defaults.
+ */
+export const sanitizeRabbitSpec = (value: unknown): RabbitSpec => {
+  const defaults = DEFAULT_RABBIT_SPEC;
+  const data = objectOr(value);
+  const colors = objectOr(data.colors);
+  const proportions = objectOr(data.proportions);
+  const eye = objectOr(data.eye);
+  const label = objectOr(data.label);
+  const accessories = data.accessories;
+  const image = label.image;
+  return {
+    version: RABBIT_SPEC_VERSION,
+    colors: {
+      body: colorOr(colors.body, defaults.colors.body),
+      head: colorOr(colors.head, defaults.colors.head),
+      ears: colorOr(colors.ears, defaults.colors.ears),
+      eye: colorOr(colors.eye, defaults.colors.eye),
+      label: colorOr(colors.label, defaults.colors.label),
+      labelText: colorOr(colors.labelText, defaults.colors.labelText),
+    },
+    proportions: {
+      head: clampTo(proportions.head, RABBIT_LIMITS.head, defaults.proportions.head),
+      bodyWidth: clampTo(proportions.bodyWidth, RABBIT_LIMITS.bodyWidth, defaults.proportions.bodyWidth),
+      bodyHeight: clampTo(proportions.bodyHeight, RABBIT_LIMITS.bodyHeight, defaults.proportions.bodyHeight),
+      earLength: clampTo(proportions.earLength, RABBIT_LIMITS.earLength, defaults.proportions.earLength),
+      earTilt: clampTo(proportions.earTilt, RABBIT_LIMITS.earTilt, defaults.proportions.earTilt),
+    },
+    eye: {
+      style: isOneOf(eye.style, RABBIT_EYE_STYLES) ? eye.style : defaults.eye.style,
+      glow: clampTo(eye.glow, RABBIT_LIMITS.glow, defaults.eye.glow),
+    },
+    accessories: Array.isArray(accessories)
+      ? RABBIT_ACCESSORIES.filter((accessory) => accessories.includes(accessory))
+      : [],
+    label: {
+      text: typeof label.text === 'string' ? label.text.slice(0, RABBIT_LIMITS.labelText) : '',
+      image:
+        typeof image === 'string' && image.startsWith('data:image/') && image.length <= RABBIT_LIMITS.labelImage ? image : null,
+    },
+  };
+};
+
+export interface RabbitMaterial {
+  color: string;
+  roughness?: number;
+  metalness?: number;
+  // Glowing parts are left out of tone mapping so they bloom
+  emissiveIntensity?: number;
+  // Unlit, textured with the label
+  label?: boolean;
+}
+
+export interface RabbitPart {
+  name: string;
+  shape: 'box' | 'plane';
+  // Planes use the first two
+  size: [number, number, number];
+  position: [number, number, number];
+  rotation?: [number, number, number];
+  material: RabbitMaterial;
+}
+
+// The body's bottom; the live model floats it up to the palm, the export shifts it to 0
+export const RABBIT_BASE_Y = -0.25;
+
+const BODY_DEPTH = 0.4;
+// Proportions of the original model, relative to a 0.7 head or a 0.6 × 0.7 body
+const REFERENCE_HEAD = 0.7;
+const EAR_GAP = 0.15;
+
+/**
+ * Boxes and planes for `spec`, in the rabbit's local space (facing +Z, bottom at RABBIT_BASE_Y).
+ */
+export const layoutRabbit = (spec: RabbitSpec): RabbitPart[] => {
+  const { colors, proportions, eye } = spec;
+  const { head, bodyWidth, bodyHeight, earLength } = proportions;
+  const s = head / REFERENCE_HEAD;
+  const bodyY = RABBIT_BASE_Y + bodyHeight / 2;
+  const headY = RABBIT_BASE_Y + bodyHeight + head / 2;
+  const headTop = headY + head / 2;
+  const tilt = (proportions.earTilt * Math.PI) / 180;
+  const glow: RabbitMaterial = { color: colors.eye, emissiveIntensity: eye.glow };
+
+  const labelWidth = (bodyWidth * 2) / 3;
+  const parts: RabbitPart[] = [
+    {
+      name: 'Body',
+      shape: 'box',
+      size: [bodyWidth, bodyHeight, BODY_DEPTH],
+      position: [0, bodyY, 0],
+      material: { color: colors.body, roughness: 0.3, metalness: 0.5 },
+    },
+    {
+      name: 'Label',
+      shape: 'plane',
+      size: [labelWidth, labelWidth / 4, 0],
+      position: [0, bodyY + bodyHeight / 7, BODY_DEPTH / 2 + 0.01],
+      material: { color: '#ffffff', label: true },
+    },
+    {
+      name: 'Head',
+      shape: 'box',
+      size: [head, head, head],
+      position: [0, headY, 0],
+      material: { color: colors.head, roughness: 0.4, metalness: 0.2 },
+    },
+    ...([-1, 1] as const).map<RabbitPart>((side) => ({
+      name: side < 0 ? 'EarLeft' : 'EarRight',
+      shape: 'box',
+      size: [0.15 * s, earLength, 0.15 * s],
+      position: [side * 0.2 * s, headTop + EAR_GAP + earLength / 2, 0],
+      rotation: [0, 0, side * tilt],
+      // Matte: meshStandardMaterial's defaults, spelled out so the GLB export matches
+      material: { color: colors.ears, roughness: 1, metalness: 0 },
+    })),
+  ];
+
+  const eyeY = headY + 0.1 * s;
+  const eyeZ = head / 2 + 0.01;
+  if (eye.style === 'visor') {
+    parts.push({ name: 'Visor', shape: 'box', size: [0.6 * s, 0.12 * s, 0.1 * s], position: [0, eyeY, eyeZ], material: glow });
+  } else {
+    const sides = eye.style === 'twin' ? [-1, 1] : [1];
+    sides.forEach((side) =>
+      parts.push({
+        name: sides.length > 1 ? `Eye${side < 0 ? 'Left' : 'Right'}` : 'Eye',
+        shape: 'box',
+        size: [0.2 * s, 0.2 * s, 0.1 * s],
+        position: [side * 0.18 * s, eyeY, eyeZ],
+        material: glow,
+      })
+    );
+  }
+
+  if (spec.accessories.includes('antenna')) {
+    const height = 0.35 * s;
+    parts.push(
+      {
+        name: 'Antenna',
+        shape: 'box',
+        size: [0.04 * s, height, 0.04 * s],
+        position: [-0.25 * s, headTop + height / 2, 0],
+        material: { color: colors.body, roughness: 0.3, metalness: 0.5 },
+      },
+      {
+        name: 'AntennaTip',
+        shape: 'box',
+        size: [0.1 * s, 0.1 * s, 0.1 * s],
+        position: [-0.25 * s, headTop + height, 0],
+        material: glow,
+      }
+    );
+  }
+  if (spec.accessories.includes('headphones')) {
+    const material: RabbitMaterial = { color: colors.body, roughness: 0.3, metalness: 0.5 };
+    parts.push(
+      ...([-1, 1] as const).map<RabbitPart>((side) => ({
+        name: side < 0 ? 'HeadphoneLeft' : 'HeadphoneRight',
+        shape: 'box',
+        size: [0.12 * s, 0.3 * s, 0.3 * s],
+        position: [side * (head / 2 + 0.06 * s), headY, 0],
+        material,
+      })),
+      {
+        name: 'HeadphoneBand',
+        shape: 'box',
+        size: [head + 0.24 * s, 0.06 * s, 0.12 * s],
+        position: [0, headTop + 0.03 * s, 0],
+        material,
+      }
+    );
+  }
+  if (spec.accessories.includes('backpack')) {
+    parts.push({
+      name: 'Backpack',
+      shape: 'box',
+      size: [bodyWidth * 0.8, bodyHeight * 0.7, 0.2],
+      position: [0, bodyY, -(BODY_DEPTH / 2 + 0.1)],
+      material: { color: colors.head, roughness: 0.4, metalness: 0.2 },
+    });
+  }
+
+  return parts;
+};
+
+/**
+ * Draws the chest label into `canvas`: the image, or the text on the label color.
+ */
+export const drawRabbitLabel = (canvas: HTMLCanvasElement, spec: RabbitSpec, image?: CanvasImageSource | null) => {
+  const { width, height } = LABEL_TEXTURE_SIZE;
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.fillStyle = spec.colors.label;
+  ctx.fillRect(0, 0, width, height);
+  if (image) {
+    ctx.drawImage(image, 0, 0, width, height);
+    return;
+  }
+  const text = spec.label.text.trim();
+  if (!text) return;
+  ctx.fillStyle = spec.colors.labelText;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  let fontSize = height * 0.7;
+  ctx.font = `bold ${fontSize}px monospace`;
+  const textWidth = ctx.measureText(text).width;
+  // Shrink long labels to fit with a small margin
+  if (textWidth > width * 0.9) {
+    fontSize *= (width * 0.9) / textWidth;
+    ctx.font = `bold ${fontSize}px monospace`;
+  }
+  ctx.fillText(text, width / 2, height / 2);
+};
@@ -0,0 +1,10 @@
+/**
+ * Narrowing helpers for untrusted input: imported files, share links and localStorage.
+ */
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `value` clamped into [min, max], or `fallback` when it isn't a finite number
+export const clampTo = (value: unknown, [min, max]: readonly [number, number], fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { coverSourceRect, coverSpan, ViewMapping, videoToView } from './viewMapping';
+
+const VIDEO = { videoWidth: 1280, videoHeight: 720 };
+
+// Phone held upright over a landscape camera: the sides of the frame are cropped
+const portrait: ViewMapping = { viewWidth: 720, viewHeight: 1280, ...VIDEO, mirrored: false };
+// Ultra-wide window: the top and bottom are cropped
+const ultraWide: ViewMapping = { viewWidth: 1920, viewHeight: 800, ...VIDEO, mirrored: false };
+
+const toView = (x: number, y: number, mapping: ViewMapping) => videoToView(x, y, mapping, { x: 0, y: 0 });
+
+describe('coverSpan', () => {
+  it('is 1 on both axes when the aspects match', () => {
+    expect(coverSpan({ viewWidth: 640, viewHeight: 360, ...VIDEO, mirrored: false })).toEqual({ x: 1, y: 1 });
+  });
+
+  it('spans the width of a portrait view by the aspect ratio', () => {
+    const span = coverSpan(portrait);
+    expect(span.x).toBeCloseTo(16 / 9 / (9 / 16), 5);
+    expect(span.y).toBeCloseTo(1, 5);
+  });
+
+  it('spans the height of a view wider than the video', () => {
+    const span = coverSpan(ultraWide);
+    expect(span.x).toBeCloseTo(1, 5);
+    expect(span.y).toBeCloseTo(1.35, 5);
+  });
+});
+
+describe('videoToView', () => {
+  it('keeps the frame centre in the middle of the view', () => {
+    for (const mirrored of [false, true]) {
+      expect(toView(0.5, 0.5, { ...portrait, mirrored })).toEqual({ x: 0.5, y: 0.5 });
+    }
+  });
+
+  it('maps the visible part of a portrait crop onto the full view width', () => {
+    const halfVisible = 0.5 / coverSpan(portrait).x;
+    const left = toView(0.5 - halfVisible, 0.3, portrait);
+    const right = toView(0.5 + halfVisible, 0.3, portrait);
+    expect(left.x).toBeCloseTo(0, 5);
+    expect(right.x).toBeCloseTo(1, 5);
+    // The uncropped axis passes through
+    expect(left.y).toBeCloseTo(0.3, 5);
+  });
+
+  it('puts the cropped-away margin outside the view', () => {
+    expect(toView(0, 0.5, portrait).x).toBeLessThan(0);
+    expect(toView(1, 0.5, portrait).x).toBeGreaterThan(1);
+    expect(toView(0.5, 0, ultraWide).y).toBeLessThan(0);
+    expect(toView(0.5, 1, ultraWide).y).toBeGreaterThan(1);
+  });
+
+  it('mirrors after cropping', () => {
+    const mirrored = { ...portrait, mirrored: true };
+    for (const x of [0.2, 0.45, 0.6]) {
+      const plain = toView(x, 0.7, portrait);
+      const flipped = toView(x, 0.7, mirrored);
+      expect(flipped.x).toBeCloseTo(1 - plain.x, 5);
+      expect(flipped.y).toBeCloseTo(plain.y, 5);
+    }
+    const halfVisible = 0.5 / coverSpan(portrait).x;
+    expect(toView(0.5 + halfVisible, 0.5, mirrored).x).toBeCloseTo(0, 5);
+  });
+
+  it('crops vertically without touching x for a wide view', () => {
+    const point = toView(0.25, 0.75, { ...ultraWide, mirrored: true });
+    expect(point.x).toBeCloseTo(0.75, 5);
+    expect(point.y).toBeCloseTo((0.75 - 0.5) * 1.35 + 0.5, 5);
+  });
+});
+
+describe('coverSourceRect', () => {
+  it('is the whole frame when the aspects match', () => {
+    expect(coverSourceRect(VIDEO, 640, 360)).toEqual({ x: 0, y: 0, width: 1280, height: 720 });
+  });
+
+  it('takes a centred portrait slice of a 16:9 frame', () => {
+    const rect = coverSourceRect(VIDEO, 720, 1280);
+    expect(rect.height).toBeCloseTo(720, 5);
+    expect(rect.width).toBeCloseTo(405, 5);
+    expect(rect.x).toBeCloseTo((1280 - 405) / 2, 5);
+    expect(rect.y).toBeCloseTo(0, 5);
+  });
+
+  it('takes a centred band for a view wider than the frame', () => {
+    const rect = coverSourceRect(VIDEO, 1920, 800);
+    expect(rect.width).toBeCloseTo(1280, 5);
+    expect(rect.height).toBeCloseTo(800 / 1.5, 5);
+    expect(rect.y).toBeCloseTo((720 - 800 / 1.5) / 2, 5);
+  });
+
+  it('covers the same part of the frame as videoToView shows', () => {
+    const rect = coverSourceRect(VIDEO, portrait.viewWidth, portrait.viewHeight);
+    const left = toView(rect.x / VIDEO.videoWidth, 0.5, portrait);
+    const right = toView((rect.x + rect.width) / VIDEO.videoWidth, 0.5, portrait);
+    expect(left.x).toBeCloseTo(0, 5);
+    expect(right.x).toBeCloseTo(1, 5);
+  });
+});
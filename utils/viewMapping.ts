@@ -0,0 +1,93 @@
+/**
+ * How camera-frame coordinates land on screen.
+ *
+ * The <video> is shown with `object-cover` (scaled to fill the view, centered,
+ * overflow cropped) and mirrored for front cameras; the 3D canvas covers the same
+ * box. Tracking and rendering both go through this module so that landmarks,
+ * the scene camera and captured frames agree on the crop, mirroring and camera.
+ */
+
+// The scene's PerspectiveCamera: on the Z axis looking towards -Z
+export const SCENE_CAMERA = {
+  // Vertical field of view, in degrees
+  fov: 50,
+  distance: 5,
+} as const;
+
+export interface ViewMapping {
+  // Displayed box of the video and canvas, in CSS px
+  viewWidth: number;
+  viewHeight: number;
+  // Camera frame size, in px
+  videoWidth: number;
+  videoHeight: number;
+  mirrored: boolean;
+}
+
+// 16:9 stand-in until the first frame reports its size
+const FALLBACK_VIDEO = { videoWidth: 1280, videoHeight: 720 };
+
+interface VideoSize {
+  videoWidth: number;
+  videoHeight: number;
+}
+
+/**
+ * Mapping for the current layout. Read sizes live on every frame rather than
+ * caching them, so resizes and device rotation (which swaps the camera frame's
+ * width and height on phones) apply immediately.
+ */
+export const createViewMapping = (
+  video: VideoSize | null,
+  view: { clientWidth: number; clientHeight: number } | null,
+  mirrored: boolean
+): ViewMapping => {
+  const frame = video && video.videoWidth > 0 && video.videoHeight > 0 ? video : FALLBACK_VIDEO;
+  const hasView = !!view && view.clientWidth > 0 && view.clientHeight > 0;
+  return {
+    viewWidth: hasView ? view.clientWidth : window.innerWidth,
+    viewHeight: hasView ? view.clientHeight : window.innerHeight,
+    videoWidth: frame.videoWidth,
+    videoHeight: frame.videoHeight,
+    mirrored,
+  };
+};
+
+export const viewAspect = (mapping: ViewMapping) => mapping.viewWidth / mapping.viewHeight;
+
+export const videoAspect = (mapping: ViewMapping) => mapping.videoWidth / mapping.videoHeight;
+
+/**
+ * Size of the displayed video relative to the view, per axis. The cropped axis
+ * spans more than 1; the other exactly 1.
+ */
+export const coverSpan = (mapping: ViewMapping) => {
+  const scale = Math.max(mapping.viewWidth / mapping.videoWidth, mapping.viewHeight / mapping.videoHeight);
+  return {
+    x: (mapping.videoWidth * scale) / mapping.viewWidth,
+    y: (mapping.videoHeight * scale) / mapping.viewHeight,
+  };
+};
+
+/**
+ * Normalized video coordinates to normalized view coordinates, through the crop
+ * and mirroring. Points in the cropped-away margin fall outside [0, 1].
+ */
+export const videoToView = (x: number, y: number, mapping: ViewMapping, target: { x: number; y: number }) => {
+  const span = coverSpan(mapping);
+  const viewX = (x - 0.5) * span.x + 0.5;
+  target.x = mapping.mirrored ? 1 - viewX : viewX;
+  target.y = (y - 0.5) * span.y + 0.5;
+  return target;
+};
+
+/**
+ * Region of the camera frame visible in a `width` × `height` box, in frame px,
+ * for drawing the same crop into a canvas.
+ */
+export const coverSourceRect = (video: VideoSize, width: number, height: number) => {
+  const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+  const w = width / scale;
+  const h = height / scale;
+  return { x: (video.videoWidth - w) / 2, y: (video.videoHeight - h) / 2, width: w, height: h };
+};
@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the MediaPipe assets (wasm/ folder and hand_landmarker.task) and the draco/ decoder.
+  // Defaults to `${BASE_URL}mediapipe/`, populated by scripts/copy-mediapipe-assets.mjs.
+  readonly VITE_MEDIAPIPE_ASSET_BASE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,31 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Provided by the host (see peerDependencies): a second copy of React breaks hooks
+// in hosts that render ARCanvas themselves, and a second three breaks instanceof checks
+const PEER_PACKAGES = ['react', 'react-dom', 'three', 'postprocessing', '@react-three/'];
+
+const isPeerImport = (id: string) =>
+  PEER_PACKAGES.some((name) => (name.endsWith('/') ? id.startsWith(name) : id === name || id.startsWith(`${name}/`)));
+
+// Builds lib/ as an ES module for embedding; the app build is vite.config.ts
+export default defineConfig({
+  plugins: [react()],
+  // Relative so the emitted worker URL resolves next to kana-ar.js wherever the host serves it
+  base: './',
+  // The MediaPipe assets are served by the host (see the `asset-base` attribute)
+  publicDir: false,
+  build: {
+    outDir: 'dist-lib',
+    sourcemap: false,
+    lib: {
+      entry: 'lib/index.ts',
+      name: 'KanaAR',
+      formats: ['es'],
+      fileName: 'kana-ar',
+    },
+    rollupOptions: {
+      external: isPeerImport,
+    },
+  },
+});
@@ -0,0 +1,86 @@
+/// <reference lib="webworker" />
+import { HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { createHandLandmarker, Delegate } from '../services/mediapipeLoader';
+import { DetectionResult } from '../types';
+
+// --- Protocol shared with DetectionWorkerClient ---
+export type WorkerRequest =
+  // `assetBase` is absolute: relative URLs would resolve against the worker script
+  | { type: 'init'; assetBase: string; numHands: number }
+  | { type: 'frame'; frame: ImageBitmap | VideoFrame; timestamp: number };
+
+export type WorkerResponse =
+  | { type: 'ready'; delegate: Delegate }
+  | { type: 'error'; message: string }
+  // `latency` is the time spent inside detectForVideo, in ms
+  | { type: 'result'; result: DetectionResult; timestamp: number; latency: number }
+  // Sent when a frame could not be processed, so the client can submit the next one
+  | { type: 'skipped'; timestamp: number };
+
+// MediaPipe's wasm loader calls `self.import` when it is defined (see below)
+interface HandDetectionWorkerScope extends DedicatedWorkerGlobalScope {
+  import?: (url: string) => Promise<void>;
+}
+
+const ctx = self as unknown as HandDetectionWorkerScope;
+let landmarker: HandLandmarker | null = null;
+let lastTimestamp = -1;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+// MediaPipe loads its wasm glue with importScripts, which module workers lack.
+// It then falls back to `self.import` when defined: evaluate the classic script
+// in global scope so the factory it declares ends up on `self` as expected.
+ctx.import = async (url: string) => {
+  const res = await fetch(url);
+  (0, eval)(await res.text());
+};
+
+// Strip MediaPipe's classes down to the plain DetectionResult shape before posting
+const toDetectionResult = (result: HandLandmarkerResult): DetectionResult => ({
+  landmarks: result.landmarks.map((hand) => hand.map(({ x, y, z }) => ({ x, y, z }))),
+  worldLandmarks: result.worldLandmarks.map((hand) => hand.map(({ x, y, z }) => ({ x, y, z }))),
+  handedness: result.handedness.map((categories) =>
+    categories.map(({ categoryName, score }) => ({ categoryName, score }))
+  ),
+});
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    try {
+      const loaded = await createHandLandmarker({ assetBase: message.assetBase, numHands: message.numHands });
+      landmarker = loaded.landmarker;
+      post({ type: 'ready', delegate: loaded.delegate });
+    } catch (err) {
+      post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  const { frame } = message;
+  try {
+    if (!landmarker) {
+      post({ type: 'skipped', timestamp: message.timestamp });
+      return;
+    }
+    // detectForVideo requires strictly increasing timestamps
+    const timestamp = Math.max(message.timestamp, lastTimestamp + 1);
+    lastTimestamp = timestamp;
+
+    const start = performance.now();
+    const result = landmarker.detectForVideo(frame, timestamp);
+    post({
+      type: 'result',
+      result: toDetectionResult(result),
+      timestamp: message.timestamp,
+      latency: performance.now() - start,
+    });
+  } catch (err) {
+    console.warn('Worker detection error:', err);
+    post({ type: 'skipped', timestamp: message.timestamp });
+  } finally {
+    frame.close();
+  }
+};